@@ -0,0 +1,42 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+// Everything under public/, voice clips in their language folders included
+function publicFiles(publicDir: string): string[] {
+  return fs.readdirSync(publicDir, { recursive: true, encoding: 'utf-8' })
+    .filter(file => fs.statSync(path.join(publicDir, file)).isFile())
+    .map(file => file.split(path.sep).join('/'));
+}
+
+// Emits sw.js next to the build, with the hashed bundle and the public files in its precache list
+export function serviceWorker(version: string): Plugin {
+  return {
+    name: 'tafelkampioen-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const publicDir = path.resolve(__dirname, '../public');
+      const files = [
+        ...Object.keys(bundle).filter(file => !file.endsWith('.map') && file !== 'index.html'),
+        ...publicFiles(publicDir)
+      ];
+      const precache = ['./', ...files.map(file => `./${file}`)];
+      // A new bundle changes the build id, so the browser sees a new worker even when the version stays the same
+      const build = createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 8);
+      const template = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8');
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: [
+          `const VERSION = ${JSON.stringify(version)};`,
+          `const BUILD = ${JSON.stringify(build)};`,
+          `const PRECACHE = ${JSON.stringify(precache)};`,
+          '',
+          template
+        ].join('\n')
+      });
+    }
+  };
+}
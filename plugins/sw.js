@@ -0,0 +1,85 @@
+// Service worker template. The build prepends VERSION, BUILD and PRECACHE (see serviceWorker.ts).
+/* global VERSION, BUILD, PRECACHE */
+
+const SHELL_CACHE = `tafelkampioen-${VERSION}-${BUILD}`;
+const FONT_CACHE = 'tafelkampioen-fonts';
+const FONT_CSS = 'https://fonts.googleapis.com/css2?family=Plus+Jakarta+Sans:wght@300..800&family=Outfit:wght@100..900&display=swap';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// The first visit isn't controlled by the worker yet, so the fonts are fetched here as well
+async function precacheFonts() {
+  const cache = await caches.open(FONT_CACHE);
+  const response = await fetch(FONT_CSS);
+  if (!response.ok) return;
+  const css = await response.clone().text();
+  await cache.put(FONT_CSS, response);
+  const fontUrls = [...css.matchAll(/url\((https:[^)]+)\)/g)].map(match => match[1]);
+  await Promise.all(fontUrls.map(url => cache.add(url)));
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(PRECACHE);
+    // Fonts are nice to have; without them the app falls back to system fonts
+    await precacheFonts().catch(() => {});
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter(key => key.startsWith('tafelkampioen-') && key !== SHELL_CACHE && key !== FONT_CACHE)
+      .map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'GET_VERSION') {
+    event.ports[0]?.postMessage({ version: VERSION, build: BUILD });
+  }
+  // Sent from the update prompt once the player agrees to reload
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+async function fromFontCache(request) {
+  const cache = await caches.open(FONT_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request).then(response => {
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    network.catch(() => {});
+    return cached;
+  }
+  return network;
+}
+
+async function fromShell(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  // Every page of the app is the same index.html
+  const cached = request.mode === 'navigate'
+    ? await cache.match('./')
+    : await cache.match(request, { ignoreSearch: true });
+  return cached ?? fetch(request);
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(fromFontCache(request));
+    return;
+  }
+
+  // The sync server and anything else outside the app go straight to the network
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(new URL(self.registration.scope).pathname)) return;
+  event.respondWith(fromShell(request));
+});
@@ -0,0 +1,175 @@
+import Database from 'better-sqlite3';
+import { Assignment, ClassRoom, HistoryClear, SessionResult, SyncBatch, SyncFact, SyncProfile } from '../src/types';
+
+export type SyncDatabase = ReturnType<typeof openDatabase>;
+
+// Most tables keep the record as JSON in `data`; facts store their stat apart
+interface DataRow {
+  data: string;
+}
+
+interface FactRow {
+  profile_id: string;
+  key: string;
+  stat: string;
+}
+
+function toFact(row: FactRow): SyncFact {
+  return { profileId: row.profile_id, key: row.key, stat: JSON.parse(row.stat) };
+}
+
+export function openDatabase(file: string) {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS profiles (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      server_updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      profile_id TEXT,
+      timestamp INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      server_updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS sessions_profile ON sessions (profile_id, timestamp);
+    CREATE TABLE IF NOT EXISTS facts (
+      profile_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      stat TEXT NOT NULL,
+      last_seen INTEGER NOT NULL,
+      server_updated_at INTEGER NOT NULL,
+      PRIMARY KEY (profile_id, key)
+    );
+    CREATE TABLE IF NOT EXISTS classes (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      server_updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS assignments (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      server_updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS history_clears (
+      profile_id TEXT PRIMARY KEY,
+      cleared_at INTEGER NOT NULL,
+      server_updated_at INTEGER NOT NULL
+    );
+  `);
+
+  // Last write wins on the client's updatedAt
+  const upsertProfile = db.prepare(`
+    INSERT INTO profiles (id, data, updated_at, server_updated_at) VALUES (@id, @data, @updatedAt, @now)
+    ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at, server_updated_at = excluded.server_updated_at
+    WHERE excluded.updated_at > profiles.updated_at
+  `);
+  // Sessions never change once played, so the union by id is enough
+  const insertSession = db.prepare(`
+    INSERT OR IGNORE INTO sessions (id, profile_id, timestamp, data, server_updated_at) VALUES (@id, @profileId, @timestamp, @data, @now)
+  `);
+  // Last write wins per fact on stat.lastSeen
+  const upsertFact = db.prepare(`
+    INSERT INTO facts (profile_id, key, stat, last_seen, server_updated_at) VALUES (@profileId, @key, @stat, @lastSeen, @now)
+    ON CONFLICT(profile_id, key) DO UPDATE SET stat = excluded.stat, last_seen = excluded.last_seen, server_updated_at = excluded.server_updated_at
+    WHERE excluded.last_seen > facts.last_seen
+  `);
+
+  // Classes and assignments are last write wins on updatedAt, like profiles
+  const upsertRecord = (table: 'classes' | 'assignments') => db.prepare(`
+    INSERT INTO ${table} (id, data, updated_at, server_updated_at) VALUES (@id, @data, @updatedAt, @now)
+    ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at, server_updated_at = excluded.server_updated_at
+    WHERE excluded.updated_at > ${table}.updated_at
+  `);
+  const upsertClass = upsertRecord('classes');
+  const upsertAssignment = upsertRecord('assignments');
+
+  // A cleared history stays cleared: the latest clear per profile wins and takes the sessions it covers along
+  const upsertClear = db.prepare(`
+    INSERT INTO history_clears (profile_id, cleared_at, server_updated_at) VALUES (@profileId, @clearedAt, @now)
+    ON CONFLICT(profile_id) DO UPDATE SET cleared_at = excluded.cleared_at, server_updated_at = excluded.server_updated_at
+    WHERE excluded.cleared_at > history_clears.cleared_at
+  `);
+  const deleteClearedSessions = db.prepare('DELETE FROM sessions WHERE profile_id = ? AND timestamp <= ?');
+  const clearedAt = db.prepare<[string], { cleared_at: number }>('SELECT cleared_at FROM history_clears WHERE profile_id = ?');
+
+  const profilesSince = db.prepare<[number], DataRow>('SELECT data FROM profiles WHERE server_updated_at >= ?');
+  const sessionsSince = db.prepare<[number], DataRow>('SELECT data FROM sessions WHERE server_updated_at >= ? ORDER BY timestamp DESC');
+  const factsSince = db.prepare<[number], FactRow>('SELECT profile_id, key, stat FROM facts WHERE server_updated_at >= ?');
+  const classesSince = db.prepare<[number], DataRow>('SELECT data FROM classes WHERE server_updated_at >= ?');
+  const assignmentsSince = db.prepare<[number], DataRow>('SELECT data FROM assignments WHERE server_updated_at >= ?');
+  const clearsSince = db.prepare<[number], { profile_id: string; cleared_at: number }>(
+    'SELECT profile_id, cleared_at FROM history_clears WHERE server_updated_at >= ?'
+  );
+
+  const merge = db.transaction((batch: Omit<SyncBatch, 'cursor'>, now: number) => {
+    batch.profiles.forEach(profile => {
+      upsertProfile.run({ id: profile.id, data: JSON.stringify(profile), updatedAt: profile.updatedAt, now });
+    });
+    batch.historyClears.forEach(clear => {
+      upsertClear.run({ profileId: clear.profileId, clearedAt: clear.clearedAt, now });
+      deleteClearedSessions.run(clear.profileId, clear.clearedAt);
+    });
+    batch.sessions.forEach(session => {
+      const cleared = session.profileId ? clearedAt.get(session.profileId) : undefined;
+      if (cleared && session.timestamp <= cleared.cleared_at) return;
+      insertSession.run({
+        id: session.id,
+        profileId: session.profileId ?? null,
+        timestamp: session.timestamp,
+        data: JSON.stringify(session),
+        now
+      });
+    });
+    batch.facts.forEach(fact => {
+      upsertFact.run({
+        profileId: fact.profileId,
+        key: fact.key,
+        stat: JSON.stringify(fact.stat),
+        lastSeen: fact.stat.lastSeen,
+        now
+      });
+    });
+    batch.classes.forEach(item => {
+      upsertClass.run({ id: item.id, data: JSON.stringify(item), updatedAt: item.updatedAt, now });
+    });
+    batch.assignments.forEach(item => {
+      upsertAssignment.run({ id: item.id, data: JSON.stringify(item), updatedAt: item.updatedAt, now });
+    });
+  });
+
+  const changesSince = (cursor: number): Omit<SyncBatch, 'cursor'> => ({
+    profiles: profilesSince.all(cursor).map(row => JSON.parse(row.data) as SyncProfile),
+    sessions: sessionsSince.all(cursor).map(row => JSON.parse(row.data) as SessionResult),
+    facts: factsSince.all(cursor).map(toFact),
+    classes: classesSince.all(cursor).map(row => JSON.parse(row.data) as ClassRoom),
+    assignments: assignmentsSince.all(cursor).map(row => JSON.parse(row.data) as Assignment),
+    historyClears: clearsSince.all(cursor).map((row): HistoryClear => ({ profileId: row.profile_id, clearedAt: row.cleared_at }))
+  });
+
+  return {
+    merge,
+    changesSince,
+    listProfiles: (): SyncProfile[] =>
+      db.prepare<[], DataRow>('SELECT data FROM profiles').all().map(row => JSON.parse(row.data)),
+    listSessions: (profileId?: string): SessionResult[] =>
+      (profileId
+        ? db.prepare<[string], DataRow>('SELECT data FROM sessions WHERE profile_id = ? ORDER BY timestamp DESC').all(profileId)
+        : db.prepare<[], DataRow>('SELECT data FROM sessions ORDER BY timestamp DESC').all()
+      ).map(row => JSON.parse(row.data)),
+    listClasses: (): ClassRoom[] =>
+      db.prepare<[], DataRow>('SELECT data FROM classes').all().map(row => JSON.parse(row.data)),
+    listAssignments: (classId?: string): Assignment[] =>
+      db.prepare<[], DataRow>('SELECT data FROM assignments').all()
+        .map(row => JSON.parse(row.data) as Assignment)
+        .filter(a => !classId || a.classId === classId),
+    listFacts: (profileId: string): SyncFact[] =>
+      db.prepare<[string], FactRow>('SELECT profile_id, key, stat FROM facts WHERE profile_id = ?').all(profileId).map(toFact),
+    close: () => db.close()
+  };
+}
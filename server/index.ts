@@ -0,0 +1,108 @@
+import { timingSafeEqual } from 'node:crypto';
+import express from 'express';
+import { SessionResult, SyncBatch } from '../src/types';
+import { openDatabase } from './db';
+import { isSession, parseSyncBatch } from './validate';
+
+const PORT = Number(process.env.PORT) || 3001;
+const DB_FILE = process.env.TAFEL_DB || 'tafelkampioen.db';
+const TOKEN = process.env.TAFEL_TOKEN || '';
+const ALLOWED_ORIGIN = process.env.TAFEL_ORIGIN || '';
+
+// Every device syncs with the same shared token, so refuse to run without one
+if (!TOKEN) {
+  console.error('Zet TAFEL_TOKEN op een geheime toegangscode, die vul je ook in bij Synchroniseren in de app.');
+  process.exit(1);
+}
+// Only the page the app is served from may call the server; '*' has to be asked for explicitly
+if (!ALLOWED_ORIGIN) {
+  console.error('Zet TAFEL_ORIGIN op het adres waar de app draait, bijvoorbeeld https://school.github.io.');
+  process.exit(1);
+}
+
+const db = openDatabase(DB_FILE);
+const app = express();
+
+app.use(express.json({ limit: '10mb' }));
+
+// The app is served from another origin (GitHub Pages, the Vite dev server)
+app.use((req, res, next) => {
+  res.header('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+
+function hasToken(header: string | undefined): boolean {
+  const given = Buffer.from(header?.replace(/^Bearer /, '') ?? '');
+  const expected = Buffer.from(TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+app.use((req, res, next) => {
+  if (!hasToken(req.headers.authorization)) {
+    res.status(401).json({ error: 'Ongeldige toegangscode' });
+    return;
+  }
+  next();
+});
+
+app.get('/api/health', (_req, res) => {
+  res.json({ ok: true });
+});
+
+app.get('/api/profiles', (_req, res) => {
+  res.json(db.listProfiles());
+});
+
+app.get('/api/profiles/:id/sessions', (req, res) => {
+  res.json(db.listSessions(req.params.id));
+});
+
+app.get('/api/profiles/:id/facts', (req, res) => {
+  res.json(db.listFacts(req.params.id));
+});
+
+app.get('/api/classes', (_req, res) => {
+  res.json(db.listClasses().filter(c => !c.deleted));
+});
+
+app.get('/api/classes/:id/assignments', (req, res) => {
+  res.json(db.listAssignments(req.params.id).filter(a => !a.deleted));
+});
+
+app.get('/api/sessions', (req, res) => {
+  res.json(db.listSessions(typeof req.query.profileId === 'string' ? req.query.profileId : undefined));
+});
+
+app.post('/api/sessions', (req, res) => {
+  const sessions: SessionResult[] = Array.isArray(req.body) ? req.body : [req.body];
+  if (!sessions.every(isSession)) {
+    res.status(400).json({ error: 'Ongeldige sessie' });
+    return;
+  }
+  db.merge({ profiles: [], sessions, facts: [], classes: [], assignments: [], historyClears: [] }, Date.now());
+  res.status(201).json({ stored: sessions.length });
+});
+
+app.post('/api/sync', (req, res) => {
+  const batch = parseSyncBatch(req.body);
+  if (!batch) {
+    res.status(400).json({ error: 'Ongeldige synchronisatie' });
+    return;
+  }
+
+  const now = Date.now();
+  const { cursor, ...changes } = batch;
+  db.merge(changes, now);
+  const response: SyncBatch = { cursor: now, ...db.changesSince(cursor) };
+  res.json(response);
+});
+
+app.listen(PORT, () => {
+  console.log(`TafelKampioen sync server op http://localhost:${PORT} (database: ${DB_FILE})`);
+});
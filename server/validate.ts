@@ -0,0 +1,48 @@
+import { Assignment, ClassRoom, HistoryClear, SessionResult, SyncBatch, SyncFact, SyncProfile } from '../src/types';
+
+// Checks just what the database needs to store an item, so a malformed one is a 400 and not a failing insert
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+export function isSession(value: unknown): value is SessionResult {
+  return isObject(value) && typeof value.id === 'string' && typeof value.timestamp === 'number' && isOptionalString(value.profileId);
+}
+
+function isProfile(value: unknown): value is SyncProfile {
+  return isObject(value) && typeof value.id === 'string' && typeof value.updatedAt === 'number';
+}
+
+function isFact(value: unknown): value is SyncFact {
+  return isObject(value) && typeof value.profileId === 'string' && typeof value.key === 'string'
+    && isObject(value.stat) && typeof value.stat.lastSeen === 'number';
+}
+
+function isRecord(value: unknown): value is ClassRoom | Assignment {
+  return isObject(value) && typeof value.id === 'string' && typeof value.updatedAt === 'number';
+}
+
+function isHistoryClear(value: unknown): value is HistoryClear {
+  return isObject(value) && typeof value.profileId === 'string' && typeof value.clearedAt === 'number';
+}
+
+function listOf<T>(value: unknown, check: (item: unknown) => item is T, optional = false): T[] | null {
+  if (value === undefined && optional) return [];
+  return Array.isArray(value) && value.every(check) ? value : null;
+}
+
+// Null when anything in the batch is malformed. Clients from before classroom mode or history clears
+// don't send those lists.
+export function parseSyncBatch(body: unknown): SyncBatch | null {
+  if (!isObject(body) || (body.cursor !== undefined && typeof body.cursor !== 'number')) return null;
+  const profiles = listOf(body.profiles, isProfile);
+  const sessions = listOf(body.sessions, isSession);
+  const facts = listOf(body.facts, isFact);
+  const classes = listOf(body.classes, isRecord, true) as ClassRoom[] | null;
+  const assignments = listOf(body.assignments, isRecord, true) as Assignment[] | null;
+  const historyClears = listOf(body.historyClears, isHistoryClear, true);
+  if (!profiles || !sessions || !facts || !classes || !assignments || !historyClears) return null;
+  return { cursor: body.cursor ?? 0, profiles, sessions, facts, classes, assignments, historyClears };
+}
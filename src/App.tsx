@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import confetti from 'canvas-confetti';
 import { 
@@ -18,56 +18,203 @@ import {
   Divide,
   Sparkles,
   User,
-  History,
   X,
-  Info,
-  Trash2
+  LayoutGrid,
+  GraduationCap,
+  Lock,
+  Award,
+  Trophy,
+  ChevronRight,
+  Volume2,
+  Pause
 } from 'lucide-react';
-import { Exercise, Operation, UserSettings, MasteryData, SessionResult } from './types';
+import { ArithmeticLevel, UserSettings, MasteryData, SessionResult, FactStats, Profile, ClassRoom, Assignment, NumberRange, SharedPractice, UnlockedBadges } from './types';
+import { factKey, gradeFact } from './lib/scheduler';
+import { DEFAULT_MULTIPLIER_RANGE, countFacts, rangeValues } from './lib/pool';
+import {
+  PracticeSession,
+  SessionStats,
+  answerComplete,
+  answerQuestion,
+  cleanAnswerInput,
+  createPartialResult,
+  createRetrySession,
+  createSession,
+  createSessionResult,
+  currentExercise as currentExerciseOf,
+  endSession,
+  gradeMastery,
+  nextQuestion,
+  pauseSession,
+  questionTimeLeft,
+  restoreSession,
+  resumeSession,
+  sprintTimeLeft,
+  summarizeSession
+} from './lib/engine';
+import { ArithmeticOperation, levelLabel } from './lib/arithmetic';
+import { formatSeconds, operatorSymbol } from './lib/format';
+import { canSpeak, speak, spokenFeedback, spokenQuestion, stopSpeaking } from './lib/speech';
+import {
+  AVATARS,
+  DEFAULT_SETTINGS,
+  createProfile,
+  deleteProfileData,
+  loadActiveProfileId,
+  loadActiveSession,
+  loadBadges,
+  loadFactStats,
+  loadMastery,
+  loadProfiles,
+  loadLegacySessionHistory,
+  clearLegacySessionHistory,
+  loadSettings,
+  recordHistoryClear,
+  saveActiveProfileId,
+  saveActiveSession,
+  saveBadges,
+  saveFactStats,
+  saveMastery,
+  saveProfiles,
+  saveSettings
+} from './lib/storage';
+import ProfilePicker from './components/ProfilePicker';
+import NumericKeypad from './components/NumericKeypad';
+import ResumePrompt from './components/ResumePrompt';
+import DuelSetup from './components/DuelSetup';
+import DuelMatch from './components/DuelMatch';
+import DuelResults from './components/DuelResults';
+import { DuelPlayer, DuelState, createDuel, createDuelResults } from './lib/duel';
+import { randomSeed } from './lib/random';
+import Dashboard from './components/Dashboard';
+import HistoryRow from './components/HistoryRow';
+import SessionList from './components/SessionList';
+import { historyStore } from './lib/historyStore';
+import { SyncError, loadSyncConfig, markFactsChanged, markSessionsChanged, saveSyncConfig, syncNow } from './lib/sync';
+import SyncPanel, { SyncStatus } from './components/SyncPanel';
+import { assignmentsForPupil, isTeacher, loadAssignments, loadClasses, saveAssignments, saveClasses } from './lib/classroom';
+import TeacherPanel from './components/TeacherPanel';
+import AssignmentList from './components/AssignmentList';
+import BackupPanel from './components/BackupPanel';
+import TimerPicker from './components/TimerPicker';
+import SprintLeaderboard from './components/SprintLeaderboard';
+import ChallengePicker from './components/ChallengePicker';
+import RangePicker from './components/RangePicker';
+import ArithmeticPicker from './components/ArithmeticPicker';
+import UpdatePrompt from './components/UpdatePrompt';
+import { AvailableUpdate, registerServiceWorker } from './lib/serviceWorker';
+import { clearPracticeCodeFromUrl, decodePracticeCode, readPracticeCodeFromUrl } from './lib/practiceCode';
+import SharePanel from './components/SharePanel';
+import SharedPracticeBanner from './components/SharedPracticeBanner';
+import SharedResults from './components/SharedResults';
+import { BadgeRule, evaluateBadges, unlockBadges } from './lib/badges';
+import BadgeGallery from './components/BadgeGallery';
+import BadgeUnlocks from './components/BadgeUnlocks';
+import DailyGoalCard from './components/DailyGoalCard';
+import PracticeCalendar from './components/PracticeCalendar';
+import { beatsRecord, describeSubject, findRecord, personalRecords, recordValue, sessionSubject, showsEarlierBest } from './lib/records';
+import RecordsOverview from './components/RecordsOverview';
+import ProgressPanel from './components/ProgressPanel';
+import LanguagePicker from './components/LanguagePicker';
+import { formatDateTime, formatDecimal, setLocale, t } from './lib/i18n';
 
-const TABLES = Array.from({ length: 11 }, (_, i) => i);
+const NO_LEVELS: ArithmeticLevel[] = [];
+const NO_STATS: SessionStats = { correct: 0, total: 0 };
+
+// The session a reload or the back button left behind, waiting paused
+function loadResumable(profileId: string): PracticeSession | null {
+  const stored = loadActiveSession(profileId);
+  return stored ? restoreSession(stored.session, stored.savedAt) : null;
+}
+
+function sharedPracticeFromUrl(): { code: string; practice: SharedPractice } | null {
+  const code = readPracticeCodeFromUrl();
+  const practice = code ? decodePracticeCode(code) : null;
+  return code && practice ? { code, practice } : null;
+}
 
 export default function App() {
-  const [mode, setMode] = useState<'settings' | 'practice' | 'results'>('settings');
-  const [settings, setSettings] = useState<UserSettings>(() => {
-    const saved = localStorage.getItem('tafel-settings');
-    return saved ? JSON.parse(saved) : { playerName: '', multiplicationTables: [], divisionTables: [], exerciseCount: 10 };
-  });
-  const [mastery, setMastery] = useState<MasteryData>(() => {
-    const saved = localStorage.getItem('tafel-mastery');
-    return saved ? JSON.parse(saved) : {};
-  });
-  const [sessionHistory, setSessionHistory] = useState<SessionResult[]>(() => {
-    const saved = localStorage.getItem('tafel-session-history');
-    if (!saved) return [];
-    try {
-      const parsed = JSON.parse(saved);
-      // Migrate old data if necessary
-      return parsed.map((item: any) => ({
-        ...item,
-        multiplicationTables: item.multiplicationTables || [],
-        divisionTables: item.divisionTables || []
-      }));
-    } catch (e) {
-      return [];
-    }
-  });
+  const [mode, setMode] = useState<'settings' | 'practice' | 'results' | 'dashboard' | 'teacher' | 'badges' | 'calendar' | 'records' | 'duel'>('settings');
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(() => loadActiveProfileId(profiles));
+  const [settings, setSettings] = useState<UserSettings>(() => loadSettings(activeProfileId));
+  const [mastery, setMastery] = useState<MasteryData>(() => loadMastery(activeProfileId));
+  const [factStats, setFactStats] = useState<FactStats>(() => loadFactStats(activeProfileId));
+  const [badges, setBadges] = useState<UnlockedBadges>(() => loadBadges(activeProfileId));
+  const [sessionHistory, setSessionHistory] = useState<SessionResult[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [classes, setClasses] = useState<ClassRoom[]>(loadClasses);
+  const [assignments, setAssignments] = useState<Assignment[]>(loadAssignments);
+  const [activeAssignmentId, setActiveAssignmentId] = useState<string | null>(null);
+  const [syncConfig, setSyncConfig] = useState(loadSyncConfig);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [availableUpdate, setAvailableUpdate] = useState<AvailableUpdate | null>(null);
+  // Kept after playing, so brothers and sisters on the same tablet can take the same quiz
+  const [sharedPractice, setSharedPractice] = useState(sharedPracticeFromUrl);
   
-  const [currentExercise, setCurrentExercise] = useState<Exercise | null>(null);
-  const [exercisePool, setExercisePool] = useState<Exercise[]>([]);
+  const [session, setSession] = useState<PracticeSession | null>(null);
+  const [resumable, setResumable] = useState<PracticeSession | null>(() => loadResumable(activeProfileId));
+  const [duel, setDuel] = useState<DuelState | null>(null);
   const [userAnswer, setUserAnswer] = useState('');
-  const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
-  const [stats, setStats] = useState({ correct: 0, total: 0 });
-  const [history, setHistory] = useState<{ exercise: Exercise; correct: boolean }[]>([]);
-  const [activeTotal, setActiveTotal] = useState(0);
   const [timeLeft, setTimeLeft] = useState(15);
+  const [sprintLeft, setSprintLeft] = useState(0);
   const [selectedSession, setSelectedSession] = useState<SessionResult | null>(null);
-  const [sessionStartTime, setSessionStartTime] = useState<number | null>(null);
   const [isNewRecord, setIsNewRecord] = useState(false);
+  const [previousRecord, setPreviousRecord] = useState<SessionResult | null>(null);
+  const [newBadges, setNewBadges] = useState<BadgeRule[]>([]);
+  // Text of the live region: the sum, then whether the answer was right
+  const [announcement, setAnnouncement] = useState('');
+  const [readAloudAvailable, setReadAloudAvailable] = useState(true);
+  const [confirmTeacher, setConfirmTeacher] = useState(false);
+
+  const currentExercise = session ? currentExerciseOf(session) : null;
+  const feedback = session?.feedback ?? null;
+  const paused = session?.pausedAt !== undefined;
+  const stats = session?.stats ?? NO_STATS;
+  const history = session?.history ?? [];
+  const activeTotal = session?.plannedTotal ?? 0;
+  const sessionTimer = session?.timer ?? settings.timer;
   
+  // Module state rather than context: set once before the first render, and on a change before the next paint
+  const [locale, setShownLocale] = useState(() => {
+    setLocale(settings.language);
+    return settings.language;
+  });
+  useLayoutEffect(() => {
+    if (settings.language === locale) return;
+    setLocale(settings.language);
+    setShownLocale(settings.language);
+  }, [settings.language, locale]);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const openAssignments = assignmentsForPupil(activeProfileId, classes, assignments).filter(a => a.deadline >= Date.now());
+  const activeAssignment = openAssignments.find(a => a.id === activeAssignmentId) ?? null;
+  // A teacher's assignment locks the table selection and exercise count
+  const selection = activeAssignment ?? settings;
+  // Assignments only cover tables, so addition and subtraction stay off while one is active
+  const additionLevels = activeAssignment ? NO_LEVELS : settings.additionLevels;
+  const subtractionLevels = activeAssignment ? NO_LEVELS : settings.subtractionLevels;
+  const records = useMemo(() => personalRecords(sessionHistory), [sessionHistory]);
+  const currentRecord = findRecord(records, {
+    multiplicationTables: selection.multiplicationTables,
+    divisionTables: selection.divisionTables,
+    additionLevels,
+    subtractionLevels,
+    exerciseCount: selection.exerciseCount,
+    timer: settings.timer
+  });
+
   const inputRef = useRef<HTMLInputElement>(null);
+  const resultsHeadingRef = useRef<HTMLHeadingElement>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const sprintTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Timers and delayed steps read the session from here, so they never act on a stale copy
+  const sessionRef = useRef<PracticeSession | null>(null);
+  const finishSessionRef = useRef<(session: PracticeSession) => void>(() => {});
   const handleAnswerRef = useRef<(answer: string | null) => void>(() => {});
+  const runSyncRef = useRef<() => void>(() => {});
+  const modeRef = useRef(mode);
 
   const stopTimer = useCallback(() => {
     if (timerRef.current) {
@@ -76,124 +223,175 @@ export default function App() {
     }
   }, []);
 
+  const stopSprint = useCallback(() => {
+    if (sprintTimerRef.current) {
+      clearInterval(sprintTimerRef.current);
+      sprintTimerRef.current = null;
+    }
+  }, []);
+
+  const commitSession = useCallback((next: PracticeSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+  }, []);
+
+  // Counts down the sum on screen; untimed sums and sprints have no countdown per question
   const startTimer = useCallback(() => {
     stopTimer();
-    setTimeLeft(15);
+    const current = sessionRef.current;
+    if (!current || current.timer.mode !== 'perQuestion') return;
+    setTimeLeft(current.timer.questionSeconds);
     timerRef.current = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 0.05) {
-          stopTimer();
-          handleAnswerRef.current(null); // Timeout
-          return 0;
-        }
-        return prev - 0.05;
-      });
+      const active = sessionRef.current;
+      const left = active ? questionTimeLeft(active, Date.now()) : null;
+      if (left === null) return;
+      setTimeLeft(left);
+      if (left <= 0) {
+        stopTimer();
+        handleAnswerRef.current(null); // Timeout
+      }
     }, 50);
   }, [stopTimer]);
 
-  const playSuccessSound = useCallback(async () => {
+  const startSprint = useCallback(() => {
+    stopSprint();
+    const current = sessionRef.current;
+    if (!current || current.timer.mode !== 'sprint') return;
+    setSprintLeft(current.timer.sprintSeconds);
+    sprintTimerRef.current = setInterval(() => {
+      const active = sessionRef.current;
+      const left = active ? sprintTimeLeft(active, Date.now()) : null;
+      if (!active || left === null) return;
+      setSprintLeft(left);
+      if (left <= 0) {
+        stopSprint();
+        stopTimer();
+        const ended = endSession(active);
+        commitSession(ended);
+        finishSessionRef.current(ended);
+      }
+    }, 50);
+  }, [stopSprint, stopTimer, commitSession]);
+
+  useEffect(() => {
+    registerServiceWorker(setAvailableUpdate);
+  }, []);
+
+  // One element for the whole visit, so the sound is downloaded once (and offline comes from the service worker)
+  const successAudioRef = useRef<HTMLAudioElement | null>(null);
+  useEffect(() => {
     const baseUrl = import.meta.env.BASE_URL || '/';
     const localUrl = (window.location.origin + baseUrl + `/success.mp3`).replace(/([^:]\/)\/+/g, "$1");
+    const audio = new Audio(localUrl);
+    audio.preload = 'auto';
+    successAudioRef.current = audio;
+  }, []);
+
+  const playSuccessSound = useCallback(async () => {
+    const audio = successAudioRef.current;
+    if (!audio) return;
     
     try {
-      const audio = new Audio(localUrl);
+      audio.currentTime = 0;
       await audio.play();
     } catch (e) {
       console.warn('Audio afspelen mislukt:', e);
     }
   }, []);
 
+  // Adds a result to the history and unlocks what it earned; resolves with the new badges
+  const storeResult = useCallback(async (result: SessionResult, now: number): Promise<BadgeRule[]> => {
+    setSessionHistory(prev => [result, ...prev]);
+    await historyStore.put(result);
+    markSessionsChanged([result.id]);
+    const earned = evaluateBadges({ result, sessions: [result, ...sessionHistory], mastery, now }, badges);
+    setBadges(prev => unlockBadges(prev, earned, now));
+    runSyncRef.current();
+    return earned;
+  }, [sessionHistory, mastery, badges]);
+
+  const finishSession = useCallback((finished: PracticeSession) => {
+    stopSprint();
+    saveActiveSession(activeProfileId, null);
+    // A sprint that ends before the first answer leaves nothing to save
+    if (finished.stats.total === 0) {
+      setMode('settings');
+      commitSession(null);
+      return;
+    }
+
+    // Save to session history
+    const now = Date.now();
+    const summary = summarizeSession(finished, now);
+    const allCorrect = summary.allCorrect;
+
+    const result = createSessionResult(finished, summary, {
+      profileId: activeProfileId,
+      assignmentId: finished.assignmentId,
+      playerName: settings.playerName || t('app.anonymous')
+    }, now);
+
+    // Records are kept per selection, count and timer mode, so only the matching one is compared
+    const previous = result.retry ? null : findRecord(records, sessionSubject(result))?.session ?? null;
+    const recordBeaten = beatsRecord(result, previous ?? undefined);
+    setIsNewRecord(recordBeaten);
+    setPreviousRecord(previous);
+    setNewBadges([]);
+    storeResult(result, now)
+      .then(setNewBadges)
+      .catch(e => console.warn('Resultaat bewaren mislukt:', e));
+    
+    // Play success sound if 0 errors
+    if (allCorrect) {
+      playSuccessSound();
+      
+      confetti({
+        particleCount: 150,
+        spread: 70,
+        origin: { y: 0.6 },
+        colors: recordBeaten ? ['#fbbf24', '#f59e0b', '#d97706'] : ['#10b981', '#3b82f6', '#f59e0b']
+      });
+    }
+
+    setMode('results');
+  }, [records, settings.playerName, activeProfileId, storeResult, playSuccessSound, stopSprint, commitSession]);
+
   const handleAnswer = useCallback((answer: string | null) => {
-    if (!currentExercise || feedback) return;
+    const current = sessionRef.current;
+    const outcome = current ? answerQuestion(current, answer) : null;
+    if (!outcome) return;
 
     stopTimer();
-    const isCorrect = answer !== null && parseInt(answer) === currentExercise.result;
-    setFeedback(isCorrect ? 'correct' : 'incorrect');
-    
-    // Update mastery
-    const tableKey = currentExercise.b;
-    
-    const key = `${currentExercise.op}-${tableKey}`;
-    setMastery(prev => {
-      const currentScore = prev[key] || 0;
-      const nextScore = isCorrect 
-        ? Math.min(10, currentScore + 1) 
-        : Math.max(0, currentScore - 1);
-      return { ...prev, [key]: nextScore };
-    });
+    commitSession(outcome.session);
 
-    const nextStats = {
-      correct: stats.correct + (isCorrect ? 1 : 0),
-      total: stats.total + 1
-    };
-    
-    setStats(nextStats);
-    setHistory(prev => [...prev, { exercise: currentExercise, correct: isCorrect }]);
+    const { exercise, correct } = outcome.entry;
+    setMastery(prev => gradeMastery(prev, exercise, correct));
+    const fact = factKey(exercise);
+    setFactStats(prev => ({ ...prev, [fact]: gradeFact(prev[fact], correct, Date.now()) }));
+    markFactsChanged(activeProfileId, [fact]);
 
     setTimeout(() => {
-      if (nextStats.total >= activeTotal) {
-        // Save to session history
-        const now = Date.now();
-        const duration = sessionStartTime ? now - sessionStartTime : 0;
-        const averageTimePerSum = duration / nextStats.total;
-        const allCorrect = nextStats.correct === nextStats.total;
-
-        let recordBeaten = false;
-        if (allCorrect) {
-          if (!settings.personalBest || averageTimePerSum < settings.personalBest) {
-            setSettings(prev => ({ ...prev, personalBest: averageTimePerSum }));
-            recordBeaten = true;
-          }
-        }
-        setIsNewRecord(recordBeaten);
-
-        const result: SessionResult = {
-          id: crypto.randomUUID(),
-          playerName: settings.playerName || 'Anoniem',
-          correct: nextStats.correct,
-          total: nextStats.total,
-          timestamp: now,
-          duration,
-          averageTimePerSum,
-          multiplicationTables: [...settings.multiplicationTables],
-          divisionTables: [...settings.divisionTables],
-          history: [...history, { exercise: currentExercise, correct: isCorrect }]
-        };
-        setSessionHistory(prev => [result, ...prev].slice(0, 5)); // Keep last 5
-        
-        // Play success sound if 0 errors
-        if (allCorrect) {
-          playSuccessSound();
-          
-          confetti({
-            particleCount: 150,
-            spread: 70,
-            origin: { y: 0.6 },
-            colors: recordBeaten ? ['#fbbf24', '#f59e0b', '#d97706'] : ['#10b981', '#3b82f6', '#f59e0b']
-          });
-        }
-
-        setMode('results');
-        setSessionStartTime(null);
+      const answered = sessionRef.current;
+      // The sprint clock (or the back button) already ended the session; a pause goes on when it is resumed
+      if (!answered || answered.finished || answered.pausedAt !== undefined || modeRef.current !== 'practice') return;
+      const next = nextQuestion(answered);
+      commitSession(next);
+      if (next.finished) {
+        finishSessionRef.current(next);
       } else {
-        setExercisePool(prev => prev.slice(1));
-        setCurrentExercise(null); // Clear current to trigger useEffect
         setUserAnswer('');
-        setFeedback(null);
         startTimer();
       }
     }, 500);
-  }, [currentExercise, feedback, stats, activeTotal, startTimer, stopTimer, settings.multiplicationTables, settings.playerName, history, playSuccessSound]);
+  }, [activeProfileId, startTimer, stopTimer, commitSession]);
 
   useEffect(() => {
     handleAnswerRef.current = handleAnswer;
   }, [handleAnswer]);
 
   useEffect(() => {
-    if (mode === 'practice' && !currentExercise && exercisePool.length > 0) {
-      setCurrentExercise(exercisePool[0]);
-    }
-  }, [mode, currentExercise, exercisePool]);
+    finishSessionRef.current = finishSession;
+  }, [finishSession]);
 
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
@@ -201,66 +399,322 @@ export default function App() {
     handleAnswer(userAnswer);
   };
 
-  // Cleanup timer on unmount
+  const pausePractice = useCallback(() => {
+    const current = sessionRef.current;
+    if (!current || current.finished || current.pausedAt !== undefined) return;
+    stopTimer();
+    stopSprint();
+    commitSession(pauseSession(current, Date.now()));
+  }, [stopTimer, stopSprint, commitSession]);
+
+  const resumePractice = () => {
+    const current = sessionRef.current;
+    if (!current) return;
+    const resumed = resumeSession(current);
+    commitSession(resumed);
+    if (resumed.finished) {
+      finishSession(resumed);
+      return;
+    }
+    if (current.feedback) setUserAnswer('');
+    startTimer();
+    startSprint();
+  };
+
+  // Written after every answer, so a reload or a closed tab loses no more than the sum on screen
   useEffect(() => {
-    return () => stopTimer();
-  }, [stopTimer]);
+    if (session && !session.finished) saveActiveSession(activeProfileId, session);
+  }, [session]);
+
+  // Switching apps or closing the tab pauses, so the clock doesn't run on while nobody is looking
+  useEffect(() => {
+    if (mode !== 'practice') return;
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') pausePractice();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [mode, pausePractice]);
+
+  // Typing and the keypad both end up here, so both can auto-submit
+  const enterAnswer = (input: string) => {
+    const answer = cleanAnswerInput(input);
+    setUserAnswer(answer);
+    if (settings.autoSubmit && currentExercise && answer !== '' && answerComplete(answer, currentExercise)) {
+      handleAnswer(answer);
+    }
+  };
+
+  // Cleanup timers on unmount
+  useEffect(() => {
+    return () => {
+      stopTimer();
+      stopSprint();
+    };
+  }, [stopTimer, stopSprint]);
 
   // Auto-focus logic
   useEffect(() => {
-    if (mode === 'practice' && !feedback) {
+    if (mode === 'practice' && !feedback && !paused) {
       const timer = setTimeout(() => {
         inputRef.current?.focus();
       }, 100);
       return () => clearTimeout(timer);
     }
-  }, [mode, currentExercise, feedback]);
+  }, [mode, currentExercise, feedback, paused]);
 
-  // Keep focus if user clicks away during practice
+  // Every new sum and every answer is announced, and read aloud too when the player asked for it.
+  // The history grows together with the feedback, so the last entry is the answer just given.
   useEffect(() => {
-    const handleGlobalClick = () => {
-      if (mode === 'practice' && !feedback) {
-        inputRef.current?.focus();
+    if (mode !== 'practice' || !currentExercise) {
+      stopSpeaking();
+      setAnnouncement('');
+      return;
+    }
+    if (paused) {
+      stopSpeaking();
+      setAnnouncement(t('practice.paused'));
+      return;
+    }
+    const lastEntry = history[history.length - 1];
+    const speech = feedback && lastEntry ? spokenFeedback(lastEntry) : spokenQuestion(currentExercise);
+    setAnnouncement(speech.text);
+    if (settings.readAloud) speak(speech);
+  }, [mode, currentExercise, feedback, paused, settings.readAloud]);
+
+  // Without a voice for the language and without recorded clips nothing would be heard, so say so in the settings.
+  // Browsers fill in their voice list late, hence the second look once it changes.
+  useEffect(() => {
+    if (!settings.readAloud) return;
+    let cancelled = false;
+    const check = () => {
+      canSpeak().then(available => {
+        if (!cancelled) setReadAloudAvailable(available);
+      });
+    };
+    check();
+    const synthesis = 'speechSynthesis' in window ? window.speechSynthesis : null;
+    synthesis?.addEventListener('voiceschanged', check);
+    return () => {
+      cancelled = true;
+      synthesis?.removeEventListener('voiceschanged', check);
+    };
+  }, [settings.readAloud, settings.language]);
+
+  // The results heading takes the focus, so a screen reader starts with the outcome
+  useEffect(() => {
+    if (mode === 'results') resultsHeadingRef.current?.focus();
+  }, [mode]);
+
+  useEffect(() => {
+    saveSettings(activeProfileId, settings);
+  }, [activeProfileId, settings]);
+
+  // Screen readers and the browser's own hyphenation follow the page language
+  useEffect(() => {
+    document.documentElement.lang = settings.language;
+  }, [settings.language]);
+
+  useEffect(() => {
+    saveMastery(activeProfileId, mastery);
+  }, [activeProfileId, mastery]);
+
+  useEffect(() => {
+    saveBadges(activeProfileId, badges);
+  }, [activeProfileId, badges]);
+
+  useEffect(() => {
+    saveFactStats(activeProfileId, factStats);
+  }, [activeProfileId, factStats]);
+
+  // Load every stored session of the active profile, moving any pre-store localStorage history over first
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const legacy = loadLegacySessionHistory(activeProfileId);
+      if (legacy.length > 0) {
+        await historyStore.putMany(legacy);
+        markSessionsChanged(legacy.map(s => s.id));
+        clearLegacySessionHistory(activeProfileId);
       }
+      const page = await historyStore.query({ profileId: activeProfileId });
+      if (!cancelled) setSessionHistory(page.sessions);
+    };
+    load().catch(e => console.warn('Historiek laden mislukt:', e));
+    return () => {
+      cancelled = true;
     };
-    window.addEventListener('click', handleGlobalClick);
-    return () => window.removeEventListener('click', handleGlobalClick);
-  }, [mode, feedback]);
+  }, [activeProfileId, historyVersion]);
+
+  useEffect(() => {
+    modeRef.current = mode;
+  }, [mode]);
+
+  // A sync rewrites localStorage underneath us, so pick everything up again
+  const reloadFromStorage = () => {
+    const nextProfiles = loadProfiles();
+    const nextActive = loadActiveProfileId(nextProfiles);
+    setProfiles(nextProfiles);
+    setActiveProfileId(nextActive);
+    setSettings(loadSettings(nextActive));
+    setResumable(loadResumable(nextActive));
+    setMastery(loadMastery(nextActive));
+    setBadges(loadBadges(nextActive));
+    setFactStats(loadFactStats(nextActive));
+    setClasses(loadClasses());
+    setAssignments(loadAssignments());
+    setHistoryVersion(v => v + 1);
+  };
+
+  const runSync = async () => {
+    // Never swap state out from under a running session
+    if (!syncConfig.serverUrl || modeRef.current === 'practice') return;
+    if (!navigator.onLine) {
+      setSyncStatus('offline');
+      return;
+    }
+    setSyncStatus('syncing');
+    try {
+      const next = await syncNow(syncConfig);
+      saveSyncConfig(next);
+      setSyncConfig(next);
+      reloadFromStorage();
+      setLastSyncedAt(Date.now());
+      setSyncStatus('ok');
+    } catch (e) {
+      console.warn('Synchroniseren mislukt:', e);
+      setSyncStatus(e instanceof SyncError && e.status === 401 ? 'unauthorized' : 'error');
+    }
+  };
 
   useEffect(() => {
-    localStorage.setItem('tafel-settings', JSON.stringify(settings));
-  }, [settings]);
+    runSyncRef.current = runSync;
+  });
 
   useEffect(() => {
-    localStorage.setItem('tafel-mastery', JSON.stringify(mastery));
-  }, [mastery]);
+    runSyncRef.current();
+    const handleOnline = () => runSyncRef.current();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [syncConfig.serverUrl, syncConfig.token]);
+
+  const changeServerUrl = (serverUrl: string) => {
+    if (serverUrl === syncConfig.serverUrl) return;
+    // A different server has its own history, so start over with a full sync
+    const next = { ...syncConfig, serverUrl, cursor: 0, lastPushAt: 0 };
+    saveSyncConfig(next);
+    setSyncConfig(next);
+    setSyncStatus('idle');
+  };
+
+  const changeSyncToken = (token: string) => {
+    if (token === syncConfig.token) return;
+    const next = { ...syncConfig, token };
+    saveSyncConfig(next);
+    setSyncConfig(next);
+    setSyncStatus('idle');
+  };
+
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
 
   useEffect(() => {
-    localStorage.setItem('tafel-session-history', JSON.stringify(sessionHistory));
-  }, [sessionHistory]);
+    saveActiveProfileId(activeProfileId);
+  }, [activeProfileId]);
 
-  const totalPossible = (settings.multiplicationTables.length * 11) + (settings.divisionTables.length * 11);
+  useEffect(() => {
+    saveClasses(classes);
+  }, [classes]);
 
   useEffect(() => {
-    if (settings.exerciseCount !== 'all' && settings.exerciseCount > totalPossible && totalPossible > 0) {
+    saveAssignments(assignments);
+  }, [assignments]);
+
+  const timeouts = history.filter(h => h.timedOut).length;
+  const totalPossible = countFacts(selection);
+  // Tables of a locked assignment stay visible even when they fall outside the player's own range
+  const gridTables = Array.from(new Set([
+    ...rangeValues(settings.tableRange),
+    ...selection.multiplicationTables,
+    ...selection.divisionTables
+  ])).sort((a, b) => a - b);
+
+  useEffect(() => {
+    if (!activeAssignment && settings.exerciseCount !== 'all' && settings.exerciseCount > totalPossible && totalPossible > 0) {
       setSettings(prev => ({ ...prev, exerciseCount: 10 }));
     }
-  }, [totalPossible, settings.exerciseCount]);
-
-  const [showClearConfirm, setShowClearConfirm] = useState(false);
+  }, [totalPossible, settings.exerciseCount, activeAssignment]);
 
+  // The clear is recorded too, so the sync removes the sessions on the server and other devices as well
   const clearHistory = () => {
-    if (showClearConfirm) {
-      setSessionHistory([]);
-      setShowClearConfirm(false);
-    } else {
-      setShowClearConfirm(true);
-      // Reset after 3 seconds if not clicked
-      setTimeout(() => setShowClearConfirm(false), 3000);
+    setSessionHistory([]);
+    recordHistoryClear(activeProfileId, Date.now());
+    historyStore.deleteByProfile(activeProfileId)
+      .then(() => runSyncRef.current())
+      .catch(e => console.warn('Historiek wissen mislukt:', e));
+  };
+
+  // Swap all per-profile state in one render so the save effects never mix two profiles
+  const switchProfile = (profileId: string) => {
+    setActiveProfileId(profileId);
+    setSettings(loadSettings(profileId));
+    setResumable(loadResumable(profileId));
+    setMastery(loadMastery(profileId));
+    setBadges(loadBadges(profileId));
+    setFactStats(loadFactStats(profileId));
+    setSessionHistory([]);
+    setSelectedSession(null);
+    setActiveAssignmentId(null);
+  };
+
+  const addProfile = () => {
+    const profile = createProfile('', AVATARS[profiles.length % AVATARS.length]);
+    saveSettings(profile.id, DEFAULT_SETTINGS);
+    setProfiles(prev => [...prev, profile]);
+    switchProfile(profile.id);
+  };
+
+  const renameProfile = (name: string) => {
+    setProfiles(prev => prev.map(p => p.id === activeProfileId ? { ...p, name } : p));
+    setSettings(prev => ({ ...prev, playerName: name }));
+  };
+
+  // Becoming a teacher opens the class and assignment tools, so it takes a second tap. This stops a slip of the
+  // finger, not a pupil who means it: the device has no accounts to check a teacher against.
+  const changeRole = (teacher: boolean) => {
+    if (teacher && !confirmTeacher) {
+      setConfirmTeacher(true);
+      setTimeout(() => setConfirmTeacher(false), 3000);
+      return;
     }
+    setConfirmTeacher(false);
+    setProfiles(prev => prev.map(p => p.id === activeProfileId ? { ...p, role: teacher ? 'teacher' : 'pupil' } : p));
   };
 
-  const toggleTable = (num: number, op: Operation) => {
+  const createPupil = (name: string): Profile => {
+    const pupil = createProfile(name, AVATARS[profiles.length % AVATARS.length]);
+    saveSettings(pupil.id, { ...DEFAULT_SETTINGS, playerName: name });
+    setProfiles(prev => [...prev, pupil]);
+    return pupil;
+  };
+
+  const changeAvatar = (avatar: string) => {
+    setProfiles(prev => prev.map(p => p.id === activeProfileId ? { ...p, avatar } : p));
+  };
+
+  const removeProfile = (profileId: string) => {
+    const remaining = profiles.filter(p => p.id !== profileId);
+    if (remaining.length === 0) return;
+    deleteProfileData(profileId);
+    historyStore.deleteByProfile(profileId).catch(e => console.warn('Historiek wissen mislukt:', e));
+    setProfiles(remaining);
+    if (profileId === activeProfileId) {
+      switchProfile(remaining[0].id);
+    }
+  };
+
+  const toggleTable = (num: number, op: 'multiplication' | 'division') => {
     setSettings(prev => {
       const key = op === 'multiplication' ? 'multiplicationTables' : 'divisionTables';
       const current = prev[key];
@@ -271,72 +725,200 @@ export default function App() {
     });
   };
 
+  const toggleLevel = (op: ArithmeticOperation, level: ArithmeticLevel) => {
+    setSettings(prev => {
+      const key = op === 'addition' ? 'additionLevels' : 'subtractionLevels';
+      const current = prev[key];
+      const next = current.includes(level) ? current.filter(l => l !== level) : [...current, level];
+      return { ...prev, [key]: next };
+    });
+  };
+
+  // Tables that fall outside the new range are deselected, so the grid always shows what will be practised
+  const changeTableRange = (tableRange: NumberRange) => {
+    const inRange = (n: number) => n >= tableRange.min && n <= tableRange.max;
+    setSettings(prev => ({
+      ...prev,
+      tableRange,
+      multiplicationTables: prev.multiplicationTables.filter(inRange),
+      divisionTables: prev.divisionTables.filter(inRange)
+    }));
+  };
+
+  const runSession = (next: PracticeSession) => {
+    commitSession(next);
+    setMode('practice');
+    setUserAnswer('');
+    setIsNewRecord(false);
+    startTimer();
+    startSprint();
+  };
+
+  // Stopping a session for good, or starting another one, keeps what was done as a partial result
+  const abandonResumable = () => {
+    if (!resumable) return;
+    setResumable(null);
+    saveActiveSession(activeProfileId, null);
+    const now = Date.now();
+    const result = createPartialResult(resumable, {
+      profileId: activeProfileId,
+      assignmentId: resumable.assignmentId,
+      playerName: settings.playerName || t('app.anonymous')
+    }, now);
+    if (result) storeResult(result, now).catch(e => console.warn('Resultaat bewaren mislukt:', e));
+  };
+
+  const beginSession = (next: PracticeSession, assignmentId?: string) => {
+    abandonResumable();
+    runSession({ ...next, assignmentId });
+  };
+
+  const continueSession = () => {
+    if (!resumable) return;
+    setResumable(null);
+    const resumed = resumeSession(resumable);
+    if (resumed.finished) {
+      commitSession(resumed);
+      finishSession(resumed);
+      return;
+    }
+    runSession(resumed);
+  };
+
+  // Back keeps the session for later, unless nothing was answered yet
+  const leavePractice = () => {
+    stopTimer();
+    stopSprint();
+    const current = sessionRef.current;
+    const kept = current && !current.finished && current.stats.total > 0 ? pauseSession(current, Date.now()) : null;
+    saveActiveSession(activeProfileId, kept);
+    setResumable(kept);
+    commitSession(null);
+    setMode('settings');
+  };
+
   const startPractice = () => {
     if (!settings.playerName.trim()) {
-      alert('Vul eerst je naam in!');
+      alert(t('app.nameFirst'));
       return;
     }
-    if (settings.multiplicationTables.length === 0 && settings.divisionTables.length === 0) {
-      alert('Kies eerst minstens één tafel om te oefenen!');
+    const next = createSession({
+      selection: {
+        multiplicationTables: selection.multiplicationTables,
+        divisionTables: selection.divisionTables,
+        additionLevels,
+        subtractionLevels,
+        multiplierRange: selection.multiplierRange,
+        exerciseCount: selection.exerciseCount
+      },
+      factStats,
+      timer: settings.timer,
+      adaptive: settings.adaptive,
+      challenges: settings.challenges
+    });
+    if (!next) {
+      alert(t('app.chooseFirst'));
       return;
     }
+    beginSession(next, activeAssignment?.id);
+  };
 
-    // Generate pool
-    const pool: Exercise[] = [];
-    
-    settings.multiplicationTables.forEach(table => {
-      for (let i = 0; i <= 10; i++) {
-        pool.push({ a: i, b: table, op: 'multiplication', result: table * i });
-      }
-    });
+  const duelPlayer = (profile: Profile): DuelPlayer => ({
+    profileId: profile.id,
+    name: profile.name || t('app.anonymous'),
+    avatar: profile.avatar
+  });
 
-    settings.divisionTables.forEach(table => {
-      for (let i = 0; i <= 10; i++) {
-        pool.push({ a: table * i, b: table, op: 'division', result: i });
-      }
+  // A duel plays the active player's own selection, never an assignment, with a fresh seed every time
+  const startDuel = (players: [DuelPlayer, DuelPlayer]) => {
+    const next = createDuel(players, {
+      selection: {
+        multiplicationTables: settings.multiplicationTables,
+        divisionTables: settings.divisionTables,
+        additionLevels: settings.additionLevels,
+        subtractionLevels: settings.subtractionLevels,
+        multiplierRange: settings.multiplierRange,
+        exerciseCount: settings.exerciseCount
+      },
+      challenges: settings.challenges,
+      questionSeconds: settings.timer.questionSeconds,
+      seed: randomSeed()
     });
-
-    // Shuffle pool
-    for (let i = pool.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [pool[i], pool[j]] = [pool[j], pool[i]];
+    if (!next) {
+      alert(t('app.chooseFirst'));
+      return;
     }
+    setDuel(next);
+    setMode('duel');
+  };
 
-    const finalPool = settings.exerciseCount === 'all' ? pool : pool.slice(0, settings.exerciseCount);
+  const challengeOpponent = (opponentId: string) => {
+    const opponent = profiles.find(p => p.id === opponentId);
+    if (!activeProfile || !opponent) return;
+    startDuel([duelPlayer(activeProfile), duelPlayer(opponent)]);
+  };
 
-    setStats({ correct: 0, total: 0 });
-    setHistory([]);
-    setActiveTotal(finalPool.length);
-    setExercisePool(finalPool);
-    setCurrentExercise(finalPool[0]);
-    setMode('practice');
-    setUserAnswer('');
-    setFeedback(null);
-    setSessionStartTime(Date.now());
-    setIsNewRecord(false);
-    startTimer();
+  // Both players get the duel in their history; mastery and badges stay out of it
+  const finishDuel = (finished: DuelState) => {
+    const results = createDuelResults(finished, Date.now());
+    setDuel(finished);
+    setSessionHistory(prev => [...results.filter(r => r.profileId === activeProfileId), ...prev]);
+    historyStore.putMany(results)
+      .then(() => {
+        markSessionsChanged(results.map(r => r.id));
+        runSyncRef.current();
+      })
+      .catch(e => console.warn('Duel bewaren mislukt:', e));
   };
 
-  const retryMistakes = () => {
-    const mistakes = history.filter(h => !h.correct).map(h => h.exercise);
-    if (mistakes.length === 0) return;
-
-    // Shuffle mistakes
-    const pool = [...mistakes];
-    for (let i = pool.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [pool[i], pool[j]] = [pool[j], pool[i]];
+  const leaveDuel = () => {
+    setDuel(null);
+    setMode('settings');
+  };
+
+  // Same sums in the same order for everyone: seeded, and without adaptive changes along the way
+  const startSharedPractice = () => {
+    if (!sharedPractice) return;
+    if (!settings.playerName.trim()) {
+      alert(t('app.nameFirst'));
+      return;
     }
+    const { code, practice } = sharedPractice;
+    const next = createSession({
+      selection: {
+        multiplicationTables: practice.multiplicationTables,
+        divisionTables: practice.divisionTables,
+        additionLevels: practice.additionLevels,
+        subtractionLevels: practice.subtractionLevels,
+        multiplierRange: practice.multiplierRange,
+        exerciseCount: practice.exerciseCount
+      },
+      factStats,
+      timer: practice.timer,
+      adaptive: false,
+      challenges: practice.challenges,
+      seed: practice.seed,
+      practiceCode: code
+    });
+    if (!next) return;
+    setActiveAssignmentId(null);
+    beginSession(next);
+  };
 
-    setStats({ correct: 0, total: 0 });
-    setHistory([]);
-    setActiveTotal(pool.length);
-    setExercisePool(pool);
-    setCurrentExercise(pool[0]);
-    setMode('practice');
-    setUserAnswer('');
-    setFeedback(null);
-    startTimer();
+  const dismissSharedPractice = () => {
+    clearPracticeCodeFromUrl();
+    setSharedPractice(null);
+  };
+
+  const retryMistakes = () => {
+    if (!session) return;
+    const next = createRetrySession(session.history, {
+      selection: session.selection,
+      timer: settings.timer,
+      adaptive: settings.adaptive,
+      challenges: settings.challenges
+    });
+    if (next) beginSession(next, activeAssignment?.id);
   };
 
   return (
@@ -352,7 +934,7 @@ export default function App() {
             TafelKampioen
           </h1>
         </motion.div>
-        <p className="text-stone-500">Word de meester van de tafels!</p>
+        <p className="text-stone-500">{t('app.tagline')}</p>
       </header>
 
       <main className="flex-1 flex flex-col">
@@ -367,35 +949,90 @@ export default function App() {
             >
               <div className="glass rounded-3xl p-6 space-y-6">
                 <h2 className="text-xl font-semibold flex items-center gap-2 text-stone-700">
-                  <Settings className="w-5 h-5" /> Instellingen
+                  <Settings className="w-5 h-5" /> {t('settings.title')}
                 </h2>
 
                 <div className="space-y-6">
+                  <ProfilePicker
+                    profiles={profiles}
+                    activeProfileId={activeProfileId}
+                    onSelect={switchProfile}
+                    onCreate={addProfile}
+                    onChangeAvatar={changeAvatar}
+                    onDelete={removeProfile}
+                  />
+
                   <div>
                     <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
-                      <User className="w-4 h-4" /> Naam van de speler
+                      <User className="w-4 h-4" /> {t('settings.playerName')}
                     </h3>
                     <input
                       type="text"
                       value={settings.playerName}
-                      onChange={(e) => setSettings(prev => ({ ...prev, playerName: e.target.value }))}
-                      placeholder="Typ je naam..."
+                      onChange={(e) => renameProfile(e.target.value)}
+                      placeholder={t('settings.namePlaceholder')}
                       className="w-full px-4 py-3 rounded-xl bg-stone-100 border-2 border-transparent focus:border-purple-400 focus:bg-white outline-none transition-all font-medium text-stone-700"
                     />
+                    <label className={`mt-2 flex items-center gap-2 text-xs font-medium cursor-pointer w-fit ${confirmTeacher ? 'text-red-500' : 'text-stone-400'}`}>
+                      <input
+                        type="checkbox"
+                        checked={isTeacher(activeProfile)}
+                        onChange={(e) => changeRole(e.target.checked)}
+                        className="accent-purple-500"
+                      />
+                      {confirmTeacher ? t('settings.confirmTeacher') : t('settings.isTeacher')}
+                    </label>
                   </div>
 
+                  <LanguagePicker
+                    language={settings.language}
+                    onChange={(language) => setSettings(prev => ({ ...prev, language }))}
+                  />
+
+                  <DailyGoalCard
+                    sessions={sessionHistory}
+                    goal={settings.dailyGoal}
+                    onOpenCalendar={() => setMode('calendar')}
+                  />
+
+                  {resumable && (
+                    <ResumePrompt session={resumable} onResume={continueSession} onStop={abandonResumable} />
+                  )}
+
+                  {sharedPractice && (
+                    <SharedPracticeBanner
+                      practice={sharedPractice.practice}
+                      onStart={startSharedPractice}
+                      onDismiss={dismissSharedPractice}
+                    />
+                  )}
+
+                  <AssignmentList
+                    assignments={openAssignments}
+                    activeAssignmentId={activeAssignment?.id ?? null}
+                    onSelect={setActiveAssignmentId}
+                  />
+
+                  {activeAssignment && (
+                    <p className="text-xs font-medium text-purple-500 flex items-center gap-2 bg-purple-50 rounded-xl px-4 py-3">
+                      <Lock className="w-4 h-4" /> {t('settings.assignmentLock')}
+                    </p>
+                  )}
+
                   <div>
                     <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
-                      <Calculator className="w-4 h-4" /> Vermenigvuldigen (×)
+                      <Calculator className="w-4 h-4" /> {t('settings.multiplication')}
                     </h3>
                     <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
-                      {TABLES.map(n => (
+                      {gridTables.map(n => (
                         <button
                           key={`mul-${n}`}
+                          disabled={!!activeAssignment}
                           onClick={() => toggleTable(n, 'multiplication')}
                           className={`
                             h-12 rounded-xl font-bold transition-all duration-200
-                            ${settings.multiplicationTables.includes(n)
+                            ${activeAssignment ? 'cursor-not-allowed' : ''}
+                            ${selection.multiplicationTables.includes(n)
                               ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-200 scale-105'
                               : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
                           `}
@@ -408,18 +1045,18 @@ export default function App() {
 
                   <div>
                     <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
-                      <Divide className="w-4 h-4" /> Delen (÷)
+                      <Divide className="w-4 h-4" /> {t('settings.division')}
                     </h3>
                     <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
-                      {TABLES.map(n => (
+                      {gridTables.map(n => (
                         <button
                           key={`div-${n}`}
-                          disabled={n === 0}
+                          disabled={n === 0 || !!activeAssignment}
                           onClick={() => toggleTable(n, 'division')}
                           className={`
                             h-12 rounded-xl font-bold transition-all duration-200
-                            ${n === 0 ? 'opacity-20 cursor-not-allowed' : ''}
-                            ${settings.divisionTables.includes(n)
+                            ${n === 0 ? 'opacity-20 cursor-not-allowed' : activeAssignment ? 'cursor-not-allowed' : ''}
+                            ${selection.divisionTables.includes(n)
                               ? 'bg-blue-500 text-white shadow-lg shadow-blue-200 scale-105'
                               : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
                           `}
@@ -429,34 +1066,65 @@ export default function App() {
                       ))}
                     </div>
                   </div>
+
+                  <div className="space-y-2">
+                    <RangePicker
+                      label={t('settings.tables')}
+                      range={settings.tableRange}
+                      onChange={changeTableRange}
+                      disabled={!!activeAssignment}
+                    />
+                    <RangePicker
+                      label={t('settings.multipliers')}
+                      range={activeAssignment ? activeAssignment.multiplierRange ?? DEFAULT_MULTIPLIER_RANGE : settings.multiplierRange}
+                      onChange={(multiplierRange) => setSettings(prev => ({ ...prev, multiplierRange }))}
+                      disabled={!!activeAssignment}
+                    />
+                  </div>
+
+                  <ArithmeticPicker
+                    additionLevels={additionLevels}
+                    subtractionLevels={subtractionLevels}
+                    onToggle={toggleLevel}
+                    disabled={!!activeAssignment}
+                  />
+                  <p className="text-[11px] text-stone-400 font-medium -mt-3">
+                    {t('settings.mixHint')}
+                  </p>
                 </div>
 
                 <div className="pt-6 border-t border-stone-100 space-y-6">
-                  {settings.personalBest && (
-                    <motion.div 
+                  {(records.length > 0 || showsEarlierBest(records, settings.earlierBest)) && (
+                    <motion.button
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
-                      className="bg-amber-50 border border-amber-100 rounded-2xl p-4 flex items-center justify-between"
+                      onClick={() => setMode('records')}
+                      className="w-full bg-amber-50 border border-amber-100 rounded-2xl p-4 flex items-center justify-between text-left hover:border-amber-200 transition-colors"
                     >
                       <div className="flex items-center gap-3">
                         <div className="bg-amber-100 p-2 rounded-xl text-amber-600">
-                          <Sparkles className="w-5 h-5" />
+                          <Trophy className="w-5 h-5" />
                         </div>
                         <div>
-                          <p className="text-[10px] uppercase font-bold text-amber-600/60 tracking-wider">Snelheidsrecord</p>
-                          <p className="text-amber-900 font-bold">{(settings.personalBest / 1000).toFixed(2)}s <span className="text-xs font-normal opacity-60">per som</span></p>
+                          <p className="text-[10px] uppercase font-bold text-amber-600/60 tracking-wider">{t('settings.recordForChoice')}</p>
+                          <p className="text-amber-900 font-bold">
+                            {currentRecord ? recordValue(currentRecord.session) : t('settings.noRecord')}
+                          </p>
                         </div>
                       </div>
-                    </motion.div>
+                      <span className="text-xs font-bold text-amber-600 flex items-center gap-1">
+                        {t('settings.allRecords')} <ChevronRight className="w-4 h-4" />
+                      </span>
+                    </motion.button>
                   )}
 
                   <div>
                     <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-4 flex items-center gap-2">
-                      <Sparkles className="w-4 h-4" /> Aantal sommen
+                      <Sparkles className="w-4 h-4" /> {t('settings.exerciseCount')}
                     </h3>
                     <div className="grid grid-cols-4 gap-2">
                       {([10, 20, 50, 'all'] as const).map(count => {
-                        const isDisabled = count !== 'all' && count > totalPossible;
+                        const isDisabled = !!activeAssignment || (count !== 'all' && count > totalPossible);
                         return (
                           <button
                             key={`count-${count}`}
@@ -465,17 +1133,120 @@ export default function App() {
                             className={`
                               h-12 rounded-xl font-bold transition-all duration-200
                               ${isDisabled ? 'opacity-20 cursor-not-allowed grayscale' : ''}
-                              ${settings.exerciseCount === count
+                              ${selection.exerciseCount === count
                                 ? 'bg-purple-500 text-white shadow-lg shadow-purple-200 scale-105'
                                 : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
                             `}
                           >
-                            {count === 'all' ? 'Alle' : count}
+                            {count === 'all' ? t('settings.all') : count}
                           </button>
                         );
                       })}
                     </div>
                   </div>
+
+                  <TimerPicker
+                    timer={settings.timer}
+                    onChange={(timer) => setSettings(prev => ({ ...prev, timer }))}
+                  />
+
+                  {settings.timer.mode === 'sprint' && <SprintLeaderboard seconds={settings.timer.sprintSeconds} />}
+
+                  <ChallengePicker
+                    challenges={settings.challenges}
+                    onChange={(challenges) => setSettings(prev => ({ ...prev, challenges }))}
+                  />
+
+                  <label className="flex items-start gap-3 p-4 rounded-2xl bg-stone-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.adaptive}
+                      onChange={(e) => setSettings(prev => ({ ...prev, adaptive: e.target.checked }))}
+                      className="mt-1 accent-purple-500"
+                    />
+                    <span>
+                      <span className="block font-bold text-stone-700 text-sm">{t('settings.adaptive')}</span>
+                      <span className="block text-[11px] text-stone-400 font-medium">
+                        {t('settings.adaptiveHint')}
+                      </span>
+                    </span>
+                  </label>
+
+                  <label className="flex items-start gap-3 p-4 rounded-2xl bg-stone-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.readAloud}
+                      onChange={(e) => setSettings(prev => ({ ...prev, readAloud: e.target.checked }))}
+                      className="mt-1 accent-purple-500"
+                    />
+                    <span>
+                      <span className="block font-bold text-stone-700 text-sm">{t('settings.readAloud')}</span>
+                      <span className="block text-[11px] text-stone-400 font-medium">
+                        {t('settings.readAloudHint')}
+                      </span>
+                      {settings.readAloud && !readAloudAvailable && (
+                        <span role="status" className="block text-[11px] text-amber-600 font-bold mt-1">
+                          {t('settings.readAloudUnavailable')}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+
+                  <label className="flex items-start gap-3 p-4 rounded-2xl bg-stone-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.keypad}
+                      onChange={(e) => setSettings(prev => ({ ...prev, keypad: e.target.checked }))}
+                      className="mt-1 accent-purple-500"
+                    />
+                    <span>
+                      <span className="block font-bold text-stone-700 text-sm">{t('settings.keypad')}</span>
+                      <span className="block text-[11px] text-stone-400 font-medium">
+                        {t('settings.keypadHint')}
+                      </span>
+                    </span>
+                  </label>
+
+                  <label className="flex items-start gap-3 p-4 rounded-2xl bg-stone-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.autoSubmit}
+                      onChange={(e) => setSettings(prev => ({ ...prev, autoSubmit: e.target.checked }))}
+                      className="mt-1 accent-purple-500"
+                    />
+                    <span>
+                      <span className="block font-bold text-stone-700 text-sm">{t('settings.autoSubmit')}</span>
+                      <span className="block text-[11px] text-stone-400 font-medium">
+                        {t('settings.autoSubmitHint')}
+                      </span>
+                    </span>
+                  </label>
+
+                  <SharePanel
+                    practice={{
+                      multiplicationTables: selection.multiplicationTables,
+                      divisionTables: selection.divisionTables,
+                      additionLevels,
+                      subtractionLevels,
+                      multiplierRange: selection.multiplierRange ?? DEFAULT_MULTIPLIER_RANGE,
+                      exerciseCount: selection.exerciseCount,
+                      timer: settings.timer,
+                      challenges: settings.challenges
+                    }}
+                    disabled={totalPossible === 0}
+                  />
+
+                  <SyncPanel
+                    serverUrl={syncConfig.serverUrl}
+                    token={syncConfig.token}
+                    status={syncStatus}
+                    lastSyncedAt={lastSyncedAt}
+                    onChangeServerUrl={changeServerUrl}
+                    onChangeToken={changeSyncToken}
+                    onSync={runSync}
+                  />
+
+                  <BackupPanel onImported={reloadFromStorage} />
                 </div>
               </div>
 
@@ -490,58 +1261,50 @@ export default function App() {
                 `}
               >
                 <Play className={`w-6 h-6 transition-transform ${totalPossible > 0 ? 'group-hover:translate-x-1' : ''}`} />
-                Start met oefenen!
+                {t('settings.start')}
               </button>
 
+              <DuelSetup
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                canStart={countFacts(settings) > 0}
+                onStart={challengeOpponent}
+              />
+
+              {isTeacher(activeProfile) && (
+                <button
+                  onClick={() => setMode('teacher')}
+                  className="w-full py-3 bg-white/60 text-stone-600 rounded-2xl font-bold border border-stone-100 hover:bg-white hover:border-purple-200 transition-all flex items-center justify-center gap-2"
+                >
+                  <GraduationCap className="w-5 h-5 text-purple-500" /> {t('teacher.title')}
+                </button>
+              )}
+
               {sessionHistory.length > 0 && (
-                <div className="glass rounded-3xl p-6 space-y-4">
-                  <div className="flex items-center justify-between">
-                    <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 flex items-center gap-2">
-                      <History className="w-4 h-4" /> Laatste resultaten
-                    </h3>
-                    <button 
-                      onClick={clearHistory}
-                      className={`
-                        flex items-center gap-1 px-2 py-1 rounded-lg transition-all text-xs font-bold
-                        ${showClearConfirm 
-                          ? 'bg-red-100 text-red-600' 
-                          : 'text-stone-300 hover:text-red-400'}
-                      `}
-                      title="Historiek wissen"
-                    >
-                      {showClearConfirm ? 'Zeker?' : <Trash2 className="w-4 h-4" />}
-                    </button>
-                  </div>
-                  <div className="space-y-2">
-                    {sessionHistory.map((result) => (
-                      <button 
-                        key={result.id}
-                        onClick={() => setSelectedSession(result)}
-                        className="w-full flex flex-col py-3 px-4 bg-white/50 rounded-xl border border-stone-100 space-y-1 hover:bg-white hover:border-purple-200 transition-all text-left"
-                      >
-                        <div className="flex items-center justify-between">
-                          <span className="font-bold text-stone-700">{result.playerName}</span>
-                          <div className="flex items-center gap-2">
-                            <span className="font-mono font-bold text-emerald-600">
-                              {result.correct} / {result.total}
-                            </span>
-                            <Info className="w-3 h-3 text-stone-300" />
-                          </div>
-                        </div>
-                        <div className="text-[10px] text-stone-400 flex flex-wrap gap-1">
-                          {(result.multiplicationTables?.length ?? 0) > 0 && (
-                            <span>×: {result.multiplicationTables.join(', ')}</span>
-                          )}
-                          {(result.multiplicationTables?.length ?? 0) > 0 && (result.divisionTables?.length ?? 0) > 0 && <span>|</span>}
-                          {(result.divisionTables?.length ?? 0) > 0 && (
-                            <span>÷: {result.divisionTables.join(', ')}</span>
-                          )}
-                        </div>
-                      </button>
-                    ))}
-                  </div>
-                </div>
+                <button
+                  onClick={() => setMode('dashboard')}
+                  className="w-full py-3 bg-white/60 text-stone-600 rounded-2xl font-bold border border-stone-100 hover:bg-white hover:border-purple-200 transition-all flex items-center justify-center gap-2"
+                >
+                  <LayoutGrid className="w-5 h-5 text-purple-500" /> {t('dashboard.title')}
+                </button>
+              )}
+
+              {sessionHistory.length > 0 && (
+                <button
+                  onClick={() => setMode('badges')}
+                  className="w-full py-3 bg-white/60 text-stone-600 rounded-2xl font-bold border border-stone-100 hover:bg-white hover:border-purple-200 transition-all flex items-center justify-center gap-2"
+                >
+                  <Award className="w-5 h-5 text-purple-500" /> {t('badges.title')}
+                </button>
               )}
+
+              <SessionList
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                refreshToken={sessionHistory}
+                onSelect={setSelectedSession}
+                onClear={clearHistory}
+              />
             </motion.div>
           )}
 
@@ -554,123 +1317,228 @@ export default function App() {
               className="flex-1 flex flex-col items-center justify-center space-y-8"
             >
               <div className="w-full max-w-md glass rounded-3xl p-8 text-center relative overflow-hidden">
-                <div className="absolute top-0 left-0 w-full h-2 bg-stone-100">
-                  <motion.div 
-                    className="h-full bg-emerald-500"
-                    initial={{ width: 0 }}
-                    animate={{ width: `${(stats.total / activeTotal) * 100}%` }}
-                  />
-                </div>
+                {sessionTimer.mode === 'sprint' ? (
+                  <div className="absolute top-0 left-0 w-full h-2 bg-stone-100">
+                    <motion.div 
+                      className={`h-full transition-colors duration-300 ${sprintLeft < 10 ? 'bg-red-500' : 'bg-orange-400'}`}
+                      initial={{ width: '100%' }}
+                      animate={{ width: `${(sprintLeft / sessionTimer.sprintSeconds) * 100}%` }}
+                      transition={{ duration: 0.05, ease: 'linear' }}
+                    />
+                  </div>
+                ) : (
+                  <div className="absolute top-0 left-0 w-full h-2 bg-stone-100">
+                    <motion.div 
+                      className="h-full bg-emerald-500"
+                      initial={{ width: 0 }}
+                      animate={{ width: `${(stats.total / activeTotal) * 100}%` }}
+                    />
+                  </div>
+                )}
                 
                 {/* Timer bar */}
-                <div className="absolute top-2 left-0 w-full h-1.5 bg-stone-50 overflow-hidden">
-                  <motion.div 
-                    className={`h-full transition-colors duration-300 ${timeLeft < 3 ? 'bg-red-500' : 'bg-orange-400'}`}
-                    initial={{ width: '100%' }}
-                    animate={{ width: `${(timeLeft / 15) * 100}%` }}
-                    transition={{ duration: 0.05, ease: 'linear' }}
-                  />
-                </div>
+                {sessionTimer.mode === 'perQuestion' && (
+                  <div className="absolute top-2 left-0 w-full h-1.5 bg-stone-50 overflow-hidden">
+                    <motion.div 
+                      className={`h-full transition-colors duration-300 ${timeLeft < 3 ? 'bg-red-500' : 'bg-orange-400'}`}
+                      initial={{ width: '100%' }}
+                      animate={{ width: `${(timeLeft / sessionTimer.questionSeconds) * 100}%` }}
+                      transition={{ duration: 0.05, ease: 'linear' }}
+                    />
+                  </div>
+                )}
 
                 <div className="flex justify-between items-center mb-8">
                   <button 
-                    onClick={() => {
-                      stopTimer();
-                      setMode('settings');
-                    }}
+                    onClick={leavePractice}
+                    aria-label={t('practice.back')}
                     className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors"
                   >
                     <ChevronLeft className="w-6 h-6" />
                   </button>
-                  <span className="font-bold text-stone-400">
-                    Vraag {feedback ? stats.total : stats.total + 1} van {activeTotal}
-                  </span>
-                  <div className="w-10" />
-                </div>
-
-                <div className="text-7xl font-display font-bold text-stone-800 mb-12 flex items-center justify-center gap-4">
-                  {currentExercise.display ? (
-                    <span className="text-5xl">{currentExercise.display}</span>
+                  {sessionTimer.mode === 'sprint' ? (
+                    <span className="font-bold text-stone-400">
+                      {t('format.seconds', { value: Math.ceil(sprintLeft) })} · <span className="text-emerald-600">{t('records.correct', { count: stats.correct })}</span>
+                    </span>
                   ) : (
-                    <>
-                      <span>{currentExercise.a}</span>
-                      <span className="text-emerald-500 text-5xl">
-                        {currentExercise.op === 'multiplication' ? '×' : '÷'}
-                      </span>
-                      <span>{currentExercise.b}</span>
-                    </>
+                    <span className="font-bold text-stone-400">
+                      {t('practice.question', { number: feedback ? stats.total : stats.total + 1, total: activeTotal })}
+                    </span>
                   )}
-                  <span className="text-stone-300">=</span>
+                  <div className="flex items-center">
+                    {settings.readAloud && !paused && (
+                      <button
+                        type="button"
+                        onClick={() => speak(spokenQuestion(currentExercise))}
+                        aria-label={t('practice.repeat')}
+                        className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors"
+                      >
+                        <Volume2 className="w-6 h-6" />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={pausePractice}
+                      disabled={paused}
+                      aria-label={t('practice.pause')}
+                      title={t('practice.pause')}
+                      className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors disabled:opacity-40"
+                    >
+                      <Pause className="w-6 h-6" />
+                    </button>
+                  </div>
                 </div>
 
-                {currentExercise.isChallenge && (
-                  <motion.div
-                    initial={{ y: 20, opacity: 0 }}
-                    animate={{ y: 0, opacity: 1 }}
-                    className="absolute top-12 right-8 bg-purple-100 text-purple-600 px-3 py-1 rounded-full text-xs font-bold flex items-center gap-1"
-                  >
-                    <Sparkles className="w-3 h-3" /> Challenge!
-                  </motion.div>
-                )}
+                <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+                  {announcement}
+                </div>
 
-                <form onSubmit={handleSubmit} className="space-y-4">
-                  <div className="relative">
-                    <input
-                      ref={inputRef}
+                {paused ? (
+                  <div className="py-8 space-y-6">
+                    <div className="space-y-2">
+                      <h2 className="text-3xl font-bold text-stone-800">{t('practice.paused')}</h2>
+                      <p className="text-stone-500">{t('practice.pausedHint')}</p>
+                    </div>
+                    <button
                       autoFocus
-                      type="text"
-                      inputMode="numeric"
-                      pattern="[0-9]*"
-                      value={userAnswer}
-                      onChange={(e) => setUserAnswer(e.target.value)}
-                      disabled={!!feedback}
-                      className={`
-                        w-full text-center text-5xl font-bold py-4 rounded-2xl border-4 outline-none transition-all
-                        ${feedback === 'correct' ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : 
-                          feedback === 'incorrect' ? 'border-red-500 bg-red-50 text-red-700' : 
-                          'border-stone-200 focus:border-emerald-400 bg-white'}
-                      `}
-                      placeholder="?"
-                    />
-                    
-                    <AnimatePresence>
-                      {feedback && (
-                        <motion.div
-                          initial={{ scale: 0, opacity: 0 }}
-                          animate={{ scale: 1, opacity: 1 }}
-                          className="absolute -right-4 -top-4"
-                        >
-                          {feedback === 'correct' ? (
-                            <CheckCircle2 className="w-12 h-12 text-emerald-500 fill-white" />
-                          ) : (
-                            <XCircle className="w-12 h-12 text-red-500 fill-white" />
-                          )}
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
+                      onClick={resumePractice}
+                      className="w-full py-4 rounded-2xl font-bold text-xl shadow-lg transition-all flex items-center justify-center gap-2 bg-emerald-600 text-white hover:bg-emerald-700 active:scale-[0.98] shadow-emerald-100"
+                    >
+                      <Play className="w-5 h-5 fill-current" /> {t('practice.resume')}
+                    </button>
                   </div>
+                ) : (
+                  <>
+                    <div aria-hidden="true" className="text-7xl font-display font-bold text-stone-800 mb-12 flex items-center justify-center gap-4">
+                      {currentExercise.display ? (
+                        // Challenges carry their own "=" (or none, like "? × 7 = 56")
+                        <span className="text-4xl sm:text-5xl leading-tight">{currentExercise.display}</span>
+                      ) : (
+                        <>
+                          <span>{currentExercise.a}</span>
+                          <span className="text-emerald-500 text-5xl">
+                            {operatorSymbol(currentExercise.op)}
+                          </span>
+                          <span>{currentExercise.b}</span>
+                          <span className="text-stone-300">=</span>
+                        </>
+                      )}
+                    </div>
 
-                  <button
-                    type="submit"
-                    disabled={!!feedback || userAnswer === ''}
-                    className={`
-                      w-full py-4 rounded-2xl font-bold text-xl shadow-lg transition-all flex items-center justify-center gap-2
-                      ${!!feedback || userAnswer === '' 
-                        ? 'bg-stone-100 text-stone-300 cursor-not-allowed' 
-                        : 'bg-emerald-600 text-white hover:bg-emerald-700 active:scale-[0.98] shadow-emerald-100'}
-                    `}
-                  >
-                    Controleer
-                  </button>
-                </form>
+                    {currentExercise.isRepeat && !currentExercise.isChallenge && (
+                      <motion.div
+                        initial={{ y: 20, opacity: 0 }}
+                        animate={{ y: 0, opacity: 1 }}
+                        className="absolute top-12 right-8 bg-orange-100 text-orange-600 px-3 py-1 rounded-full text-xs font-bold flex items-center gap-1"
+                      >
+                        <RotateCcw className="w-3 h-3" /> {t('practice.again')}
+                      </motion.div>
+                    )}
 
-                <p className="mt-4 text-stone-400 text-[10px] font-medium uppercase tracking-widest">
-                  Klik op de knop of druk op Enter
-                </p>
+                    {currentExercise.isChallenge && (
+                      <motion.div
+                        initial={{ y: 20, opacity: 0 }}
+                        animate={{ y: 0, opacity: 1 }}
+                        className="absolute top-12 right-8 bg-purple-100 text-purple-600 px-3 py-1 rounded-full text-xs font-bold flex items-center gap-1"
+                      >
+                        <Sparkles className="w-3 h-3" /> {t('practice.challenge')}
+                      </motion.div>
+                    )}
+
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                      <div className="relative">
+                        <input
+                          ref={inputRef}
+                          autoFocus
+                          type="text"
+                          inputMode={settings.keypad ? 'none' : 'numeric'}
+                          pattern="[0-9]*"
+                          value={userAnswer}
+                          onChange={(e) => enterAnswer(e.target.value)}
+                          disabled={!!feedback}
+                          aria-label={t('practice.answerLabel', { question: spokenQuestion(currentExercise).text })}
+                          aria-invalid={feedback === 'incorrect'}
+                          className={`
+                            w-full text-center text-5xl font-bold py-4 rounded-2xl border-4 outline-none transition-all
+                            ${feedback === 'correct' ? 'border-emerald-500 bg-emerald-50 text-emerald-700' : 
+                              feedback === 'incorrect' ? 'border-red-500 bg-red-50 text-red-700' : 
+                              'border-stone-200 focus:border-emerald-400 bg-white'}
+                          `}
+                          placeholder="?"
+                        />
+                        
+                        <AnimatePresence>
+                          {feedback && (
+                            <motion.div
+                              initial={{ scale: 0, opacity: 0 }}
+                              animate={{ scale: 1, opacity: 1 }}
+                              className="absolute -right-4 -top-4"
+                              aria-hidden="true"
+                            >
+                              {feedback === 'correct' ? (
+                                <CheckCircle2 className="w-12 h-12 text-emerald-500 fill-white" />
+                              ) : (
+                                <XCircle className="w-12 h-12 text-red-500 fill-white" />
+                              )}
+                            </motion.div>
+                          )}
+                        </AnimatePresence>
+                      </div>
+
+                      {settings.keypad ? (
+                        <NumericKeypad
+                          disabled={!!feedback}
+                          canSubmit={userAnswer !== ''}
+                          onDigit={(digit) => enterAnswer(userAnswer + digit)}
+                          onBackspace={() => setUserAnswer(prev => prev.slice(0, -1))}
+                          onSubmit={handleSubmit}
+                        />
+                      ) : (
+                        <button
+                          type="submit"
+                          disabled={!!feedback || userAnswer === ''}
+                          className={`
+                            w-full py-4 rounded-2xl font-bold text-xl shadow-lg transition-all flex items-center justify-center gap-2
+                            ${!!feedback || userAnswer === '' 
+                              ? 'bg-stone-100 text-stone-300 cursor-not-allowed' 
+                              : 'bg-emerald-600 text-white hover:bg-emerald-700 active:scale-[0.98] shadow-emerald-100'}
+                          `}
+                        >
+                          {t('practice.check')}
+                        </button>
+                      )}
+                    </form>
+
+                    {!settings.keypad && (
+                      <p className="mt-4 text-stone-400 text-[10px] font-medium uppercase tracking-widest">
+                        {t('practice.enterHint')}
+                      </p>
+                    )}
+                  </>
+                )}
               </div>
             </motion.div>
           )}
 
+          {mode === 'duel' && duel && (
+            <motion.div
+              key="duel"
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 1.05 }}
+              className="flex-1 flex flex-col"
+            >
+              {duel.finished ? (
+                <DuelResults duel={duel} onRematch={() => startDuel(duel.players)} onDone={leaveDuel} />
+              ) : (
+                // A rematch is a new duel id, so the match starts over with fresh state
+                <div key={duel.id} className="flex-1 flex flex-col">
+                  <DuelMatch initial={duel} autoSubmit={settings.autoSubmit} onFinish={finishDuel} onQuit={leaveDuel} />
+                </div>
+              )}
+            </motion.div>
+          )}
+
           {mode === 'results' && (
             <motion.div
               key="results"
@@ -689,22 +1557,40 @@ export default function App() {
                     <Sparkles className="w-8 h-8 text-yellow-400" />
                   </motion.div>
                 </div>
-                <h2 className="text-3xl font-bold text-stone-800">Goed gedaan, {settings.playerName}!</h2>
-                <p className="text-stone-500">Je bent echt een Einstein.</p>
+                <h2 ref={resultsHeadingRef} tabIndex={-1} className="text-3xl font-bold text-stone-800 outline-none">{t('results.wellDone', { name: settings.playerName })}</h2>
+                <p className="text-stone-500">{t('results.einstein')}</p>
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
+              <div className={`grid gap-4 ${timeouts > 0 ? 'grid-cols-3' : 'grid-cols-2'}`}>
                 <div className="bg-emerald-50 p-6 rounded-2xl">
                   <div className="text-3xl font-bold text-emerald-600">{stats.correct}</div>
-                  <div className="text-sm text-emerald-600/60 font-bold uppercase tracking-wider">Goed</div>
+                  <div className="text-sm text-emerald-600/60 font-bold uppercase tracking-wider">{t('results.correct')}</div>
                 </div>
                 <div className="bg-stone-50 p-6 rounded-2xl">
-                  <div className="text-3xl font-bold text-stone-600">{stats.total - stats.correct}</div>
-                  <div className="text-sm text-stone-600/60 font-bold uppercase tracking-wider">Fout</div>
+                  <div className="text-3xl font-bold text-stone-600">{stats.total - stats.correct - timeouts}</div>
+                  <div className="text-sm text-stone-600/60 font-bold uppercase tracking-wider">{t('results.wrong')}</div>
                 </div>
+                {timeouts > 0 && (
+                  <div className="bg-orange-50 p-6 rounded-2xl">
+                    <div className="text-3xl font-bold text-orange-600">{timeouts}</div>
+                    <div className="text-sm text-orange-600/60 font-bold uppercase tracking-wider">{t('results.timedOut')}</div>
+                  </div>
+                )}
               </div>
 
-              {stats.correct === stats.total && (
+              <BadgeUnlocks badges={newBadges} onShowAll={() => setMode('badges')} />
+
+              {sessionTimer.mode === 'sprint' && isNewRecord && (
+                <p className="text-sm font-black uppercase tracking-widest text-amber-600">
+                  {t('results.newSprintRecord')}{previousRecord && ` ${t('results.was', { record: recordValue(previousRecord) })}`}
+                </p>
+              )}
+
+              {sessionTimer.mode === 'sprint' && (
+                <SprintLeaderboard seconds={sessionTimer.sprintSeconds} latest={sessionHistory[0]} />
+              )}
+
+              {stats.correct === stats.total && sessionTimer.mode !== 'sprint' && (
                 <motion.div 
                   initial={{ scale: 0.9, opacity: 0 }}
                   animate={{ scale: 1, opacity: 1 }}
@@ -713,20 +1599,30 @@ export default function App() {
                 >
                   {isNewRecord && (
                     <div className="absolute -top-1 -right-1 bg-amber-400 text-white px-3 py-1 text-[10px] font-black uppercase tracking-tighter rotate-12 shadow-sm">
-                      Nieuw Record!
+                      {t('results.newRecordRibbon')}
                     </div>
                   )}
                   <div className="flex flex-col items-center gap-1">
                     <p className={`text-xs font-bold uppercase tracking-widest ${isNewRecord ? 'text-amber-600' : 'text-blue-500'}`}>
-                      {isNewRecord ? 'WAUW! NIEUW RECORD!' : 'Gemiddelde Snelheid'}
+                      {isNewRecord ? t('results.newRecord') : t('results.averageSpeed')}
                     </p>
                     <div className="flex items-baseline gap-1">
                       <span className={`text-5xl font-black ${isNewRecord ? 'text-amber-900' : 'text-blue-900'}`}>
-                        {(sessionHistory[0]?.averageTimePerSum ? sessionHistory[0].averageTimePerSum / 1000 : 0).toFixed(2)}
+                        {formatDecimal((sessionHistory[0]?.averageTimePerSum ?? 0) / 1000, 2)}
                       </span>
-                      <span className={`text-xl font-bold ${isNewRecord ? 'text-amber-700' : 'text-blue-700'}`}>sec</span>
+                      <span className={`text-xl font-bold ${isNewRecord ? 'text-amber-700' : 'text-blue-700'}`}>{t('results.sec')}</span>
                     </div>
-                    <p className={`text-xs mt-1 ${isNewRecord ? 'text-amber-600/60' : 'text-blue-600/60'} font-medium`}>per som</p>
+                    <p className={`text-xs mt-1 ${isNewRecord ? 'text-amber-600/60' : 'text-blue-600/60'} font-medium`}>{t('results.perSum')}</p>
+                    {previousRecord && (
+                      <p className={`text-xs mt-2 font-bold ${isNewRecord ? 'text-amber-700' : 'text-blue-700'}`}>
+                        {t(isNewRecord ? 'results.previousRecord' : 'results.yourRecord', { record: recordValue(previousRecord) })}
+                      </p>
+                    )}
+                    {sessionHistory[0] && (
+                      <p className={`text-[10px] ${isNewRecord ? 'text-amber-600/60' : 'text-blue-600/60'}`}>
+                        {describeSubject(sessionSubject(sessionHistory[0]))}
+                      </p>
+                    )}
                   </div>
                 </motion.div>
               )}
@@ -737,42 +1633,116 @@ export default function App() {
                     onClick={retryMistakes}
                     className="w-full py-4 bg-purple-600 text-white rounded-2xl font-bold text-lg shadow-lg hover:bg-purple-700 transition-colors flex items-center justify-center gap-2"
                   >
-                    <RotateCcw className="w-5 h-5" /> Fouten opnieuw maken
+                    <RotateCcw className="w-5 h-5" /> {t('results.retryMistakes')}
                   </button>
                 )}
                 <button
                   onClick={startPractice}
                   className="w-full py-4 bg-emerald-600 text-white rounded-2xl font-bold text-lg shadow-lg hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
                 >
-                  <RotateCcw className="w-5 h-5" /> Alles opnieuw!
+                  <RotateCcw className="w-5 h-5" /> {t('results.again')}
                 </button>
                 <button
                   onClick={() => setMode('settings')}
                   className="w-full py-4 bg-stone-100 text-stone-600 rounded-2xl font-bold text-lg hover:bg-stone-200 transition-colors"
                 >
-                  Instellingen aanpassen
+                  {t('results.changeSettings')}
                 </button>
               </div>
 
+              {sessionHistory.length > 1 && (
+                <div className="pt-6 border-t border-stone-100">
+                  <h3 className="text-left font-bold text-stone-400 mb-4 uppercase text-xs tracking-widest">{t('results.yourProgress')}</h3>
+                  <ProgressPanel sessions={sessionHistory} highlightId={sessionHistory[0]?.id} />
+                </div>
+              )}
+
               <div className="pt-6 border-t border-stone-100">
-                <h3 className="text-left font-bold text-stone-400 mb-4 uppercase text-xs tracking-widest">Overzicht</h3>
+                <h3 className="text-left font-bold text-stone-400 mb-4 uppercase text-xs tracking-widest">{t('results.overview')}</h3>
                 <div className="space-y-2">
                   {history.map((item, i) => (
-                    <div key={i} className="flex items-center justify-between text-sm">
-                      <span className="text-stone-600">
-                        {item.exercise.a} {item.exercise.op === 'multiplication' ? '×' : '÷'} {item.exercise.b} = {item.exercise.result}
-                      </span>
-                      {item.correct ? (
-                        <CheckCircle2 className="w-4 h-4 text-emerald-500" />
-                      ) : (
-                        <XCircle className="w-4 h-4 text-red-500" />
-                      )}
+                    <div key={i} className="text-sm">
+                      <HistoryRow item={item} />
                     </div>
                   ))}
                 </div>
               </div>
             </motion.div>
           )}
+
+          {mode === 'teacher' && activeProfile && (
+            <motion.div
+              key="teacher"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+            >
+              <TeacherPanel
+                teacher={activeProfile}
+                profiles={profiles}
+                classes={classes}
+                assignments={assignments}
+                onChangeClasses={setClasses}
+                onChangeAssignments={setAssignments}
+                onCreatePupil={createPupil}
+                onBack={() => setMode('settings')}
+              />
+            </motion.div>
+          )}
+
+          {mode === 'dashboard' && (
+            <motion.div
+              key="dashboard"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+            >
+              <Dashboard
+                sessions={sessionHistory}
+                tableRange={settings.tableRange}
+                multiplierRange={settings.multiplierRange}
+                onBack={() => setMode('settings')}
+              />
+            </motion.div>
+          )}
+
+          {mode === 'badges' && (
+            <motion.div
+              key="badges"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+            >
+              <BadgeGallery unlocked={badges} onBack={() => setMode('settings')} />
+            </motion.div>
+          )}
+
+          {mode === 'records' && (
+            <motion.div
+              key="records"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+            >
+              <RecordsOverview records={records} earlierBest={settings.earlierBest} onBack={() => setMode('settings')} />
+            </motion.div>
+          )}
+
+          {mode === 'calendar' && (
+            <motion.div
+              key="calendar"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+            >
+              <PracticeCalendar
+                sessions={sessionHistory}
+                goal={settings.dailyGoal}
+                onChangeGoal={dailyGoal => setSettings(prev => ({ ...prev, dailyGoal }))}
+                onBack={() => setMode('settings')}
+              />
+            </motion.div>
+          )}
         </AnimatePresence>
       </main>
 
@@ -796,7 +1766,7 @@ export default function App() {
                 <div>
                   <h3 className="text-xl font-bold text-stone-800">{selectedSession.playerName}</h3>
                   <p className="text-xs text-stone-400">
-                    {new Date(selectedSession.timestamp).toLocaleString('nl-NL')}
+                    {formatDateTime(selectedSession.timestamp)}
                   </p>
                 </div>
                 <button 
@@ -811,45 +1781,59 @@ export default function App() {
                 <div className="grid grid-cols-3 gap-3">
                   <div className="bg-emerald-50 p-4 rounded-2xl text-center">
                     <div className="text-xl font-bold text-emerald-600">{selectedSession.correct}</div>
-                    <div className="text-[10px] text-emerald-600/60 font-bold uppercase">Goed</div>
+                    <div className="text-[10px] text-emerald-600/60 font-bold uppercase">{t('results.correct')}</div>
                   </div>
                   <div className="bg-red-50 p-4 rounded-2xl text-center">
                     <div className="text-xl font-bold text-red-600">{selectedSession.total - selectedSession.correct}</div>
-                    <div className="text-[10px] text-red-600/60 font-bold uppercase">Fout</div>
+                    <div className="text-[10px] text-red-600/60 font-bold uppercase">{t('results.wrong')}</div>
                   </div>
                   <div className="bg-blue-50 p-4 rounded-2xl text-center">
                     <div className="text-xl font-bold text-blue-600">
-                      {selectedSession.averageTimePerSum ? (selectedSession.averageTimePerSum / 1000).toFixed(1) : '-'}s
+                      {selectedSession.averageTimePerSum ? formatSeconds(selectedSession.averageTimePerSum) : '-'}
                     </div>
-                    <div className="text-[10px] text-blue-600/60 font-bold uppercase">Snelheid</div>
+                    <div className="text-[10px] text-blue-600/60 font-bold uppercase">{t('results.speed')}</div>
                   </div>
                 </div>
 
                 <div className="space-y-3">
-                  <h4 className="text-xs font-bold text-stone-400 uppercase tracking-widest">Selectie</h4>
+                  <h4 className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('results.selection')}</h4>
                   <div className="flex flex-wrap gap-2">
-                    {selectedSession.multiplicationTables.map(t => (
-                      <span key={`m-${t}`} className="px-2 py-1 bg-emerald-100 text-emerald-700 rounded-lg text-xs font-bold">× {t}</span>
+                    {selectedSession.multiplicationTables.map(table => (
+                      <span key={`m-${table}`} className="px-2 py-1 bg-emerald-100 text-emerald-700 rounded-lg text-xs font-bold">× {table}</span>
                     ))}
-                    {selectedSession.divisionTables.map(t => (
-                      <span key={`d-${t}`} className="px-2 py-1 bg-blue-100 text-blue-700 rounded-lg text-xs font-bold">÷ {t}</span>
+                    {selectedSession.divisionTables.map(table => (
+                      <span key={`d-${table}`} className="px-2 py-1 bg-blue-100 text-blue-700 rounded-lg text-xs font-bold">÷ {table}</span>
                     ))}
+                    {(selectedSession.additionLevels ?? []).map(level => (
+                      <span key={`a-${level}`} className="px-2 py-1 bg-amber-100 text-amber-700 rounded-lg text-xs font-bold">+ {levelLabel(level)}</span>
+                    ))}
+                    {(selectedSession.subtractionLevels ?? []).map(level => (
+                      <span key={`s-${level}`} className="px-2 py-1 bg-rose-100 text-rose-700 rounded-lg text-xs font-bold">− {levelLabel(level)}</span>
+                    ))}
+                    {selectedSession.practiceCode && (
+                      <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded-lg text-xs font-bold">{t('share.sharedPractice')}</span>
+                    )}
                   </div>
                 </div>
 
+                {selectedSession.practiceCode && (
+                  <SharedResults practiceCode={selectedSession.practiceCode} currentId={selectedSession.id} />
+                )}
+
+                {/* The history only holds the active player's sessions, so other players get no charts */}
+                {(selectedSession.profileId ?? activeProfileId) === activeProfileId && sessionHistory.length > 1 && (
+                  <div className="space-y-3">
+                    <h4 className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('results.progress')}</h4>
+                    <ProgressPanel sessions={sessionHistory} highlightId={selectedSession.id} />
+                  </div>
+                )}
+
                 <div className="space-y-3">
-                  <h4 className="text-xs font-bold text-stone-400 uppercase tracking-widest">Sommen</h4>
+                  <h4 className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('results.sums')}</h4>
                   <div className="space-y-2">
                     {selectedSession.history.map((item, i) => (
-                      <div key={i} className="flex items-center justify-between py-2 border-b border-stone-50 last:border-0">
-                        <span className="text-stone-600 font-medium">
-                          {item.exercise.a} {item.exercise.op === 'multiplication' ? '×' : '÷'} {item.exercise.b} = {item.exercise.result}
-                        </span>
-                        {item.correct ? (
-                          <CheckCircle2 className="w-4 h-4 text-emerald-500" />
-                        ) : (
-                          <XCircle className="w-4 h-4 text-red-500" />
-                        )}
+                      <div key={i} className="py-2 border-b border-stone-50 last:border-0">
+                        <HistoryRow item={item} />
                       </div>
                     ))}
                   </div>
@@ -860,10 +1844,15 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Reloading mid-session would lose it, so the prompt waits until practice is over */}
+      {availableUpdate && mode !== 'practice' && (
+        <UpdatePrompt update={availableUpdate} onDismiss={() => setAvailableUpdate(null)} />
+      )}
+
       <footer className="mt-8 text-center text-stone-400 text-xs space-y-1">
-        <p>Gemaakt voor kleine kampioenen 🌟</p>
-        <p>Deze app is met behulp van AI gemaakt door Glenn Evens.</p>
-        <p className="opacity-50 pt-2">v1.9.2</p>
+        <p>{t('app.footer')}</p>
+        <p>{t('app.credits')}</p>
+        <p className="opacity-50 pt-2">v{__APP_VERSION__}</p>
       </footer>
     </div>
   );
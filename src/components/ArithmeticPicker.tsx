@@ -0,0 +1,51 @@
+import React from 'react';
+import { Minus, Plus } from 'lucide-react';
+import { ArithmeticLevel } from '../types';
+import { ARITHMETIC_LEVELS, ArithmeticOperation } from '../lib/arithmetic';
+import { MessageKey, t } from '../lib/i18n';
+
+interface ArithmeticPickerProps {
+  additionLevels: ArithmeticLevel[];
+  subtractionLevels: ArithmeticLevel[];
+  onToggle: (op: ArithmeticOperation, level: ArithmeticLevel) => void;
+  disabled?: boolean;
+}
+
+const SECTIONS: { op: ArithmeticOperation; title: MessageKey; icon: typeof Plus; activeClass: string }[] = [
+  { op: 'addition', title: 'arithmetic.addition', icon: Plus, activeClass: 'bg-amber-500 text-white shadow-lg shadow-amber-200' },
+  { op: 'subtraction', title: 'arithmetic.subtraction', icon: Minus, activeClass: 'bg-rose-500 text-white shadow-lg shadow-rose-200' }
+];
+
+export default function ArithmeticPicker({ additionLevels, subtractionLevels, onToggle, disabled = false }: ArithmeticPickerProps) {
+  return (
+    <>
+      {SECTIONS.map(({ op, title, icon: Icon, activeClass }) => {
+        const selected = op === 'addition' ? additionLevels : subtractionLevels;
+        return (
+          <div key={op}>
+            <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
+              <Icon className="w-4 h-4" /> {t(title)}
+            </h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {ARITHMETIC_LEVELS.map(({ level, label, example }) => (
+                <button
+                  key={`${op}-${level}`}
+                  disabled={disabled}
+                  onClick={() => onToggle(op, level)}
+                  className={`
+                    px-3 py-2 rounded-xl text-left transition-all duration-200
+                    ${disabled ? 'cursor-not-allowed' : ''}
+                    ${selected.includes(level) ? activeClass : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+                  `}
+                >
+                  <span className="block text-xs font-bold">{t(label)}</span>
+                  <span className="block text-[10px] font-mono opacity-70">{example[op]}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CalendarClock, ClipboardList, Lock, X } from 'lucide-react';
+import { Assignment } from '../types';
+import { formatDate, t } from '../lib/i18n';
+
+interface AssignmentListProps {
+  assignments: Assignment[];
+  activeAssignmentId: string | null;
+  onSelect: (assignmentId: string | null) => void;
+}
+
+export default function AssignmentList({ assignments, activeAssignmentId, onSelect }: AssignmentListProps) {
+  if (assignments.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
+        <ClipboardList className="w-4 h-4" /> {t('assignments.title')}
+      </h3>
+      <div className="space-y-2">
+        {assignments.map(a => {
+          const isActive = a.id === activeAssignmentId;
+          return (
+            <button
+              key={a.id}
+              onClick={() => onSelect(isActive ? null : a.id)}
+              className={`
+                w-full flex items-center justify-between py-3 px-4 rounded-xl border transition-all text-left
+                ${isActive
+                  ? 'bg-purple-50 border-purple-300'
+                  : 'bg-white/50 border-stone-100 hover:bg-white hover:border-purple-200'}
+              `}
+            >
+              <div>
+                <p className="font-bold text-stone-700 flex items-center gap-2">
+                  {isActive && <Lock className="w-4 h-4 text-purple-500" />} {a.title}
+                </p>
+                <p className="text-[10px] text-stone-400 flex items-center gap-1">
+                  <CalendarClock className="w-3 h-3" /> {t('assignments.due', { date: formatDate(a.deadline) })}
+                </p>
+              </div>
+              {isActive ? (
+                <span className="flex items-center gap-1 text-xs font-bold text-purple-500">
+                  <X className="w-4 h-4" /> {t('assignments.release')}
+                </span>
+              ) : (
+                <span className="text-xs font-bold text-purple-500">{t('assignments.choose')}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
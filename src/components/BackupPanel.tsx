@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { Download, FileSpreadsheet, HardDrive, Upload } from 'lucide-react';
+import { BackupBundle, BackupError, ImportMode, createBackup, downloadFile, importBackup, parseBackup, sessionsToCsv } from '../lib/backup';
+import { historyStore } from '../lib/historyStore';
+import { formatDateTime, t } from '../lib/i18n';
+
+interface BackupPanelProps {
+  onImported: () => void;
+}
+
+function dateStamp(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export default function BackupPanel({ onImported }: BackupPanelProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<BackupBundle | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const exportFailed = (error: unknown) => {
+    console.warn('Exporteren mislukt:', error);
+    setMessage({ text: t('backup.exportFailed'), error: true });
+  };
+
+  const exportJson = () => {
+    createBackup().then(bundle => {
+      downloadFile(`tafelkampioen-${dateStamp()}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+    }).catch(exportFailed);
+  };
+
+  const exportCsv = () => {
+    historyStore.query().then(({ sessions }) => {
+      downloadFile(`tafelkampioen-sommen-${dateStamp()}.csv`, sessionsToCsv(sessions), 'text/csv;charset=utf-8');
+    }).catch(exportFailed);
+  };
+
+  const chooseFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPending(parseBackup(await file.text()));
+      setMessage(null);
+    } catch (error) {
+      setPending(null);
+      setMessage({ text: error instanceof BackupError ? error.message : t('backup.unreadable'), error: true });
+    }
+  };
+
+  const runImport = async (mode: ImportMode) => {
+    if (!pending) return;
+    try {
+      await importBackup(pending, mode);
+      const sessions = pending.profiles.reduce((sum, p) => sum + p.sessions.length, 0);
+      setMessage({
+        text: t('backup.restored', { players: t('backup.players', { count: pending.profiles.length }), sessions: t('backup.sessions', { count: sessions }) }),
+        error: false
+      });
+      setPending(null);
+      onImported();
+    } catch (error) {
+      setMessage({ text: error instanceof BackupError ? error.message : t('backup.restoreFailed'), error: true });
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
+        <HardDrive className="w-4 h-4" /> {t('backup.title')}
+      </h3>
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={exportJson}
+          className="h-12 rounded-xl bg-stone-100 text-stone-500 hover:bg-stone-200 font-bold text-xs flex items-center justify-center gap-1 transition-all"
+        >
+          <Download className="w-4 h-4" /> {t('backup.save')}
+        </button>
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="h-12 rounded-xl bg-stone-100 text-stone-500 hover:bg-stone-200 font-bold text-xs flex items-center justify-center gap-1 transition-all"
+        >
+          <Upload className="w-4 h-4" /> {t('backup.restore')}
+        </button>
+        <button
+          onClick={exportCsv}
+          className="h-12 rounded-xl bg-stone-100 text-stone-500 hover:bg-stone-200 font-bold text-xs flex items-center justify-center gap-1 transition-all"
+        >
+          <FileSpreadsheet className="w-4 h-4" /> CSV
+        </button>
+      </div>
+      <input ref={fileRef} type="file" accept="application/json,.json" onChange={chooseFile} className="hidden" />
+
+      {pending && (
+        <div className="mt-3 p-4 bg-stone-50 rounded-xl space-y-3">
+          <p className="text-xs text-stone-500 font-medium">
+            {t('backup.pending', { date: formatDateTime(pending.exportedAt), players: t('backup.players', { count: pending.profiles.length }) })}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => runImport('merge')}
+              className="py-2 rounded-xl bg-emerald-600 text-white font-bold text-xs hover:bg-emerald-700 transition-colors"
+            >
+              {t('backup.merge')}
+            </button>
+            <button
+              onClick={() => runImport('replace')}
+              className="py-2 rounded-xl bg-red-100 text-red-600 font-bold text-xs hover:bg-red-200 transition-colors"
+            >
+              {t('backup.replace')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-2 text-[11px] font-medium ${message.error ? 'text-red-500' : 'text-emerald-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
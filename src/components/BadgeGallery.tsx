@@ -0,0 +1,54 @@
+import React from 'react';
+import { Award, ChevronLeft, Lock } from 'lucide-react';
+import { UnlockedBadges } from '../types';
+import { BADGE_RULES } from '../lib/badges';
+import { formatDate, t } from '../lib/i18n';
+
+interface BadgeGalleryProps {
+  unlocked: UnlockedBadges;
+  onBack: () => void;
+}
+
+export default function BadgeGallery({ unlocked, onBack }: BadgeGalleryProps) {
+  const earnedCount = BADGE_RULES.filter(rule => unlocked[rule.id] !== undefined).length;
+
+  return (
+    <div className="glass rounded-3xl p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onBack}
+          className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors"
+        >
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 text-stone-700">
+          <Award className="w-5 h-5" /> {t('badges.title')}
+        </h2>
+        <span className="ml-auto text-sm font-bold text-stone-400">{earnedCount} / {BADGE_RULES.length}</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {BADGE_RULES.map(rule => {
+          const earnedAt = unlocked[rule.id];
+          return (
+            <div
+              key={rule.id}
+              className={`p-4 rounded-2xl border-2 text-center space-y-1 ${earnedAt !== undefined
+                ? 'bg-amber-50 border-amber-200'
+                : 'bg-stone-50 border-stone-100'}`}
+            >
+              <div className={`text-4xl ${earnedAt !== undefined ? '' : 'grayscale opacity-30'}`}>{rule.icon}</div>
+              <p className={`font-bold text-sm ${earnedAt !== undefined ? 'text-amber-900' : 'text-stone-400'}`}>{rule.title}</p>
+              <p className="text-[10px] text-stone-500 leading-snug">{rule.description}</p>
+              <p className="text-[10px] font-bold text-stone-400 flex items-center justify-center gap-1">
+                {earnedAt !== undefined
+                  ? formatDate(earnedAt)
+                  : <><Lock className="w-3 h-3" /> {t('badges.locked')}</>}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
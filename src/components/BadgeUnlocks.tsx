@@ -0,0 +1,44 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { BadgeRule } from '../lib/badges';
+import { t } from '../lib/i18n';
+
+interface BadgeUnlocksProps {
+  badges: BadgeRule[];
+  onShowAll: () => void;
+}
+
+// The badges earned in the session that just ended, popping in one after the other
+export default function BadgeUnlocks({ badges, onShowAll }: BadgeUnlocksProps) {
+  if (badges.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-bold uppercase tracking-widest text-amber-600">
+        {t('badges.new', { count: badges.length })}
+      </p>
+      <div className="flex flex-wrap justify-center gap-3">
+        {badges.map((badge, i) => (
+          <motion.button
+            key={badge.id}
+            onClick={onShowAll}
+            initial={{ scale: 0, rotate: -20, opacity: 0 }}
+            animate={{ scale: 1, rotate: 0, opacity: 1 }}
+            transition={{ type: 'spring', stiffness: 260, damping: 12, delay: 0.4 + i * 0.25 }}
+            className="w-32 p-3 rounded-2xl bg-amber-50 border-4 border-amber-200 space-y-1 hover:border-amber-300 transition-colors"
+            title={badge.description}
+          >
+            <motion.div
+              animate={{ scale: [1, 1.15, 1] }}
+              transition={{ repeat: Infinity, duration: 1.6, delay: 1 + i * 0.25 }}
+              className="text-4xl"
+            >
+              {badge.icon}
+            </motion.div>
+            <p className="text-xs font-bold text-amber-900">{badge.title}</p>
+          </motion.button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { ChallengeSettings } from '../types';
+import { CHALLENGE_FORMATS, challengeExample } from '../lib/challenges';
+import { t } from '../lib/i18n';
+
+const WEIGHTS = [0.1, 0.2, 0.35, 0.5];
+
+interface ChallengePickerProps {
+  challenges: ChallengeSettings;
+  onChange: (challenges: ChallengeSettings) => void;
+}
+
+export default function ChallengePicker({ challenges, onChange }: ChallengePickerProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 flex items-center gap-2">
+          <Sparkles className="w-4 h-4" /> {t('challenges.title')}
+        </h3>
+        <button
+          onClick={() => onChange({ ...challenges, enabled: !challenges.enabled })}
+          className={`
+            px-3 py-1 rounded-full text-xs font-bold transition-all
+            ${challenges.enabled ? 'bg-purple-500 text-white' : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+          `}
+        >
+          {challenges.enabled ? t('common.on') : t('common.off')}
+        </button>
+      </div>
+
+      {challenges.enabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-4 gap-2">
+            {WEIGHTS.map(weight => (
+              <button
+                key={weight}
+                onClick={() => onChange({ ...challenges, weight })}
+                className={`
+                  h-10 rounded-xl text-sm font-bold transition-all duration-200
+                  ${challenges.weight === weight
+                    ? 'bg-purple-100 text-purple-600 scale-105'
+                    : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+                `}
+              >
+                {Math.round(weight * 100)}%
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {CHALLENGE_FORMATS.map(({ format, label }) => {
+              const active = challenges.formats.includes(format);
+              return (
+                <button
+                  key={format}
+                  onClick={() => onChange({
+                    ...challenges,
+                    formats: active ? challenges.formats.filter(f => f !== format) : [...challenges.formats, format]
+                  })}
+                  className={`
+                    px-3 py-2 rounded-xl text-left transition-all
+                    ${active ? 'bg-purple-500 text-white shadow-lg shadow-purple-200' : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+                  `}
+                >
+                  <span className="block text-xs font-bold">{t(label)}</span>
+                  <span className="block text-[10px] font-mono opacity-70">{challengeExample(format)}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
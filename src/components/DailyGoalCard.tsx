@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { CalendarDays, Flame } from 'lucide-react';
+import { DailyGoal, SessionResult } from '../types';
+import { activityByDay, computeStreak, dayKey, goalLabel, goalProgress } from '../lib/streaks';
+import { t } from '../lib/i18n';
+
+interface DailyGoalCardProps {
+  sessions: SessionResult[];
+  goal: DailyGoal;
+  onOpenCalendar: () => void;
+}
+
+export default function DailyGoalCard({ sessions, goal, onOpenCalendar }: DailyGoalCardProps) {
+  const now = Date.now();
+  const today = useMemo(() => activityByDay(sessions).get(dayKey(now)), [sessions]);
+  const streak = useMemo(() => computeStreak(sessions, goal, now), [sessions, goal]);
+  const progress = goalProgress(today, goal);
+  const done = goal.unit === 'sums' ? today?.sums ?? 0 : Math.floor((today?.ms ?? 0) / 60000);
+
+  return (
+    <button
+      onClick={onOpenCalendar}
+      className="w-full p-4 bg-white/60 rounded-2xl border border-stone-100 hover:bg-white hover:border-purple-200 transition-all text-left space-y-2"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-bold uppercase tracking-wider text-stone-400 flex items-center gap-2">
+          <CalendarDays className="w-4 h-4" /> {t('goal.today')}
+        </span>
+        <span className={`flex items-center gap-1 font-bold ${streak.current > 0 ? 'text-orange-500' : 'text-stone-300'}`}>
+          <Flame className="w-4 h-4" /> {t('goal.days', { count: streak.current })}
+          {streak.freezes > 0 && <span className="text-sky-500 text-xs ml-1">❄️ {streak.freezes}</span>}
+        </span>
+      </div>
+      <div className="h-3 bg-stone-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${progress >= 1 ? 'bg-emerald-500' : 'bg-orange-400'}`}
+          style={{ width: `${progress * 100}%` }}
+        />
+      </div>
+      <p className="text-xs text-stone-500 font-medium">
+        {progress >= 1
+          ? t('goal.reached', { goal: goalLabel(goal) })
+          : t('goal.progress', { done, goal: goalLabel(goal) })}
+      </p>
+    </button>
+  );
+}
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Calculator, CheckCircle2, ChevronLeft, Divide, LayoutGrid, X, XCircle } from 'lucide-react';
+import { NumberRange, Operation, SessionResult } from '../types';
+import { FactSummary, collectFactAttempts, gridExercise, summarizeAttempts } from '../lib/factHistory';
+import { factKey } from '../lib/scheduler';
+import { rangeValues } from '../lib/pool';
+import { formatSeconds, operatorSymbol } from '../lib/format';
+import { formatDateTime, t } from '../lib/i18n';
+
+interface DashboardProps {
+  sessions: SessionResult[];
+  tableRange: NumberRange;
+  multiplierRange: NumberRange;
+  onBack: () => void;
+}
+
+function cellColor(summary: FactSummary | undefined): string {
+  if (!summary || summary.attempts === 0) return 'bg-stone-100 text-stone-300';
+  if (summary.accuracy < 0.5) return 'bg-red-400 text-white';
+  if (summary.accuracy < 0.8) return 'bg-amber-300 text-amber-900';
+  if (summary.medianTimeMs !== undefined && summary.medianTimeMs > 6000) return 'bg-lime-300 text-lime-900';
+  if (summary.medianTimeMs !== undefined && summary.medianTimeMs > 3000) return 'bg-emerald-300 text-emerald-900';
+  return 'bg-emerald-500 text-white';
+}
+
+export default function Dashboard({ sessions, tableRange, multiplierRange, onBack }: DashboardProps) {
+  const [selected, setSelected] = useState<{ op: Operation; table: number; n: number } | null>(null);
+  const attemptsByFact = useMemo(() => collectFactAttempts(sessions), [sessions]);
+  const tables = rangeValues(tableRange);
+  const multipliers = rangeValues(multiplierRange);
+
+  const renderGrid = (op: Operation) => (
+    <div className="overflow-x-auto">
+      <div
+        className="grid gap-1"
+        style={{ gridTemplateColumns: `repeat(${multipliers.length + 1}, minmax(0, 1fr))`, minWidth: `${(multipliers.length + 1) * 35}px` }}
+      >
+        <div className="flex items-center justify-center text-emerald-500 font-bold">
+          {op === 'multiplication' ? '×' : '÷'}
+        </div>
+        {multipliers.map(n => (
+          <div key={`head-${n}`} className="text-center text-[10px] font-bold text-stone-400">{n}</div>
+        ))}
+        {tables.map(table => (
+          <React.Fragment key={`row-${table}`}>
+            <div className="flex items-center justify-center text-xs font-bold text-stone-400">{table}</div>
+            {multipliers.map(n => {
+              if (op === 'division' && table === 0) {
+                return <div key={`${table}-${n}`} className="aspect-square rounded-md bg-stone-50 opacity-40" />;
+              }
+              const exercise = gridExercise(op, table, n);
+              const attempts = attemptsByFact.get(factKey(exercise));
+              const summary = attempts ? summarizeAttempts(attempts) : undefined;
+              return (
+                <button
+                  key={`${table}-${n}`}
+                  onClick={() => setSelected({ op, table, n })}
+                  title={op === 'multiplication' ? `${n} × ${table}` : `${table * n} ÷ ${table}`}
+                  className={`aspect-square rounded-md text-[10px] font-bold transition-transform hover:scale-110 ${cellColor(summary)}`}
+                >
+                  {summary ? Math.round(summary.accuracy * 100) : ''}
+                </button>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+
+  const selectedExercise = selected ? gridExercise(selected.op, selected.table, selected.n) : null;
+  const selectedAttempts = selectedExercise ? attemptsByFact.get(factKey(selectedExercise)) ?? [] : [];
+  const selectedSummary = summarizeAttempts(selectedAttempts);
+
+  return (
+    <div className="space-y-6">
+      <div className="glass rounded-3xl p-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <h2 className="text-xl font-semibold flex items-center gap-2 text-stone-700">
+            <LayoutGrid className="w-5 h-5" /> {t('dashboard.title')}
+          </h2>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
+            <Calculator className="w-4 h-4" /> {t('settings.multiplication')}
+          </h3>
+          {renderGrid('multiplication')}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
+            <Divide className="w-4 h-4" /> {t('settings.division')}
+          </h3>
+          {renderGrid('division')}
+        </div>
+
+        <div className="flex flex-wrap gap-3 text-[10px] text-stone-500 font-medium">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-emerald-500" /> {t('dashboard.rightAndFast')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-emerald-300" /> {t('dashboard.right')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-lime-300" /> {t('dashboard.rightButSlow')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-300" /> {t('dashboard.sometimesWrong')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-400" /> {t('dashboard.oftenWrong')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-stone-100" /> {t('dashboard.notPractised')}</span>
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {selectedExercise && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm"
+            onClick={() => setSelected(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              className="bg-white rounded-3xl w-full max-w-md max-h-[80vh] overflow-hidden flex flex-col shadow-2xl"
+              onClick={e => e.stopPropagation()}
+            >
+              <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+                <div>
+                  <h3 className="text-xl font-bold text-stone-800">
+                    {selectedExercise.a} {operatorSymbol(selectedExercise.op)} {selectedExercise.b} = {selectedExercise.result}
+                  </h3>
+                  <p className="text-xs text-stone-400">
+                    {t('dashboard.attempts', { count: selectedSummary.attempts })}
+                    {selectedSummary.attempts > 0 && ` · ${t('dashboard.accuracy', { percent: Math.round(selectedSummary.accuracy * 100) })}`}
+                    {selectedSummary.medianTimeMs !== undefined && ` · ${formatSeconds(selectedSummary.medianTimeMs)}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSelected(null)}
+                  className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+                >
+                  <X className="w-6 h-6 text-stone-400" />
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-6 space-y-2">
+                {selectedAttempts.length === 0 && (
+                  <p className="text-sm text-stone-400 text-center">{t('dashboard.noAttempts')}</p>
+                )}
+                {[...selectedAttempts].reverse().map((attempt, i) => (
+                  <div key={i} className="flex items-center justify-between py-2 border-b border-stone-50 last:border-0">
+                    <span className="text-stone-600 text-sm font-medium">
+                      {formatDateTime(attempt.timestamp)}
+                    </span>
+                    <div className="flex items-center gap-3">
+                      {!attempt.correct && (
+                        <span className="text-xs text-red-500">
+                          {attempt.timedOut ? t('dashboard.timedOut') : attempt.answer !== null ? t('dashboard.typed', { answer: attempt.answer }) : ''}
+                        </span>
+                      )}
+                      {attempt.timeMs !== undefined && (
+                        <span className="text-xs font-mono text-stone-400">{formatSeconds(attempt.timeMs)}</span>
+                      )}
+                      {attempt.correct ? (
+                        <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-red-500" />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { X } from 'lucide-react';
+import NumericKeypad from './NumericKeypad';
+import {
+  DuelPlayer,
+  DuelSide,
+  DuelState,
+  answerDuel,
+  canAnswer,
+  currentRound,
+  duelScores,
+  duelTimeLeft,
+  nextDuelRound,
+  timeOutRound
+} from '../lib/duel';
+import { answerComplete, cleanAnswerInput } from '../lib/engine';
+import { formatPrompt } from '../lib/format';
+import { t } from '../lib/i18n';
+
+interface DuelMatchProps {
+  initial: DuelState;
+  autoSubmit: boolean;
+  onFinish: (duel: DuelState) => void;
+  onQuit: () => void;
+}
+
+// Long enough to see who took the point
+const NEXT_ROUND_DELAY = 1000;
+
+interface DuelHalfProps {
+  player: DuelPlayer;
+  prompt: string;
+  typed: string;
+  score: number;
+  rounds: number;
+  status: { text: string; tone: 'win' | 'lose' } | null;
+  disabled: boolean;
+  flipped: boolean;
+  onDigit: (digit: string) => void;
+  onBackspace: () => void;
+  onSubmit: () => void;
+}
+
+function DuelHalf({ player, prompt, typed, score, rounds, status, disabled, flipped, onDigit, onBackspace, onSubmit }: DuelHalfProps) {
+  return (
+    <div className={`glass rounded-3xl p-4 space-y-3 ${flipped ? 'rotate-180' : ''}`}>
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-bold text-stone-700 flex items-center gap-2">
+          <span className="text-2xl">{player.avatar}</span> {player.name}
+        </span>
+        <span className="font-bold text-purple-600">{t('duel.points', { count: score })}</span>
+      </div>
+      <div className="h-2 bg-stone-100 rounded-full overflow-hidden">
+        <motion.div
+          className="h-full bg-purple-500"
+          initial={{ width: 0 }}
+          animate={{ width: `${(score / rounds) * 100}%` }}
+        />
+      </div>
+      <div className="text-4xl font-display font-bold text-stone-800 text-center py-2">{prompt}</div>
+      <div
+        className={`
+          text-center text-4xl font-bold py-2 rounded-2xl border-4 min-h-[4rem]
+          ${status?.tone === 'win' ? 'border-emerald-500 bg-emerald-50 text-emerald-700'
+            : status?.tone === 'lose' ? 'border-red-200 bg-red-50 text-red-400'
+              : 'border-stone-200 bg-white text-stone-700'}
+        `}
+      >
+        {typed || (status ? '' : '?')}
+      </div>
+      <p role="status" className="text-center text-sm font-bold text-stone-500 min-h-[1.25rem]">{status?.text}</p>
+      <NumericKeypad
+        disabled={disabled}
+        canSubmit={typed !== ''}
+        onDigit={onDigit}
+        onBackspace={onBackspace}
+        onSubmit={onSubmit}
+      />
+    </div>
+  );
+}
+
+// Split screen for a tablet lying between two players: the first player's half is upside down, so it faces
+// whoever sits across. The rules live in lib/duel; this only keeps the clock and the typed answers.
+export default function DuelMatch({ initial, autoSubmit, onFinish, onQuit }: DuelMatchProps) {
+  const [duel, setDuel] = useState(initial);
+  const [typed, setTyped] = useState<[string, string]>(['', '']);
+  const [timeLeft, setTimeLeft] = useState(initial.questionSeconds);
+  // Both keypads and the clock read the duel from here, so they never act on a stale copy
+  const duelRef = useRef(initial);
+  const onFinishRef = useRef(onFinish);
+  useEffect(() => {
+    onFinishRef.current = onFinish;
+  }, [onFinish]);
+
+  const commit = useCallback((next: DuelState) => {
+    duelRef.current = next;
+    setDuel(next);
+  }, []);
+
+  useEffect(() => {
+    if (duel.roundOver || duel.finished) return;
+    setTimeLeft(duelTimeLeft(duelRef.current, Date.now()));
+    const timer = setInterval(() => {
+      const left = duelTimeLeft(duelRef.current, Date.now());
+      setTimeLeft(left);
+      if (left <= 0) commit(timeOutRound(duelRef.current));
+    }, 50);
+    return () => clearInterval(timer);
+  }, [duel.roundOver, duel.finished, duel.rounds.length, commit]);
+
+  useEffect(() => {
+    if (!duel.roundOver) return;
+    const timer = setTimeout(() => {
+      const next = nextDuelRound(duelRef.current);
+      commit(next);
+      setTyped(['', '']);
+      if (next.finished) onFinishRef.current(next);
+    }, NEXT_ROUND_DELAY);
+    return () => clearTimeout(timer);
+  }, [duel.roundOver, commit]);
+
+  const submit = (side: DuelSide, input: string) => {
+    const next = answerDuel(duelRef.current, side, input);
+    if (next) commit(next);
+  };
+
+  const setTypedFor = (side: DuelSide, value: string) => {
+    setTyped(prev => (side === 0 ? [value, prev[1]] : [prev[0], value]));
+  };
+
+  // Like the practice card, a full answer goes in by itself when auto-submit is on
+  const enter = (side: DuelSide, input: string) => {
+    const answer = cleanAnswerInput(input);
+    setTypedFor(side, answer);
+    if (autoSubmit && answer !== '' && answerComplete(answer, currentRound(duelRef.current).exercise)) submit(side, answer);
+  };
+
+  const round = currentRound(duel);
+  const scores = duelScores(duel);
+  const prompt = formatPrompt(round.exercise);
+
+  const statusFor = (side: DuelSide): DuelHalfProps['status'] => {
+    if (duel.roundOver) {
+      if (round.winner === side) return { text: t('duel.point'), tone: 'win' };
+      if (round.winner !== null) return { text: t('duel.tooLate'), tone: 'lose' };
+      return { text: t('duel.nobody'), tone: 'lose' };
+    }
+    if (round.tried[side]) return { text: t('duel.wrong'), tone: 'lose' };
+    return null;
+  };
+
+  const half = (side: DuelSide) => (
+    <DuelHalf
+      player={duel.players[side]}
+      prompt={prompt}
+      typed={typed[side]}
+      score={scores[side]}
+      rounds={duel.exercises.length}
+      status={statusFor(side)}
+      disabled={!canAnswer(duel, side)}
+      flipped={side === 0}
+      onDigit={(digit) => enter(side, typed[side] + digit)}
+      onBackspace={() => setTypedFor(side, typed[side].slice(0, -1))}
+      onSubmit={() => submit(side, typed[side])}
+    />
+  );
+
+  return (
+    <div className="flex-1 flex flex-col gap-3 w-full max-w-md mx-auto">
+      {half(0)}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onQuit}
+          aria-label={t('duel.quit')}
+          title={t('duel.quit')}
+          className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <div className="flex-1 space-y-1">
+          <p className="text-center text-xs font-bold text-stone-400 uppercase tracking-wider">
+            {t('duel.round', { number: duel.rounds.length, total: duel.exercises.length })}
+          </p>
+          <div className="h-1.5 bg-stone-100 rounded-full overflow-hidden">
+            <motion.div
+              className={`h-full transition-colors duration-300 ${timeLeft < 3 ? 'bg-red-500' : 'bg-orange-400'}`}
+              initial={{ width: '100%' }}
+              animate={{ width: `${(timeLeft / duel.questionSeconds) * 100}%` }}
+              transition={{ duration: 0.05, ease: 'linear' }}
+            />
+          </div>
+        </div>
+        <div className="w-9" />
+      </div>
+
+      {half(1)}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Handshake, RotateCcw, Trophy } from 'lucide-react';
+import { DuelSide, DuelState, duelScores, duelWinner } from '../lib/duel';
+import { formatExercise } from '../lib/format';
+import { t } from '../lib/i18n';
+
+interface DuelResultsProps {
+  duel: DuelState;
+  onRematch: () => void;
+  onDone: () => void;
+}
+
+export default function DuelResults({ duel, onRematch, onDone }: DuelResultsProps) {
+  const scores = duelScores(duel);
+  const winner = duelWinner(duel);
+  const rounds = duel.rounds.length;
+
+  const playerCard = (side: DuelSide) => {
+    const player = duel.players[side];
+    const won = winner === side;
+    return (
+      <div className={`p-4 rounded-2xl space-y-2 ${won ? 'bg-yellow-50 ring-2 ring-yellow-300' : 'bg-stone-50'}`}>
+        <div className="text-4xl">{player.avatar}</div>
+        <div className="font-bold text-stone-700 truncate">{player.name}</div>
+        <div className="text-3xl font-bold text-purple-600">{scores[side]}</div>
+        <div className="h-2 bg-stone-100 rounded-full overflow-hidden">
+          <div className="h-full bg-purple-500" style={{ width: `${rounds > 0 ? (scores[side] / rounds) * 100 : 0}%` }} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="glass rounded-3xl p-8 text-center space-y-6">
+      <div className="space-y-2">
+        {winner === null
+          ? <Handshake className="w-16 h-16 mx-auto text-purple-500" />
+          : <Trophy className="w-16 h-16 mx-auto text-yellow-400" />}
+        <h2 className="text-3xl font-bold text-stone-800">
+          {winner === null ? t('duel.draw') : t('duel.wins', { name: duel.players[winner].name })}
+        </h2>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {playerCard(0)}
+        {playerCard(1)}
+      </div>
+
+      <div className="text-left space-y-2">
+        <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400">{t('duel.rounds')}</h3>
+        <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+          {duel.rounds.map((round, index) => (
+            <div key={index} className="flex items-center justify-between gap-3 py-1 border-b border-stone-100 last:border-0">
+              <span className="text-stone-600 font-medium">{formatExercise(round.exercise)}</span>
+              <span className="text-xl shrink-0" title={round.winner === null ? t('duel.nobody') : duel.players[round.winner].name}>
+                {round.winner === null ? '–' : duel.players[round.winner].avatar}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onRematch}
+          className="py-4 rounded-2xl font-bold bg-purple-600 text-white hover:bg-purple-700 transition-colors flex items-center justify-center gap-2"
+        >
+          <RotateCcw className="w-5 h-5" /> {t('duel.rematch')}
+        </button>
+        <button
+          onClick={onDone}
+          className="py-4 rounded-2xl font-bold bg-stone-100 text-stone-600 hover:bg-stone-200 transition-colors"
+        >
+          {t('duel.done')}
+        </button>
+      </div>
+    </div>
+  );
+}
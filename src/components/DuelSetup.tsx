@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Swords } from 'lucide-react';
+import { Profile } from '../types';
+import { t } from '../lib/i18n';
+
+interface DuelSetupProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  canStart: boolean; // Something is selected to practise
+  onStart: (opponentId: string) => void;
+}
+
+// The active player challenges one of the other profiles on this device
+export default function DuelSetup({ profiles, activeProfileId, canStart, onStart }: DuelSetupProps) {
+  const opponents = profiles.filter(p => p.id !== activeProfileId);
+  const [opponentId, setOpponentId] = useState<string | null>(null);
+  const opponent = opponents.find(p => p.id === opponentId) ?? opponents[0];
+
+  return (
+    <div className="glass rounded-3xl p-6 space-y-4">
+      <div>
+        <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-1 flex items-center gap-2">
+          <Swords className="w-4 h-4" /> {t('duel.title')}
+        </h3>
+        <p className="text-[11px] text-stone-400 font-medium">{t('duel.hint')}</p>
+      </div>
+
+      {opponents.length === 0 ? (
+        <p className="text-sm text-stone-500">{t('duel.needSecondPlayer')}</p>
+      ) : (
+        <>
+          <div>
+            <p className="text-[10px] uppercase font-bold text-stone-400 tracking-wider mb-2">{t('duel.against')}</p>
+            <div className="flex flex-wrap gap-2">
+              {opponents.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setOpponentId(p.id)}
+                  className={`
+                    px-3 py-2 rounded-xl font-bold text-sm transition-all flex items-center gap-2
+                    ${opponent?.id === p.id
+                      ? 'bg-purple-500 text-white shadow-lg shadow-purple-200'
+                      : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}
+                  `}
+                >
+                  <span>{p.avatar}</span> {p.name || t('profiles.newPlayer')}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={() => opponent && onStart(opponent.id)}
+            disabled={!canStart || !opponent}
+            className={`
+              w-full py-3 rounded-xl font-bold transition-colors flex items-center justify-center gap-2
+              ${canStart && opponent
+                ? 'bg-purple-600 text-white hover:bg-purple-700'
+                : 'bg-stone-200 text-stone-400 cursor-not-allowed'}
+            `}
+          >
+            <Swords className="w-4 h-4" /> {t('duel.start')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
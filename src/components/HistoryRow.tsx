@@ -0,0 +1,40 @@
+import React from 'react';
+import { CheckCircle2, Clock, XCircle } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { formatExercise, formatSeconds } from '../lib/format';
+import { t } from '../lib/i18n';
+
+interface HistoryRowProps {
+  item: HistoryEntry;
+}
+
+export default function HistoryRow({ item }: HistoryRowProps) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="flex flex-col text-left">
+        <span className="text-stone-600 font-medium">{formatExercise(item.exercise)}</span>
+        {!item.correct && (
+          <span className="text-[11px] text-red-500">
+            {item.timedOut
+              ? t('history.timedOut')
+              : item.answer !== null
+                ? t('history.wrongAnswer', { answer: item.answer, result: item.exercise.result })
+                : t('history.rightAnswer', { result: item.exercise.result })}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {item.responseTimeMs !== undefined && (
+          <span className="text-xs font-mono text-stone-400">{formatSeconds(item.responseTimeMs)}</span>
+        )}
+        {item.correct ? (
+          <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+        ) : item.timedOut ? (
+          <Clock className="w-4 h-4 text-orange-500" />
+        ) : (
+          <XCircle className="w-4 h-4 text-red-500" />
+        )}
+      </div>
+    </div>
+  );
+}
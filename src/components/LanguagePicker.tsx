@@ -0,0 +1,36 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Locale } from '../types';
+import { LOCALES, t } from '../lib/i18n';
+
+interface LanguagePickerProps {
+  language: Locale;
+  onChange: (language: Locale) => void;
+}
+
+export default function LanguagePicker({ language, onChange }: LanguagePickerProps) {
+  return (
+    <div>
+      <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
+        <Languages className="w-4 h-4" /> {t('settings.language')}
+      </h3>
+      <div className="grid grid-cols-3 gap-2">
+        {LOCALES.map(({ locale, label }) => (
+          <button
+            key={locale}
+            lang={locale}
+            onClick={() => onChange(locale)}
+            className={`
+              h-12 rounded-xl font-bold transition-all duration-200
+              ${language === locale
+                ? 'bg-purple-500 text-white shadow-lg shadow-purple-200 scale-105'
+                : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+            `}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
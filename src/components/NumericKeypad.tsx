@@ -0,0 +1,60 @@
+import React from 'react';
+import { Check, Delete } from 'lucide-react';
+import { t } from '../lib/i18n';
+
+interface NumericKeypadProps {
+  disabled: boolean;
+  canSubmit: boolean;
+  onDigit: (digit: string) => void;
+  onBackspace: () => void;
+  onSubmit: () => void;
+}
+
+const DIGITS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+const KEY = 'h-16 rounded-2xl text-3xl font-bold transition-all flex items-center justify-center active:scale-95 disabled:opacity-40 disabled:active:scale-100';
+
+// Phone layout, big enough for small fingers; it replaces the system keyboard on tablets
+export default function NumericKeypad({ disabled, canSubmit, onDigit, onBackspace, onSubmit }: NumericKeypadProps) {
+  return (
+    <div role="group" aria-label={t('practice.keypad')} className="grid grid-cols-3 gap-2">
+      {DIGITS.map(digit => (
+        <button
+          key={digit}
+          type="button"
+          disabled={disabled}
+          onClick={() => onDigit(digit)}
+          className={`${KEY} bg-stone-100 text-stone-700 hover:bg-stone-200`}
+        >
+          {digit}
+        </button>
+      ))}
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onBackspace}
+        aria-label={t('practice.backspace')}
+        className={`${KEY} bg-stone-100 text-stone-400 hover:bg-stone-200`}
+      >
+        <Delete className="w-7 h-7" />
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onDigit('0')}
+        className={`${KEY} bg-stone-100 text-stone-700 hover:bg-stone-200`}
+      >
+        0
+      </button>
+      <button
+        type="button"
+        disabled={disabled || !canSubmit}
+        onClick={onSubmit}
+        aria-label={t('practice.check')}
+        className={`${KEY} bg-emerald-600 text-white hover:bg-emerald-700 shadow-lg shadow-emerald-100`}
+      >
+        <Check className="w-8 h-8" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Flame, Target } from 'lucide-react';
+import { DailyGoal, SessionResult } from '../types';
+import { DAYS_PER_FREEZE, MAX_FREEZES, activityByDay, computeStreak, dayKey, goalLabel, goalProgress } from '../lib/streaks';
+import { formatDate, t } from '../lib/i18n';
+
+// 1 January 2024 was a Monday
+const WEEK = Array.from({ length: 7 }, (_, i) => new Date(2024, 0, 1 + i));
+const GOAL_TARGETS: Record<DailyGoal['unit'], number[]> = {
+  sums: [20, 50, 100],
+  minutes: [5, 10, 15, 20]
+};
+
+interface PracticeCalendarProps {
+  sessions: SessionResult[];
+  goal: DailyGoal;
+  onChangeGoal: (goal: DailyGoal) => void;
+  onBack: () => void;
+}
+
+function dayColor(progress: number, frozen: boolean): string {
+  if (frozen) return 'bg-sky-100 text-sky-600';
+  if (progress >= 1) return 'bg-emerald-500 text-white';
+  if (progress >= 0.5) return 'bg-emerald-300 text-emerald-900';
+  if (progress > 0) return 'bg-emerald-100 text-emerald-700';
+  return 'bg-stone-100 text-stone-400';
+}
+
+export default function PracticeCalendar({ sessions, goal, onChangeGoal, onBack }: PracticeCalendarProps) {
+  const now = Date.now();
+  const [month, setMonth] = useState(() => {
+    const date = new Date(now);
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  });
+  const days = useMemo(() => activityByDay(sessions), [sessions]);
+  const streak = useMemo(() => computeStreak(sessions, goal, now), [sessions, goal]);
+  const today = dayKey(now);
+  const weekdays = WEEK.map(date => formatDate(date, { weekday: 'short' }));
+
+  // Weeks start on Monday; the blanks before the 1st line it up under the right weekday
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const blanks = (month.getDay() + 6) % 7;
+  const dates = Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1, 12));
+
+  const changeMonth = (delta: number) => setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  const optionClass = (active: boolean) => `
+    h-10 rounded-xl text-sm font-bold transition-all duration-200
+    ${active
+      ? 'bg-orange-400 text-white shadow-lg shadow-orange-100 scale-105'
+      : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+  `;
+
+  return (
+    <div className="glass rounded-3xl p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onBack}
+          className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors"
+        >
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 text-stone-700">
+          <CalendarDays className="w-5 h-5" /> {t('calendar.title')}
+        </h2>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="bg-orange-50 p-4 rounded-2xl">
+          <div className="text-2xl font-bold text-orange-500 flex items-center justify-center gap-1">
+            <Flame className="w-5 h-5" /> {streak.current}
+          </div>
+          <div className="text-[10px] text-orange-600/60 font-bold uppercase tracking-wider">{t('calendar.streak')}</div>
+        </div>
+        <div className="bg-amber-50 p-4 rounded-2xl">
+          <div className="text-2xl font-bold text-amber-600">{streak.best}</div>
+          <div className="text-[10px] text-amber-600/60 font-bold uppercase tracking-wider">{t('calendar.bestStreak')}</div>
+        </div>
+        <div className="bg-sky-50 p-4 rounded-2xl">
+          <div className="text-2xl font-bold text-sky-600">❄️ {streak.freezes}</div>
+          <div className="text-[10px] text-sky-600/60 font-bold uppercase tracking-wider">{t('calendar.jokers')}</div>
+        </div>
+      </div>
+      <p className="text-xs text-stone-500">
+        {t('calendar.jokerHint', { days: DAYS_PER_FREEZE, max: MAX_FREEZES })}
+      </p>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <button onClick={() => changeMonth(-1)} className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors">
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="font-bold text-stone-700 capitalize">
+            {formatDate(month, { month: 'long', year: 'numeric' })}
+          </span>
+          <button onClick={() => changeMonth(1)} className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors">
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {weekdays.map(day => (
+            <div key={day} className="text-center text-[10px] font-bold uppercase text-stone-400">{day}</div>
+          ))}
+          {Array.from({ length: blanks }, (_, i) => <div key={`blank-${i}`} />)}
+          {dates.map(date => {
+            const key = dayKey(date.getTime());
+            const activity = days.get(key);
+            const frozen = streak.frozenDays.includes(key);
+            const future = key > today;
+            return (
+              <div
+                key={key}
+                title={activity ? t('calendar.dayTitle', { sums: t('practice.sums', { count: activity.sums }), minutes: Math.round(activity.ms / 60000) }) : undefined}
+                className={`
+                  aspect-square rounded-lg flex items-center justify-center text-xs font-bold
+                  ${future ? 'text-stone-300' : dayColor(goalProgress(activity, goal), frozen)}
+                  ${key === today ? 'ring-2 ring-purple-400' : ''}
+                `}
+              >
+                {frozen ? '❄️' : date.getDate()}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex flex-wrap gap-3 text-[10px] text-stone-500 font-medium">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-emerald-500" /> {t('calendar.goalReached')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-emerald-300" /> {t('calendar.overHalf')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-emerald-100" /> {t('calendar.aLittle')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-sky-100" /> {t('calendar.jokerUsed')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-stone-100" /> {t('calendar.notPractised')}</span>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-4 flex items-center gap-2">
+          <Target className="w-4 h-4" /> {t('calendar.dailyGoal', { goal: goalLabel(goal) })}
+        </h3>
+        <div className="grid grid-cols-2 gap-2">
+          {(['sums', 'minutes'] as const).map(unit => (
+            <button
+              key={unit}
+              onClick={() => onChangeGoal({ unit, target: GOAL_TARGETS[unit][1] })}
+              className={`
+                h-12 rounded-xl font-bold transition-all duration-200
+                ${goal.unit === unit
+                  ? 'bg-purple-500 text-white shadow-lg shadow-purple-200 scale-105'
+                  : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+              `}
+            >
+              {unit === 'sums' ? t('calendar.sums') : t('calendar.minutes')}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-4 gap-2 mt-3">
+          {GOAL_TARGETS[goal.unit].map(target => (
+            <button
+              key={target}
+              onClick={() => onChangeGoal({ ...goal, target })}
+              className={optionClass(goal.target === target)}
+            >
+              {target}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
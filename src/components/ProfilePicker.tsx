@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { Profile } from '../types';
+import { AVATARS } from '../lib/storage';
+import { t } from '../lib/i18n';
+
+interface ProfilePickerProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSelect: (profileId: string) => void;
+  onCreate: () => void;
+  onChangeAvatar: (avatar: string) => void;
+  onDelete: (profileId: string) => void;
+}
+
+export default function ProfilePicker({ profiles, activeProfileId, onSelect, onCreate, onChangeAvatar, onDelete }: ProfilePickerProps) {
+  const [showAvatars, setShowAvatars] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const active = profiles.find(p => p.id === activeProfileId);
+
+  const handleDelete = () => {
+    if (confirmDelete) {
+      onDelete(activeProfileId);
+      setConfirmDelete(false);
+    } else {
+      setConfirmDelete(true);
+      // Reset after 3 seconds if not clicked
+      setTimeout(() => setConfirmDelete(false), 3000);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 flex items-center gap-2">
+          <Users className="w-4 h-4" /> {t('profiles.title')}
+        </h3>
+        {profiles.length > 1 && (
+          <button
+            onClick={handleDelete}
+            className={`
+              flex items-center gap-1 px-2 py-1 rounded-lg transition-all text-xs font-bold
+              ${confirmDelete
+                ? 'bg-red-100 text-red-600'
+                : 'text-stone-300 hover:text-red-400'}
+            `}
+            title={t('profiles.delete')}
+          >
+            {confirmDelete ? t('profiles.confirmDelete', { name: active?.name || t('profiles.player') }) : <Trash2 className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => {
+              if (profile.id === activeProfileId) {
+                setShowAvatars(prev => !prev);
+              } else {
+                setShowAvatars(false);
+                onSelect(profile.id);
+              }
+            }}
+            title={profile.id === activeProfileId ? t('profiles.changeAvatar') : undefined}
+            className={`
+              flex items-center gap-2 pl-2 pr-4 h-12 rounded-xl font-bold transition-all duration-200
+              ${profile.id === activeProfileId
+                ? 'bg-purple-500 text-white shadow-lg shadow-purple-200 scale-105'
+                : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+            `}
+          >
+            <span className="text-2xl">{profile.avatar}</span>
+            <span>{profile.name || t('profiles.newPlayer')}</span>
+          </button>
+        ))}
+        <button
+          onClick={onCreate}
+          className="w-12 h-12 rounded-xl bg-stone-100 text-stone-400 hover:bg-stone-200 flex items-center justify-center transition-all"
+          title={t('profiles.newPlayer')}
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+
+      {showAvatars && (
+        <div className="mt-3 flex flex-wrap gap-2 p-3 bg-stone-50 rounded-xl">
+          {AVATARS.map(avatar => (
+            <button
+              key={avatar}
+              onClick={() => {
+                onChangeAvatar(avatar);
+                setShowAvatars(false);
+              }}
+              className={`w-10 h-10 rounded-lg text-2xl transition-all ${active?.avatar === avatar ? 'bg-purple-100 scale-110' : 'hover:bg-stone-200'}`}
+            >
+              {avatar}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React from 'react';
+import { formatDate } from '../lib/i18n';
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PAD = { top: 10, right: 10, bottom: 18, left: 36 };
+
+export interface ChartPoint {
+  id: string;
+  timestamp: number;
+  value: number;
+}
+
+interface ProgressChartProps {
+  title: string;
+  points: ChartPoint[];
+  max: number; // Top of the y axis; the bottom is always 0
+  color: string; // Any SVG colour
+  formatValue: (value: number) => string;
+  highlightId?: string;
+}
+
+// Sessions are spaced evenly rather than by date, so a busy week doesn't squash everything into one corner
+export default function ProgressChart({ title, points, max, color, formatValue, highlightId }: ProgressChartProps) {
+  const innerWidth = WIDTH - PAD.left - PAD.right;
+  const innerHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (points.length > 1 ? (i / (points.length - 1)) * innerWidth : innerWidth / 2);
+  const y = (value: number) => PAD.top + innerHeight - (Math.min(value, max) / (max || 1)) * innerHeight;
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  const date = (timestamp: number) => formatDate(timestamp, { day: 'numeric', month: 'short' });
+
+  return (
+    <figure className="space-y-1">
+      <figcaption className="text-[10px] font-bold uppercase tracking-wider text-stone-400">{title}</figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        {[0, 0.5, 1].map(fraction => (
+          <g key={fraction}>
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(max * fraction)}
+              y2={y(max * fraction)}
+              stroke="#e7e5e4"
+              strokeDasharray={fraction === 0 ? undefined : '3 3'}
+            />
+            <text x={PAD.left - 4} y={y(max * fraction) + 3} textAnchor="end" fontSize="9" fill="#a8a29e">
+              {formatValue(max * fraction)}
+            </text>
+          </g>
+        ))}
+        {points.length > 0 && (
+          <>
+            <path d={path} fill="none" stroke={color} strokeWidth="2" strokeLinejoin="round" strokeLinecap="round" />
+            {points.map((p, i) => (
+              <circle
+                key={p.id}
+                cx={x(i)}
+                cy={y(p.value)}
+                r={p.id === highlightId ? 5 : 2.5}
+                fill={p.id === highlightId ? color : 'white'}
+                stroke={color}
+                strokeWidth="1.5"
+              >
+                <title>{`${date(p.timestamp)}: ${formatValue(p.value)}`}</title>
+              </circle>
+            ))}
+            <text x={PAD.left} y={HEIGHT - 4} fontSize="9" fill="#a8a29e">{date(points[0].timestamp)}</text>
+            {points.length > 1 && (
+              <text x={WIDTH - PAD.right} y={HEIGHT - 4} textAnchor="end" fontSize="9" fill="#a8a29e">
+                {date(points[points.length - 1].timestamp)}
+              </text>
+            )}
+          </>
+        )}
+      </svg>
+    </figure>
+  );
+}
@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import { SessionResult } from '../types';
+import { ProgressFilter, Trend, describeTrend, filterLabel, monthTrend, notableTrends, progressFilters, progressSeries, trendDirection } from '../lib/progress';
+import { formatSeconds } from '../lib/format';
+import { formatNumber, t } from '../lib/i18n';
+import ProgressChart from './ProgressChart';
+
+interface ProgressPanelProps {
+  sessions: SessionResult[]; // All sessions of one player
+  highlightId?: string; // The session to mark on the charts
+}
+
+function TrendLine({ trend }: { trend: Trend }) {
+  const direction = trendDirection(trend);
+  const Icon = direction === 'better' ? TrendingUp : direction === 'worse' ? TrendingDown : Minus;
+  const color = direction === 'better' ? 'text-emerald-600' : direction === 'worse' ? 'text-orange-500' : 'text-stone-400';
+  return (
+    <p className={`flex items-center gap-2 text-xs font-bold ${color}`}>
+      <Icon className="w-4 h-4 shrink-0" /> {describeTrend(trend)}
+    </p>
+  );
+}
+
+export default function ProgressPanel({ sessions, highlightId }: ProgressPanelProps) {
+  const [filter, setFilter] = useState<ProgressFilter>('');
+  const now = Date.now();
+  const filters = useMemo(() => progressFilters(sessions), [sessions]);
+  const series = useMemo(() => progressSeries(sessions, filter), [sessions, filter]);
+  const trend = useMemo(() => monthTrend(sessions, filter, now), [sessions, filter]);
+  const notable = useMemo(() => notableTrends(sessions, now), [sessions]);
+
+  if (sessions.length < 2) return null;
+
+  const accuracyPoints = series.map(p => ({ id: p.sessionId, timestamp: p.timestamp, value: p.accuracy * 100 }));
+  const timePoints = series
+    .filter(p => p.averageTimeMs !== undefined)
+    .map(p => ({ id: p.sessionId, timestamp: p.timestamp, value: p.averageTimeMs! }));
+  const slowest = Math.max(1000, ...timePoints.map(p => p.value));
+  // Round the time axis up to whole seconds so its labels stay readable
+  const timeMax = Math.ceil(slowest / 1000) * 1000;
+
+  return (
+    <div className="space-y-4 text-left">
+      <select
+        value={filter}
+        onChange={e => setFilter(e.target.value)}
+        className="w-full px-3 py-2 rounded-xl bg-stone-100 outline-none font-medium text-stone-600 text-sm"
+      >
+        {filters.map(f => (
+          <option key={f} value={f}>{filterLabel(f)}</option>
+        ))}
+      </select>
+
+      {series.length === 0 ? (
+        <p className="text-sm text-stone-400 text-center py-2">{t('progress.noSums')}</p>
+      ) : (
+        <>
+          <ProgressChart
+            title={t('progress.accuracy')}
+            points={accuracyPoints}
+            max={100}
+            color="#10b981"
+            formatValue={value => formatNumber(value / 100, { style: 'percent' })}
+            highlightId={highlightId}
+          />
+          <ProgressChart
+            title={t('progress.timePerSum')}
+            points={timePoints}
+            max={timeMax}
+            color="#8b5cf6"
+            formatValue={value => formatSeconds(value)}
+            highlightId={highlightId}
+          />
+        </>
+      )}
+
+      <div className="space-y-1">
+        {trend && <TrendLine trend={trend} />}
+        {filter === '' && notable.map(t => (
+          <div key={t.filter}>
+            <TrendLine trend={t} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
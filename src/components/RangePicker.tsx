@@ -0,0 +1,40 @@
+import React from 'react';
+import { NumberRange } from '../types';
+import { MAX_TABLE, MIN_TABLE, clampRange, rangeValues } from '../lib/pool';
+import { t } from '../lib/i18n';
+
+const OPTIONS = rangeValues({ min: MIN_TABLE, max: MAX_TABLE });
+
+interface RangePickerProps {
+  label: string;
+  range: NumberRange;
+  onChange: (range: NumberRange) => void;
+  disabled?: boolean;
+}
+
+export default function RangePicker({ label, range, onChange, disabled = false }: RangePickerProps) {
+  // Moving one end past the other drags the other end along
+  const setMin = (min: number) => onChange(clampRange({ min, max: Math.max(min, range.max) }));
+  const setMax = (max: number) => onChange(clampRange({ min: Math.min(max, range.min), max }));
+
+  const selectClass = `
+    px-3 py-2 rounded-xl bg-stone-100 outline-none font-bold text-stone-600
+    ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+  `;
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-xs font-bold text-stone-400">{label}</span>
+      <span className="flex items-center gap-2 text-xs font-medium text-stone-400">
+        {t('range.from')}
+        <select value={range.min} disabled={disabled} onChange={(e) => setMin(Number(e.target.value))} className={selectClass}>
+          {OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+        {t('range.to')}
+        <select value={range.max} disabled={disabled} onChange={(e) => setMax(Number(e.target.value))} className={selectClass}>
+          {OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+      </span>
+    </div>
+  );
+}
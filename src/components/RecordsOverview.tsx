@@ -0,0 +1,66 @@
+import React from 'react';
+import { ChevronLeft, Timer, Trophy } from 'lucide-react';
+import { PersonalRecord, describeSubject, recordValue, showsEarlierBest } from '../lib/records';
+import { formatSeconds } from '../lib/format';
+import { formatDate, t } from '../lib/i18n';
+
+interface RecordsOverviewProps {
+  records: PersonalRecord[];
+  earlierBest?: number;
+  onBack: () => void;
+}
+
+export default function RecordsOverview({ records, earlierBest, onBack }: RecordsOverviewProps) {
+  const showEarlier = showsEarlierBest(records, earlierBest);
+
+  return (
+    <div className="glass rounded-3xl p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onBack}
+          className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors"
+        >
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-xl font-semibold flex items-center gap-2 text-stone-700">
+          <Trophy className="w-5 h-5" /> {t('records.title')}
+        </h2>
+      </div>
+
+      <p className="text-xs text-stone-500">
+        {t('records.explanation')}
+      </p>
+
+      {records.length === 0 && !showEarlier && (
+        <p className="text-sm text-stone-400 text-center py-2">{t('records.none')}</p>
+      )}
+
+      <div className="space-y-2">
+        {records.map(record => (
+          <div
+            key={record.key}
+            className="flex items-center justify-between gap-3 py-3 px-4 bg-white/50 rounded-xl border border-stone-100"
+          >
+            <div className="min-w-0">
+              <p className="font-bold text-stone-700 text-sm">{describeSubject(record.subject)}</p>
+              <p className="text-[10px] text-stone-400">{formatDate(record.session.timestamp)}</p>
+            </div>
+            <span className="shrink-0 font-mono font-bold text-amber-600 flex items-center gap-1">
+              {record.subject.timer.mode === 'sprint' ? <Timer className="w-3 h-3" /> : <Trophy className="w-3 h-3" />}
+              {recordValue(record.session)}
+            </span>
+          </div>
+        ))}
+        {showEarlier && (
+          <div className="flex items-center justify-between gap-3 py-3 px-4 bg-white/50 rounded-xl border border-stone-100">
+            <p className="font-bold text-stone-700 text-sm min-w-0">{t('records.earlier')}</p>
+            <span className="shrink-0 font-mono font-bold text-amber-600 flex items-center gap-1">
+              <Trophy className="w-3 h-3" />
+              {t('records.perSum', { time: formatSeconds(earlierBest, 2) })}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { History, Play, Square } from 'lucide-react';
+import { PracticeSession } from '../lib/engine';
+import { t } from '../lib/i18n';
+
+interface ResumePromptProps {
+  session: PracticeSession;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+export default function ResumePrompt({ session, onResume, onStop }: ResumePromptProps) {
+  const { correct, total } = session.stats;
+  const progress = session.timer.mode === 'sprint'
+    ? t('resume.sprintProgress', { count: total, correct })
+    : t('resume.progress', { answered: total, total: session.plannedTotal, correct });
+
+  return (
+    <div className="bg-emerald-50 border border-emerald-100 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="bg-emerald-100 p-2 rounded-xl text-emerald-600">
+          <History className="w-5 h-5" />
+        </div>
+        <div>
+          <p className="text-[10px] uppercase font-bold text-emerald-600/60 tracking-wider">{t('resume.title')}</p>
+          <p className="text-sm font-bold text-emerald-900">{progress}</p>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onResume}
+          className="py-3 rounded-xl bg-emerald-600 text-white font-bold hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
+        >
+          <Play className="w-4 h-4 fill-current" /> {t('resume.continue')}
+        </button>
+        <button
+          onClick={onStop}
+          className="py-3 rounded-xl bg-white text-stone-500 font-bold hover:bg-stone-100 transition-colors flex items-center justify-center gap-2"
+        >
+          <Square className="w-4 h-4" /> {t('resume.stop')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { Filter, History, Info, Trash2 } from 'lucide-react';
+import { Profile, SessionResult } from '../types';
+import { SessionQuery, historyStore } from '../lib/historyStore';
+import { MAX_TABLE, MIN_TABLE, rangeValues } from '../lib/pool';
+import { levelLabel } from '../lib/arithmetic';
+import { formatDate, t } from '../lib/i18n';
+
+const PAGE_SIZE = 5;
+const TABLES = rangeValues({ min: MIN_TABLE, max: MAX_TABLE });
+
+interface SessionListProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  refreshToken: unknown; // Reloads the first page whenever this changes
+  onSelect: (session: SessionResult) => void;
+  onClear: () => void;
+}
+
+// Midnight at the start of a yyyy-mm-dd day in local time; new Date(value) would read it as UTC
+function parseDate(value: string, addDays = 0): number | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).getTime();
+}
+
+export default function SessionList({ profiles, activeProfileId, refreshToken, onSelect, onClear }: SessionListProps) {
+  const [sessions, setSessions] = useState<SessionResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [profileFilter, setProfileFilter] = useState<string>(activeProfileId);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [tableFilter, setTableFilter] = useState('');
+
+  useEffect(() => {
+    setProfileFilter(activeProfileId);
+  }, [activeProfileId]);
+
+  const buildQuery = (offset: number): SessionQuery => {
+    const [op, table] = tableFilter.split('-');
+    return {
+      profileId: profileFilter || undefined,
+      from: parseDate(from),
+      // Include the whole "to" day
+      to: to ? parseDate(to, 1)! - 1 : undefined,
+      multiplicationTables: op === 'multiplication' ? [Number(table)] : undefined,
+      divisionTables: op === 'division' ? [Number(table)] : undefined,
+      offset,
+      limit: PAGE_SIZE
+    };
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    historyStore.query(buildQuery(0)).then(page => {
+      if (cancelled) return;
+      setSessions(page.sessions);
+      setHasMore(page.hasMore);
+    }).catch(e => console.warn('Historiek laden mislukt:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshToken, profileFilter, from, to, tableFilter]);
+
+  const loadMore = () => {
+    historyStore.query(buildQuery(sessions.length)).then(page => {
+      setSessions(prev => [...prev, ...page.sessions]);
+      setHasMore(page.hasMore);
+    }).catch(e => console.warn('Historiek laden mislukt:', e));
+  };
+
+  const clearHistory = () => {
+    if (showClearConfirm) {
+      onClear();
+      setShowClearConfirm(false);
+    } else {
+      setShowClearConfirm(true);
+      // Reset after 3 seconds if not clicked
+      setTimeout(() => setShowClearConfirm(false), 3000);
+    }
+  };
+
+  const hasFilters = profileFilter !== activeProfileId || from !== '' || to !== '' || tableFilter !== '';
+  if (sessions.length === 0 && !hasFilters) return null;
+
+  return (
+    <div className="glass rounded-3xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 flex items-center gap-2">
+          <History className="w-4 h-4" /> {t('sessions.title')}
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowFilters(prev => !prev)}
+            className={`p-1 rounded-lg transition-all ${showFilters || hasFilters ? 'text-purple-500' : 'text-stone-300 hover:text-purple-400'}`}
+            title={t('sessions.filter')}
+          >
+            <Filter className="w-4 h-4" />
+          </button>
+          <button
+            onClick={clearHistory}
+            className={`
+              flex items-center gap-1 px-2 py-1 rounded-lg transition-all text-xs font-bold
+              ${showClearConfirm
+                ? 'bg-red-100 text-red-600'
+                : 'text-stone-300 hover:text-red-400'}
+            `}
+            title={t('sessions.clear')}
+          >
+            {showClearConfirm ? t('common.sure') : <Trash2 className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <select
+            value={profileFilter}
+            onChange={e => setProfileFilter(e.target.value)}
+            className="px-3 py-2 rounded-xl bg-stone-100 outline-none font-medium text-stone-600"
+          >
+            <option value="">{t('sessions.allPlayers')}</option>
+            {profiles.map(p => (
+              <option key={p.id} value={p.id}>{p.avatar} {p.name || t('profiles.newPlayer')}</option>
+            ))}
+          </select>
+          <select
+            value={tableFilter}
+            onChange={e => setTableFilter(e.target.value)}
+            className="px-3 py-2 rounded-xl bg-stone-100 outline-none font-medium text-stone-600"
+          >
+            <option value="">{t('sessions.allTables')}</option>
+            {TABLES.map(n => (
+              <option key={`mul-${n}`} value={`multiplication-${n}`}>× {n}</option>
+            ))}
+            {TABLES.filter(n => n > 0).map(n => (
+              <option key={`div-${n}`} value={`division-${n}`}>÷ {n}</option>
+            ))}
+          </select>
+          <label className="flex flex-col gap-1 text-stone-400 font-bold uppercase text-[10px]">
+            {t('sessions.from')}
+            <input
+              type="date"
+              value={from}
+              onChange={e => setFrom(e.target.value)}
+              className="px-3 py-2 rounded-xl bg-stone-100 outline-none font-medium text-stone-600 normal-case text-xs"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-stone-400 font-bold uppercase text-[10px]">
+            {t('sessions.to')}
+            <input
+              type="date"
+              value={to}
+              onChange={e => setTo(e.target.value)}
+              className="px-3 py-2 rounded-xl bg-stone-100 outline-none font-medium text-stone-600 normal-case text-xs"
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {sessions.length === 0 && (
+          <p className="text-sm text-stone-400 text-center py-2">{t('sessions.none')}</p>
+        )}
+        {sessions.map((result) => (
+          <button
+            key={result.id}
+            onClick={() => onSelect(result)}
+            className="w-full flex flex-col py-3 px-4 bg-white/50 rounded-xl border border-stone-100 space-y-1 hover:bg-white hover:border-purple-200 transition-all text-left"
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-bold text-stone-700">{result.playerName}</span>
+              <div className="flex items-center gap-2">
+                <span className="font-mono font-bold text-emerald-600">
+                  {result.correct} / {result.total}
+                </span>
+                <Info className="w-3 h-3 text-stone-300" />
+              </div>
+            </div>
+            <div className="text-[10px] text-stone-400 flex flex-wrap gap-1">
+              <span>{formatDate(result.timestamp)}</span>
+              {result.partial && <span>· {t('sessions.partial')}</span>}
+              {result.duel && (
+                <span>· {t('sessions.duel', { name: result.duel.opponentName, score: result.duel.score, opponentScore: result.duel.opponentScore })}</span>
+              )}
+              {(result.multiplicationTables?.length ?? 0) > 0 && (
+                <span>· ×: {result.multiplicationTables.join(', ')}</span>
+              )}
+              {(result.divisionTables?.length ?? 0) > 0 && (
+                <span>· ÷: {result.divisionTables.join(', ')}</span>
+              )}
+              {result.additionLevels && result.additionLevels.length > 0 && (
+                <span>· +: {result.additionLevels.map(levelLabel).join(', ')}</span>
+              )}
+              {result.subtractionLevels && result.subtractionLevels.length > 0 && (
+                <span>· −: {result.subtractionLevels.map(levelLabel).join(', ')}</span>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {hasMore && (
+        <button
+          onClick={loadMore}
+          className="w-full py-2 rounded-xl bg-stone-100 text-stone-500 font-bold text-sm hover:bg-stone-200 transition-colors"
+        >
+          {t('sessions.loadMore')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Check, Copy, Link2 } from 'lucide-react';
+import { SharedPractice } from '../types';
+import { describePractice, encodePracticeCode, practiceLink } from '../lib/practiceCode';
+import { randomSeed } from '../lib/random';
+import { t } from '../lib/i18n';
+
+interface SharePanelProps {
+  practice: Omit<SharedPractice, 'seed'>;
+  disabled: boolean;
+}
+
+export default function SharePanel({ practice, disabled }: SharePanelProps) {
+  const [shared, setShared] = useState<{ link: string; description: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Every link gets a fresh seed, so each new link is a new quiz
+  const createLink = () => {
+    const full = { ...practice, seed: randomSeed() };
+    setShared({ link: practiceLink(encodePracticeCode(full)), description: describePractice(full) });
+    setCopied(false);
+  };
+
+  const copyLink = async () => {
+    if (!shared) return;
+    try {
+      await navigator.clipboard.writeText(shared.link);
+      setCopied(true);
+    } catch (e) {
+      console.warn('Kopiëren mislukt:', e);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
+        <Link2 className="w-4 h-4" /> {t('share.title')}
+      </h3>
+      <button
+        onClick={createLink}
+        disabled={disabled}
+        className={`
+          w-full h-12 rounded-xl font-bold text-xs transition-all
+          ${disabled ? 'bg-stone-100 text-stone-300 cursor-not-allowed' : 'bg-stone-100 text-stone-500 hover:bg-stone-200'}
+        `}
+      >
+        {shared ? t('share.newLink') : t('share.createLink')}
+      </button>
+
+      {shared && (
+        <div className="mt-3 p-4 bg-stone-50 rounded-xl space-y-2">
+          <p className="text-xs text-stone-500 font-medium">{shared.description}</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={shared.link}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-white border border-stone-100 text-xs font-mono text-stone-500 outline-none"
+            />
+            <button
+              onClick={copyLink}
+              className="px-3 rounded-xl bg-purple-600 text-white hover:bg-purple-700 transition-colors flex items-center gap-1 text-xs font-bold"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? t('share.copied') : t('share.copy')}
+            </button>
+          </div>
+          <p className="text-[11px] text-stone-400 font-medium">
+            {t('share.explanation')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
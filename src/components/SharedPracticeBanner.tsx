@@ -0,0 +1,38 @@
+import React from 'react';
+import { Link2, Play, X } from 'lucide-react';
+import { SharedPractice } from '../types';
+import { describePractice } from '../lib/practiceCode';
+import { t } from '../lib/i18n';
+
+interface SharedPracticeBannerProps {
+  practice: SharedPractice;
+  onStart: () => void;
+  onDismiss: () => void;
+}
+
+export default function SharedPracticeBanner({ practice, onStart, onDismiss }: SharedPracticeBannerProps) {
+  return (
+    <div className="bg-purple-50 border border-purple-100 rounded-2xl p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="bg-purple-100 p-2 rounded-xl text-purple-600">
+            <Link2 className="w-5 h-5" />
+          </div>
+          <div>
+            <p className="text-[10px] uppercase font-bold text-purple-600/60 tracking-wider">{t('share.sharedPractice')}</p>
+            <p className="text-sm font-bold text-purple-900">{describePractice(practice)}</p>
+          </div>
+        </div>
+        <button onClick={onDismiss} className="p-1 text-purple-300 hover:text-purple-500" title={t('share.notNow')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <button
+        onClick={onStart}
+        className="w-full py-3 rounded-xl bg-purple-600 text-white font-bold hover:bg-purple-700 transition-colors flex items-center justify-center gap-2"
+      >
+        <Play className="w-4 h-4 fill-current" /> {t('share.start')}
+      </button>
+    </div>
+  );
+}
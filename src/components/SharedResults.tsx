@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { SessionResult } from '../types';
+import { historyStore } from '../lib/historyStore';
+import { formatSeconds } from '../lib/format';
+import { t } from '../lib/i18n';
+
+interface SharedResultsProps {
+  practiceCode: string;
+  currentId: string;
+}
+
+// Everyone who played the same practice link on this device (or a synced one), best score first
+export default function SharedResults({ practiceCode, currentId }: SharedResultsProps) {
+  const [sessions, setSessions] = useState<SessionResult[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    historyStore.query({ practiceCode }).then(page => {
+      if (!cancelled) setSessions(page.sessions);
+    }).catch(e => console.warn('Resultaten laden mislukt:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [practiceCode]);
+
+  if (sessions.length < 2) return null;
+
+  const ranked = [...sessions].sort((x, y) =>
+    y.correct - x.correct || (x.averageTimePerSum ?? Infinity) - (y.averageTimePerSum ?? Infinity));
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-xs font-bold text-stone-400 uppercase tracking-widest flex items-center gap-2">
+        <Trophy className="w-3 h-3" /> {t('share.samePractice')}
+      </h4>
+      <div className="space-y-1">
+        {ranked.map((s, i) => (
+          <div
+            key={s.id}
+            className={`flex items-center justify-between text-sm py-1 px-2 rounded-lg ${s.id === currentId ? 'bg-purple-50' : ''}`}
+          >
+            <span className="font-medium text-stone-600">{i + 1}. {s.playerName}</span>
+            <span className="flex items-center gap-3 text-xs text-stone-400">
+              <span className="font-mono font-bold text-emerald-600">{s.correct} / {s.total}</span>
+              {s.averageTimePerSum !== undefined && <span>{t('records.perSum', { time: formatSeconds(s.averageTimePerSum) })}</span>}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
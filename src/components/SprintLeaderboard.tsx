@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { SessionResult } from '../types';
+import { historyStore } from '../lib/historyStore';
+import { t } from '../lib/i18n';
+
+const TOP = 10;
+
+interface SprintLeaderboardProps {
+  seconds: 60 | 120;
+  latest?: SessionResult; // Shown right away, even before the history store has it
+}
+
+export function rankSprints(sessions: SessionResult[], seconds: number): SessionResult[] {
+  return sessions
+    .filter(s => s.timer?.mode === 'sprint' && s.timer.sprintSeconds === seconds)
+    // Most correct sums first, fewer mistakes break ties
+    .sort((a, b) => b.correct - a.correct || (a.total - a.correct) - (b.total - b.correct) || a.timestamp - b.timestamp)
+    .slice(0, TOP);
+}
+
+export default function SprintLeaderboard({ seconds, latest }: SprintLeaderboardProps) {
+  const [ranking, setRanking] = useState<SessionResult[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    historyStore.query().then(page => {
+      if (cancelled) return;
+      const sessions = latest ? [latest, ...page.sessions.filter(s => s.id !== latest.id)] : page.sessions;
+      setRanking(rankSprints(sessions, seconds));
+    }).catch(e => console.warn('Ranglijst laden mislukt:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [seconds, latest]);
+
+  if (ranking.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-100 rounded-2xl p-4 text-left">
+      <p className="text-[10px] uppercase font-bold text-amber-600/60 tracking-wider mb-2 flex items-center gap-1">
+        <Trophy className="w-3 h-3" /> {t('records.sprint', { minutes: seconds / 60 })}
+      </p>
+      <ol className="space-y-1">
+        {ranking.map((session, i) => (
+          <li
+            key={session.id}
+            className={`flex items-center justify-between text-sm rounded-lg px-2 py-1 ${session.id === latest?.id ? 'bg-amber-200/60 font-bold' : ''}`}
+          >
+            <span className="text-amber-900">
+              <span className="inline-block w-6 text-amber-600 font-bold">{i + 1}.</span>
+              {session.playerName}
+            </span>
+            <span className="font-mono font-bold text-amber-700">{session.correct}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { MessageKey, formatTime, t } from '../lib/i18n';
+
+export type SyncStatus = 'idle' | 'syncing' | 'ok' | 'error' | 'unauthorized' | 'offline';
+
+interface SyncPanelProps {
+  serverUrl: string;
+  token: string;
+  status: SyncStatus;
+  lastSyncedAt: number | null;
+  onChangeServerUrl: (url: string) => void;
+  onChangeToken: (token: string) => void;
+  onSync: () => void;
+}
+
+const STATUS_TEXT: Record<SyncStatus, MessageKey> = {
+  idle: 'sync.idle',
+  syncing: 'sync.syncing',
+  ok: 'sync.ok',
+  error: 'sync.error',
+  unauthorized: 'sync.unauthorized',
+  offline: 'sync.offline'
+};
+
+export default function SyncPanel({ serverUrl, token, status, lastSyncedAt, onChangeServerUrl, onChangeToken, onSync }: SyncPanelProps) {
+  const [draftUrl, setDraftUrl] = useState(serverUrl);
+  const [draftToken, setDraftToken] = useState(token);
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3 flex items-center gap-2">
+        {serverUrl ? <Cloud className="w-4 h-4" /> : <CloudOff className="w-4 h-4" />} {t('sync.title')}
+      </h3>
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={draftUrl}
+          onChange={(e) => setDraftUrl(e.target.value)}
+          onBlur={() => onChangeServerUrl(draftUrl.trim())}
+          placeholder={t('sync.placeholder')}
+          className="flex-1 min-w-0 px-4 py-3 rounded-xl bg-stone-100 border-2 border-transparent focus:border-purple-400 focus:bg-white outline-none transition-all font-medium text-stone-700 text-sm"
+        />
+        <button
+          onClick={onSync}
+          disabled={!serverUrl || status === 'syncing'}
+          className="w-12 h-12 rounded-xl bg-stone-100 text-stone-500 hover:bg-stone-200 flex items-center justify-center transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+          title={t('sync.now')}
+        >
+          <RefreshCw className={`w-5 h-5 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+      {serverUrl && (
+        <input
+          type="password"
+          value={draftToken}
+          onChange={(e) => setDraftToken(e.target.value)}
+          onBlur={() => onChangeToken(draftToken.trim())}
+          placeholder={t('sync.token')}
+          aria-label={t('sync.token')}
+          autoComplete="off"
+          className="mt-2 w-full px-4 py-3 rounded-xl bg-stone-100 border-2 border-transparent focus:border-purple-400 focus:bg-white outline-none transition-all font-medium text-stone-700 text-sm"
+        />
+      )}
+      {serverUrl && (
+        <p className={`mt-2 text-[11px] font-medium ${status === 'error' || status === 'unauthorized' ? 'text-red-500' : 'text-stone-400'}`}>
+          {t(STATUS_TEXT[status])}
+          {status === 'ok' && lastSyncedAt && ` ${t('sync.at', { time: formatTime(lastSyncedAt) })}`}
+        </p>
+      )}
+    </div>
+  );
+}
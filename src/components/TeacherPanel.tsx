@@ -0,0 +1,398 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, CheckCircle2, ChevronLeft, Circle, ClipboardList, GraduationCap, Plus, Send, Trash2, UserPlus, X } from 'lucide-react';
+import { Assignment, ClassRoom, Profile, SessionResult, UserSettings } from '../types';
+import { assignmentProgress, createAssignment, createClass } from '../lib/classroom';
+import { historyStore } from '../lib/historyStore';
+import { DEFAULT_MULTIPLIER_RANGE, MAX_TABLE, MIN_TABLE, rangeValues } from '../lib/pool';
+import { dayKey } from '../lib/streaks';
+import RangePicker from './RangePicker';
+import { formatDate, t } from '../lib/i18n';
+
+const TABLES = rangeValues({ min: MIN_TABLE, max: MAX_TABLE });
+
+interface TeacherPanelProps {
+  teacher: Profile;
+  profiles: Profile[];
+  classes: ClassRoom[];
+  assignments: Assignment[];
+  onChangeClasses: (classes: ClassRoom[]) => void;
+  onChangeAssignments: (assignments: Assignment[]) => void;
+  onCreatePupil: (name: string) => Profile;
+  onBack: () => void;
+}
+
+type Selection = Pick<UserSettings, 'multiplicationTables' | 'divisionTables' | 'exerciseCount' | 'multiplierRange'>;
+
+const EMPTY_SELECTION: Selection = {
+  multiplicationTables: [],
+  divisionTables: [],
+  exerciseCount: 10,
+  multiplierRange: DEFAULT_MULTIPLIER_RANGE
+};
+
+function AssignmentOverview({ assignment, pupils }: { assignment: Assignment; pupils: Profile[] }) {
+  const [sessions, setSessions] = useState<SessionResult[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    historyStore.query({ assignmentId: assignment.id }).then(page => {
+      if (!cancelled) setSessions(page.sessions);
+    }).catch(e => console.warn('Resultaten laden mislukt:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [assignment.id]);
+
+  const rows = assignmentProgress(assignment, pupils, sessions);
+  const finished = rows.filter(r => r.finishedOnTime).length;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-[10px] font-bold uppercase tracking-wider text-stone-400">
+        {t('teacher.finished', { finished, total: pupils.length })}
+      </p>
+      {rows.map(row => (
+        <div key={row.pupil.id} className="flex items-center justify-between text-sm py-1 border-b border-stone-50 last:border-0">
+          <span className="flex items-center gap-2 text-stone-600 font-medium">
+            {row.finishedOnTime
+              ? <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+              : <Circle className="w-4 h-4 text-stone-300" />}
+            {row.pupil.avatar} {row.pupil.name || t('profiles.newPlayer')}
+          </span>
+          <span className="text-xs text-stone-400 flex items-center gap-2">
+            {row.best ? (
+              <>
+                <span className="font-mono font-bold text-emerald-600">{row.best.correct} / {row.best.total}</span>
+                <span>{formatDate(row.best.timestamp)}</span>
+                {row.attempts > 1 && <span>({row.attempts}×)</span>}
+              </>
+            ) : t('teacher.notDone')}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function TeacherPanel({
+  teacher,
+  profiles,
+  classes,
+  assignments,
+  onChangeClasses,
+  onChangeAssignments,
+  onCreatePupil,
+  onBack
+}: TeacherPanelProps) {
+  const ownClasses = classes.filter(c => !c.deleted && c.teacherId === teacher.id);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(ownClasses[0]?.id ?? null);
+  const [newClassName, setNewClassName] = useState('');
+  const [newPupilName, setNewPupilName] = useState('');
+  const [openAssignmentId, setOpenAssignmentId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [deadline, setDeadline] = useState(() => {
+    const today = new Date();
+    return dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 7).getTime());
+  });
+
+  const selectedClass = ownClasses.find(c => c.id === selectedClassId);
+  const pupils = selectedClass ? profiles.filter(p => selectedClass.pupilIds.includes(p.id)) : [];
+  const candidates = profiles.filter(p => p.role !== 'teacher' && !selectedClass?.pupilIds.includes(p.id));
+  const classAssignments = assignments
+    .filter(a => !a.deleted && a.classId === selectedClassId)
+    .sort((a, b) => b.deadline - a.deadline);
+
+  const updateClass = (classRoom: ClassRoom) => {
+    onChangeClasses(classes.map(c => c.id === classRoom.id ? { ...classRoom, updatedAt: Date.now() } : c));
+  };
+
+  const addClass = () => {
+    if (!newClassName.trim()) return;
+    const classRoom = createClass(newClassName.trim(), teacher.id);
+    onChangeClasses([...classes, classRoom]);
+    setSelectedClassId(classRoom.id);
+    setNewClassName('');
+  };
+
+  const removeClass = (classRoom: ClassRoom) => {
+    updateClass({ ...classRoom, deleted: true });
+    setSelectedClassId(ownClasses.find(c => c.id !== classRoom.id)?.id ?? null);
+  };
+
+  const addPupil = (pupilId: string) => {
+    if (!selectedClass) return;
+    updateClass({ ...selectedClass, pupilIds: [...selectedClass.pupilIds, pupilId] });
+  };
+
+  const createPupil = () => {
+    if (!selectedClass || !newPupilName.trim()) return;
+    const pupil = onCreatePupil(newPupilName.trim());
+    addPupil(pupil.id);
+    setNewPupilName('');
+  };
+
+  const removePupil = (pupilId: string) => {
+    if (!selectedClass) return;
+    updateClass({ ...selectedClass, pupilIds: selectedClass.pupilIds.filter(id => id !== pupilId) });
+  };
+
+  const toggleTable = (num: number, key: 'multiplicationTables' | 'divisionTables') => {
+    setSelection(prev => {
+      const current = prev[key];
+      const next = current.includes(num)
+        ? current.filter(n => n !== num)
+        : [...current, num].sort((a, b) => a - b);
+      return { ...prev, [key]: next };
+    });
+  };
+
+  const canSend = !!selectedClass && (selection.multiplicationTables.length > 0 || selection.divisionTables.length > 0) && !!deadline;
+
+  const sendAssignment = () => {
+    if (!selectedClass || !canSend) return;
+    // Open until the end of the chosen day, in local time like the date picker
+    const [year, month, day] = deadline.split('-').map(Number);
+    const end = new Date(year, month - 1, day, 23, 59, 59, 999).getTime();
+    const assignment = createAssignment(selectedClass.id, title.trim() || t('teacher.defaultTitle'), selection, end);
+    onChangeAssignments([...assignments, assignment]);
+    setTitle('');
+    setSelection(EMPTY_SELECTION);
+  };
+
+  const removeAssignment = (assignment: Assignment) => {
+    onChangeAssignments(assignments.map(a => a.id === assignment.id ? { ...a, deleted: true, updatedAt: Date.now() } : a));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="glass rounded-3xl p-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-stone-100 rounded-full text-stone-400 transition-colors"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <h2 className="text-xl font-semibold flex items-center gap-2 text-stone-700">
+            <GraduationCap className="w-5 h-5" /> {t('teacher.title')}
+          </h2>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-3">{t('teacher.classes')}</h3>
+          <div className="flex flex-wrap gap-2">
+            {ownClasses.map(c => (
+              <button
+                key={c.id}
+                onClick={() => setSelectedClassId(c.id)}
+                className={`
+                  px-4 h-12 rounded-xl font-bold transition-all duration-200
+                  ${c.id === selectedClassId
+                    ? 'bg-purple-500 text-white shadow-lg shadow-purple-200 scale-105'
+                    : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+                `}
+              >
+                {c.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <input
+              type="text"
+              value={newClassName}
+              onChange={(e) => setNewClassName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addClass()}
+              placeholder={t('teacher.newClassPlaceholder')}
+              className="flex-1 min-w-0 px-4 py-3 rounded-xl bg-stone-100 border-2 border-transparent focus:border-purple-400 focus:bg-white outline-none transition-all font-medium text-stone-700"
+            />
+            <button
+              onClick={addClass}
+              className="w-12 h-12 rounded-xl bg-stone-100 text-stone-400 hover:bg-stone-200 flex items-center justify-center transition-all"
+              title={t('teacher.addClass')}
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {selectedClass && (
+        <div className="glass rounded-3xl p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 flex items-center gap-2">
+              <UserPlus className="w-4 h-4" /> {t('teacher.pupilsOf', { name: selectedClass.name })}
+            </h3>
+            <button
+              onClick={() => removeClass(selectedClass)}
+              className="p-1 rounded-lg text-stone-300 hover:text-red-400 transition-all"
+              title={t('teacher.deleteClass')}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {pupils.length === 0 && <p className="text-sm text-stone-400">{t('teacher.noPupils')}</p>}
+            {pupils.map(p => (
+              <span key={p.id} className="flex items-center gap-2 pl-3 pr-2 py-2 bg-stone-100 rounded-xl text-stone-600 font-bold text-sm">
+                {p.avatar} {p.name || t('profiles.newPlayer')}
+                <button onClick={() => removePupil(p.id)} className="text-stone-300 hover:text-red-400" title={t('teacher.removePupil')}>
+                  <X className="w-4 h-4" />
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {candidates.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && addPupil(e.target.value)}
+                className="px-4 py-3 rounded-xl bg-stone-100 outline-none font-medium text-stone-600"
+              >
+                <option value="">{t('teacher.addExisting')}</option>
+                {candidates.map(p => (
+                  <option key={p.id} value={p.id}>{p.avatar} {p.name || t('profiles.newPlayer')}</option>
+                ))}
+              </select>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newPupilName}
+                onChange={(e) => setNewPupilName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && createPupil()}
+                placeholder={t('teacher.newPupilPlaceholder')}
+                className="flex-1 min-w-0 px-4 py-3 rounded-xl bg-stone-100 border-2 border-transparent focus:border-purple-400 focus:bg-white outline-none transition-all font-medium text-stone-700"
+              />
+              <button
+                onClick={createPupil}
+                className="w-12 h-12 rounded-xl bg-stone-100 text-stone-400 hover:bg-stone-200 flex items-center justify-center transition-all"
+                title={t('teacher.createPupil')}
+              >
+                <Plus className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {selectedClass && (
+        <div className="glass rounded-3xl p-6 space-y-6">
+          <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 flex items-center gap-2">
+            <Send className="w-4 h-4" /> {t('teacher.newAssignment')}
+          </h3>
+
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={t('teacher.titlePlaceholder')}
+            className="w-full px-4 py-3 rounded-xl bg-stone-100 border-2 border-transparent focus:border-purple-400 focus:bg-white outline-none transition-all font-medium text-stone-700"
+          />
+
+          {(['multiplicationTables', 'divisionTables'] as const).map(key => (
+            <div key={key}>
+              <p className="text-xs font-bold text-stone-400 mb-2">{key === 'multiplicationTables' ? t('settings.multiplication') : t('settings.division')}</p>
+              <div className="grid grid-cols-7 gap-1">
+                {TABLES.map(n => (
+                  <button
+                    key={`${key}-${n}`}
+                    disabled={key === 'divisionTables' && n === 0}
+                    onClick={() => toggleTable(n, key)}
+                    className={`
+                      h-9 rounded-lg text-sm font-bold transition-all
+                      ${key === 'divisionTables' && n === 0 ? 'opacity-20 cursor-not-allowed' : ''}
+                      ${selection[key].includes(n)
+                        ? key === 'multiplicationTables' ? 'bg-emerald-500 text-white' : 'bg-blue-500 text-white'
+                        : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+                    `}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <RangePicker
+            label={t('settings.multipliers')}
+            range={selection.multiplierRange}
+            onChange={(multiplierRange) => setSelection(prev => ({ ...prev, multiplierRange }))}
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid grid-cols-4 gap-1">
+              {([10, 20, 50, 'all'] as const).map(count => (
+                <button
+                  key={`count-${count}`}
+                  onClick={() => setSelection(prev => ({ ...prev, exerciseCount: count }))}
+                  className={`
+                    h-12 rounded-xl text-sm font-bold transition-all
+                    ${selection.exerciseCount === count ? 'bg-purple-500 text-white' : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+                  `}
+                >
+                  {count === 'all' ? t('settings.all') : count}
+                </button>
+              ))}
+            </div>
+            <input
+              type="date"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              className="px-4 py-3 rounded-xl bg-stone-100 outline-none font-medium text-stone-600"
+              title={t('teacher.deadline')}
+            />
+          </div>
+
+          <button
+            onClick={sendAssignment}
+            disabled={!canSend}
+            className={`
+              w-full py-3 rounded-2xl font-bold transition-all flex items-center justify-center gap-2
+              ${canSend ? 'bg-purple-600 text-white hover:bg-purple-700 shadow-lg shadow-purple-100' : 'bg-stone-100 text-stone-300 cursor-not-allowed'}
+            `}
+          >
+            <Send className="w-5 h-5" /> {t('teacher.send')}
+          </button>
+        </div>
+      )}
+
+      {selectedClass && classAssignments.length > 0 && (
+        <div className="glass rounded-3xl p-6 space-y-4">
+          <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 flex items-center gap-2">
+            <ClipboardList className="w-4 h-4" /> {t('teacher.assignments')}
+          </h3>
+          {classAssignments.map(a => (
+            <div key={a.id} className="py-3 px-4 bg-white/50 rounded-xl border border-stone-100">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setOpenAssignmentId(prev => prev === a.id ? null : a.id)}
+                  className="flex-1 text-left"
+                >
+                  <p className="font-bold text-stone-700">{a.title}</p>
+                  <p className="text-[10px] text-stone-400 flex flex-wrap gap-1 items-center">
+                    <CalendarClock className="w-3 h-3" />
+                    {formatDate(a.deadline)}
+                    {a.multiplicationTables.length > 0 && <span>· ×: {a.multiplicationTables.join(', ')}</span>}
+                    {a.divisionTables.length > 0 && <span>· ÷: {a.divisionTables.join(', ')}</span>}
+                    <span>· {a.exerciseCount === 'all' ? t('practice.allSums') : t('practice.sums', { count: a.exerciseCount })}</span>
+                  </p>
+                </button>
+                <button
+                  onClick={() => removeAssignment(a)}
+                  className="p-1 rounded-lg text-stone-300 hover:text-red-400 transition-all"
+                  title={t('teacher.deleteAssignment')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {openAssignmentId === a.id && <AssignmentOverview assignment={a} pupils={pupils} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { TimerMode, TimerSettings } from '../types';
+import { MessageKey, t } from '../lib/i18n';
+
+const MODES: { mode: TimerMode; label: MessageKey }[] = [
+  { mode: 'none', label: 'timer.none' },
+  { mode: 'perQuestion', label: 'timer.perQuestion' },
+  { mode: 'sprint', label: 'timer.sprint' }
+];
+const QUESTION_SECONDS = [5, 10, 15, 20, 30];
+const SPRINT_SECONDS = [60, 120] as const;
+
+interface TimerPickerProps {
+  timer: TimerSettings;
+  onChange: (timer: TimerSettings) => void;
+}
+
+export default function TimerPicker({ timer, onChange }: TimerPickerProps) {
+  const optionClass = (active: boolean) => `
+    h-10 rounded-xl text-sm font-bold transition-all duration-200
+    ${active
+      ? 'bg-orange-400 text-white shadow-lg shadow-orange-100 scale-105'
+      : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+  `;
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold uppercase tracking-wider text-stone-400 mb-4 flex items-center gap-2">
+        <Timer className="w-4 h-4" /> {t('timer.title')}
+      </h3>
+      <div className="grid grid-cols-3 gap-2">
+        {MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...timer, mode })}
+            className={`
+              h-12 rounded-xl font-bold transition-all duration-200
+              ${timer.mode === mode
+                ? 'bg-purple-500 text-white shadow-lg shadow-purple-200 scale-105'
+                : 'bg-stone-100 text-stone-400 hover:bg-stone-200'}
+            `}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+
+      {timer.mode === 'perQuestion' && (
+        <div className="grid grid-cols-5 gap-2 mt-3">
+          {QUESTION_SECONDS.map(seconds => (
+            <button
+              key={seconds}
+              onClick={() => onChange({ ...timer, questionSeconds: seconds })}
+              className={optionClass(timer.questionSeconds === seconds)}
+            >
+              {t('format.seconds', { value: seconds })}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {timer.mode === 'sprint' && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            {SPRINT_SECONDS.map(seconds => (
+              <button
+                key={seconds}
+                onClick={() => onChange({ ...timer, sprintSeconds: seconds })}
+                className={optionClass(timer.sprintSeconds === seconds)}
+              >
+                {t('timer.minutes', { minutes: seconds / 60 })}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-[11px] text-stone-400 font-medium">
+            {t('timer.sprintHint', { seconds: timer.sprintSeconds })}
+          </p>
+        </>
+      )}
+
+      {timer.mode === 'none' && (
+        <p className="mt-2 text-[11px] text-stone-400 font-medium">{t('timer.noneHint')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { RefreshCw, X } from 'lucide-react';
+import { AvailableUpdate } from '../lib/serviceWorker';
+import { t } from '../lib/i18n';
+
+interface UpdatePromptProps {
+  update: AvailableUpdate;
+  onDismiss: () => void;
+}
+
+export default function UpdatePrompt({ update, onDismiss }: UpdatePromptProps) {
+  const isNewVersion = update.version !== __APP_VERSION__;
+
+  return (
+    <motion.div
+      initial={{ y: 40, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      className="fixed bottom-4 inset-x-4 max-w-md mx-auto glass rounded-2xl p-4 flex items-center gap-3 z-50"
+    >
+      <div className="bg-purple-100 p-2 rounded-xl text-purple-600">
+        <RefreshCw className="w-5 h-5" />
+      </div>
+      <div className="flex-1">
+        <p className="font-bold text-stone-700 text-sm">
+          {isNewVersion ? t('update.version', { version: update.version }) : t('update.ready')}
+        </p>
+        <p className="text-[11px] text-stone-400">{t('update.keepsProgress')}</p>
+      </div>
+      <button
+        onClick={update.apply}
+        className="px-3 py-2 rounded-xl bg-purple-600 text-white text-xs font-bold hover:bg-purple-700 transition-all"
+      >
+        {t('update.apply')}
+      </button>
+      <button onClick={onDismiss} className="p-1 text-stone-300 hover:text-stone-500" title={t('update.later')}>
+        <X className="w-4 h-4" />
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,23 @@
+import { Exercise } from '../types';
+
+export const MIN_QUESTION_SECONDS = 3;
+export const MAX_QUESTION_SECONDS = 30;
+export const REINSERT_GAP = 3; // A missed sum comes back after this many other sums
+export const MAX_REINSERTS = 2; // Per fact and session, so a hard fact cannot loop forever
+
+// Quick correct answers tighten the limit, misses and timeouts loosen it again
+export function nextTimeLimit(seconds: number, correct: boolean, responseTimeMs: number): number {
+  let next = seconds;
+  if (!correct) {
+    next = seconds * 1.25;
+  } else if (responseTimeMs < seconds * 1000 * 0.5) {
+    next = seconds * 0.85;
+  }
+  return Math.round(Math.min(MAX_QUESTION_SECONDS, Math.max(MIN_QUESTION_SECONDS, next)) * 10) / 10;
+}
+
+// pool[0] is the sum being answered right now
+export function reinsertMissed(pool: Exercise[], exercise: Exercise, gap = REINSERT_GAP): Exercise[] {
+  const index = Math.min(gap + 1, pool.length);
+  return [...pool.slice(0, index), { ...exercise, isRepeat: true }, ...pool.slice(index)];
+}
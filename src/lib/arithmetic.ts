@@ -0,0 +1,92 @@
+import { ArithmeticLevel, Exercise } from '../types';
+import { MessageKey, t } from './i18n';
+
+export type ArithmeticOperation = 'addition' | 'subtraction';
+
+export const ARITHMETIC_LEVELS: { level: ArithmeticLevel; label: MessageKey; example: { addition: string; subtraction: string } }[] = [
+  { level: 'bonds10', label: 'arithmetic.bonds10', example: { addition: '3 + ? = 10', subtraction: '10 − 3' } },
+  { level: 'bonds20', label: 'arithmetic.bonds20', example: { addition: '14 + ? = 20', subtraction: '20 − 14' } },
+  { level: 'bonds100', label: 'arithmetic.bonds100', example: { addition: '35 + ? = 100', subtraction: '100 − 35' } },
+  { level: 'noCarry20', label: 'arithmetic.noCarry20', example: { addition: '12 + 5', subtraction: '17 − 4' } },
+  { level: 'carry20', label: 'arithmetic.carry20', example: { addition: '8 + 5', subtraction: '13 − 6' } },
+  { level: 'noCarry100', label: 'arithmetic.noCarry100', example: { addition: '43 + 5', subtraction: '68 − 30' } },
+  { level: 'carry100', label: 'arithmetic.carry100', example: { addition: '47 + 6', subtraction: '52 − 7' } }
+];
+
+export function levelLabel(level: ArithmeticLevel): string {
+  const label = ARITHMETIC_LEVELS.find(l => l.level === level)?.label;
+  return label ? t(label) : level;
+}
+
+const BOND_TOTALS: Partial<Record<ArithmeticLevel, { total: number; step: number }>> = {
+  bonds10: { total: 10, step: 1 },
+  bonds20: { total: 20, step: 1 },
+  bonds100: { total: 100, step: 5 }
+};
+
+function add(a: number, b: number, level: ArithmeticLevel): Exercise {
+  return { a, b, op: 'addition', result: a + b, level };
+}
+
+function subtract(a: number, b: number, level: ArithmeticLevel): Exercise {
+  return { a, b, op: 'subtraction', result: a - b, level };
+}
+
+// Units add up past 9, or the units of b are larger than those of a
+const carries = (a: number, b: number) => (a % 10) + (b % 10) >= 10;
+const borrows = (a: number, b: number) => a % 10 < b % 10;
+
+// The second operand for sums up to 100: single digits and whole tens
+const STEPS_100 = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 20, 30, 40, 50, 60, 70, 80, 90];
+
+// Every fact of one level. Number bonds to 10 ask for the missing part ("3 + ? = 10"), keeping a and b as the
+// two parts, so the bond and the plain sum "3 + 7" count as the same fact.
+export function buildArithmeticFacts(op: ArithmeticOperation, level: ArithmeticLevel): Exercise[] {
+  const facts: Exercise[] = [];
+  const bond = BOND_TOTALS[level];
+
+  if (bond) {
+    for (let part = 0; part <= bond.total; part += bond.step) {
+      const rest = bond.total - part;
+      facts.push(op === 'addition'
+        ? { ...add(part, rest, level), result: rest, display: `${part} + ? = ${bond.total}` }
+        : subtract(bond.total, part, level));
+    }
+    return facts;
+  }
+
+  if (level === 'noCarry20' || level === 'carry20') {
+    const withCarry = level === 'carry20';
+    for (let a = 1; a <= 20; a++) {
+      for (let b = 1; b <= 20; b++) {
+        if (op === 'addition' && a + b <= 20 && carries(a, b) === withCarry) facts.push(add(a, b, level));
+        if (op === 'subtraction' && b <= a && borrows(a, b) === withCarry) facts.push(subtract(a, b, level));
+      }
+    }
+    return facts;
+  }
+
+  const withCarry = level === 'carry100';
+  for (let a = 10; a <= 99; a++) {
+    STEPS_100.forEach(b => {
+      // Bridging over a ten only happens with single digits
+      if (withCarry && b >= 10) return;
+      if (op === 'addition' && a + b <= 100 && carries(a, b) === withCarry) facts.push(add(a, b, level));
+      if (op === 'subtraction' && b < a && borrows(a, b) === withCarry) facts.push(subtract(a, b, level));
+    });
+  }
+  return facts;
+}
+
+const factCounts = new Map<string, number>();
+
+// The settings screen asks on every render, so sizes are only worked out once per level
+export function countArithmeticFacts(op: ArithmeticOperation, level: ArithmeticLevel): number {
+  const key = `${op}-${level}`;
+  let count = factCounts.get(key);
+  if (count === undefined) {
+    count = buildArithmeticFacts(op, level).length;
+    factCounts.set(key, count);
+  }
+  return count;
+}
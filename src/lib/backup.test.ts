@@ -0,0 +1,68 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Profile, SessionResult } from '../types';
+import { BackupError, importBackup, parseBackup } from './backup';
+import { createMemoryAdapter } from './historyStore';
+import { DEFAULT_SETTINGS, loadProfiles, loadSettings, saveProfiles, saveSettings } from './storage';
+import { sessionResult } from '../../test/factories';
+import { useMemoryStorage } from '../../test/storage';
+
+beforeEach(useMemoryStorage);
+
+const profile = (id: string): Profile => ({ id, name: `Speler ${id}`, avatar: '🦊', createdAt: 0 });
+
+const session = (id: string, profileId: string): SessionResult => sessionResult({
+  id, profileId, timestamp: 1_700_000_000_000, multiplicationTables: [3],
+  history: [{ exercise: { a: 3, b: 4, op: 'multiplication', result: 12 }, correct: true, answer: 12, timedOut: false }]
+});
+
+const backupText = (fields: Record<string, unknown>) => JSON.stringify({
+  app: 'tafelkampioen',
+  version: 1,
+  exportedAt: 0,
+  profiles: [{ profile: profile('b'), updatedAt: 1, settings: {}, sessions: [session('b1', 'b')] }],
+  classes: [],
+  assignments: [],
+  ...fields
+});
+
+describe('parseBackup', () => {
+  it('rejects versions it does not know', () => {
+    assert.throws(() => parseBackup(backupText({ version: 0 })), BackupError);
+    assert.throws(() => parseBackup(backupText({ version: 2 })), BackupError);
+  });
+
+  it('rejects a backup without players', () => {
+    assert.throws(() => parseBackup(backupText({ profiles: [] })), BackupError);
+  });
+
+  it('rejects malformed classes and assignments', () => {
+    assert.throws(() => parseBackup(backupText({ classes: [{ id: 'c', name: 'Klas 3' }] })), BackupError);
+    assert.throws(() => parseBackup(backupText({ assignments: [{ id: 'o', title: 'Tafel van 3' }] })), BackupError);
+  });
+});
+
+describe('importBackup', () => {
+  const setUpLocal = () => {
+    saveProfiles([profile('a')]);
+    saveSettings('a', { ...DEFAULT_SETTINGS, playerName: 'Speler a' });
+    return createMemoryAdapter([session('a1', 'a')]);
+  };
+
+  it('replaces the players and history on this device', async () => {
+    const store = setUpLocal();
+    await importBackup(parseBackup(backupText({})), 'replace', store);
+    assert.deepEqual(loadProfiles().map(p => p.id), ['b']);
+    assert.deepEqual((await store.query()).sessions.map(s => s.id), ['b1']);
+    assert.equal(loadSettings('a').playerName, DEFAULT_SETTINGS.playerName);
+  });
+
+  it('keeps the local data when writing the backup fails', async () => {
+    const store = setUpLocal();
+    const failing = { ...store, putMany: () => Promise.reject(new Error('quota')) };
+    await assert.rejects(importBackup(parseBackup(backupText({})), 'replace', failing));
+    assert.ok(loadProfiles().some(p => p.id === 'a'));
+    assert.equal(loadSettings('a').playerName, 'Speler a');
+    assert.deepEqual((await store.query({ profileId: 'a' })).sessions.map(s => s.id), ['a1']);
+  });
+});
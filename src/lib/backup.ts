@@ -0,0 +1,256 @@
+import { Assignment, ClassRoom, FactStats, MasteryData, Profile, SessionResult, UnlockedBadges, UserSettings } from '../types';
+import { HistoryStorageAdapter, historyStore } from './historyStore';
+import { loadAssignments, loadClasses, mergeByUpdatedAt, saveAssignments, saveClasses } from './classroom';
+import { operatorSymbol } from './format';
+import { markFactsChanged, markSessionsChanged } from './sync';
+import { t } from './i18n';
+import {
+  DEFAULT_SETTINGS,
+  deleteProfileData,
+  loadBadges,
+  loadFactStats,
+  loadMastery,
+  loadProfileUpdatedAt,
+  loadProfiles,
+  loadSettings,
+  normalizeSession,
+  saveActiveProfileId,
+  saveActiveSession,
+  saveBadges,
+  saveFactStats,
+  saveMastery,
+  saveProfiles,
+  saveSettings,
+  setProfileUpdatedAt
+} from './storage';
+
+export const BACKUP_VERSION = 1;
+
+export interface BackupProfile {
+  profile: Profile;
+  updatedAt: number;
+  settings: UserSettings;
+  mastery: MasteryData;
+  badges: UnlockedBadges;
+  factStats: FactStats;
+  sessions: SessionResult[];
+}
+
+export interface BackupBundle {
+  app: 'tafelkampioen';
+  version: typeof BACKUP_VERSION;
+  exportedAt: number;
+  profiles: BackupProfile[];
+  classes: ClassRoom[];
+  assignments: Assignment[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateSession(session: unknown): SessionResult {
+  if (!isObject(session) || typeof session.id !== 'string' || typeof session.timestamp !== 'number'
+    || typeof session.correct !== 'number' || typeof session.total !== 'number' || !Array.isArray(session.history)) {
+    throw new BackupError(t('backup.invalidSession'));
+  }
+  session.history.forEach((entry: unknown) => {
+    if (!isObject(entry) || !isObject(entry.exercise) || typeof entry.correct !== 'boolean') {
+      throw new BackupError(t('backup.invalidSum'));
+    }
+  });
+  return normalizeSession(session);
+}
+
+function validateProfile(entry: unknown): BackupProfile {
+  if (!isObject(entry) || !isObject(entry.profile) || typeof entry.profile.id !== 'string' || typeof entry.profile.name !== 'string') {
+    throw new BackupError(t('backup.invalidPlayer'));
+  }
+  if (!Array.isArray(entry.sessions)) {
+    throw new BackupError(t('backup.missingSessions', { name: entry.profile.name || t('backup.aPlayer') }));
+  }
+  return {
+    profile: entry.profile as Profile,
+    updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : 0,
+    settings: { ...DEFAULT_SETTINGS, ...(isObject(entry.settings) ? entry.settings : {}), playerName: entry.profile.name },
+    mastery: isObject(entry.mastery) ? entry.mastery : {},
+    // Backups from before badges simply have none
+    badges: isObject(entry.badges) ? entry.badges : {},
+    factStats: isObject(entry.factStats) ? entry.factStats : {},
+    sessions: entry.sessions.map((s: unknown) => ({ ...validateSession(s), profileId: entry.profile.id }))
+  };
+}
+
+const isNumberList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'number');
+
+function validateClass(entry: unknown): ClassRoom {
+  if (!isObject(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string' || typeof entry.teacherId !== 'string'
+    || !Array.isArray(entry.pupilIds) || !entry.pupilIds.every((id: unknown) => typeof id === 'string')
+    || typeof entry.updatedAt !== 'number') {
+    throw new BackupError(t('backup.invalidClass'));
+  }
+  return entry as ClassRoom;
+}
+
+function validateAssignment(entry: unknown): Assignment {
+  if (!isObject(entry) || typeof entry.id !== 'string' || typeof entry.classId !== 'string' || typeof entry.title !== 'string'
+    || !isNumberList(entry.multiplicationTables) || !isNumberList(entry.divisionTables)
+    || typeof entry.deadline !== 'number' || typeof entry.createdAt !== 'number' || typeof entry.updatedAt !== 'number') {
+    throw new BackupError(t('backup.invalidAssignment'));
+  }
+  return entry as Assignment;
+}
+
+export function parseBackup(text: string): BackupBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new BackupError(t('backup.invalidFile'));
+  }
+  if (!isObject(data) || typeof data.version !== 'number') {
+    throw new BackupError(t('backup.notOurs'));
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new BackupError(t('backup.tooNew'));
+  }
+  // Later format changes add a migration from the older versions here
+  if (data.version < BACKUP_VERSION) {
+    throw new BackupError(t('backup.unsupportedVersion', { version: String(data.version) }));
+  }
+  if (data.app !== 'tafelkampioen' || !Array.isArray(data.profiles)) {
+    throw new BackupError(t('backup.notOurs'));
+  }
+  // Checked here so a replace never starts on a backup that would leave nobody to play
+  if (data.profiles.length === 0) {
+    throw new BackupError(t('backup.noPlayers'));
+  }
+
+  return {
+    app: 'tafelkampioen',
+    version: BACKUP_VERSION,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : Date.now(),
+    profiles: data.profiles.map(validateProfile),
+    classes: Array.isArray(data.classes) ? data.classes.map(validateClass) : [],
+    assignments: Array.isArray(data.assignments) ? data.assignments.map(validateAssignment) : []
+  };
+}
+
+export async function createBackup(): Promise<BackupBundle> {
+  const profiles = await Promise.all(loadProfiles().map(async profile => ({
+    profile,
+    updatedAt: loadProfileUpdatedAt(profile.id),
+    settings: loadSettings(profile.id),
+    mastery: loadMastery(profile.id),
+    badges: loadBadges(profile.id),
+    factStats: loadFactStats(profile.id),
+    sessions: (await historyStore.query({ profileId: profile.id })).sessions
+  })));
+  return {
+    app: 'tafelkampioen',
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    profiles,
+    classes: loadClasses(),
+    assignments: loadAssignments()
+  };
+}
+
+// The backup is written first and only then is what it doesn't hold removed, so a failed import
+// leaves the data on this device in place
+export async function importBackup(bundle: BackupBundle, mode: ImportMode, store: HistoryStorageAdapter = historyStore) {
+  const local = loadProfiles();
+  const replace = mode === 'replace';
+
+  let profiles: Profile[] = replace ? [] : local;
+  const taken: BackupProfile[] = [];
+  for (const entry of bundle.profiles) {
+    const exists = profiles.some(p => p.id === entry.profile.id);
+    // When merging, a profile changed here after the backup was made keeps its own settings
+    const takeProfile = !exists || entry.updatedAt >= loadProfileUpdatedAt(entry.profile.id);
+
+    if (takeProfile) {
+      profiles = exists
+        ? profiles.map(p => p.id === entry.profile.id ? entry.profile : p)
+        : [...profiles, entry.profile];
+      saveSettings(entry.profile.id, entry.settings);
+      saveMastery(entry.profile.id, entry.mastery);
+      saveBadges(entry.profile.id, entry.badges);
+      taken.push(entry);
+    }
+
+    const stats = exists ? loadFactStats(entry.profile.id) : {};
+    Object.entries(entry.factStats).forEach(([key, stat]) => {
+      if (!stats[key] || stat.lastSeen > stats[key].lastSeen) stats[key] = stat;
+    });
+    saveFactStats(entry.profile.id, stats);
+    markFactsChanged(entry.profile.id, Object.keys(entry.factStats));
+
+    const before = replace ? (await store.query({ profileId: entry.profile.id })).sessions : [];
+    await store.putMany(entry.sessions);
+    markSessionsChanged(entry.sessions.map(s => s.id));
+    if (replace) {
+      const kept = new Set(entry.sessions.map(s => s.id));
+      await store.deleteMany(before.filter(s => !kept.has(s.id)).map(s => s.id));
+      saveActiveSession(entry.profile.id, null);
+    }
+  }
+
+  saveProfiles(profiles);
+  // Saving bumps the local updatedAt, so put back the one from the backup
+  taken.forEach(entry => {
+    if (entry.updatedAt > 0) setProfileUpdatedAt(entry.profile.id, entry.updatedAt);
+  });
+  saveClasses(replace ? bundle.classes : mergeByUpdatedAt(loadClasses(), bundle.classes));
+  saveAssignments(replace ? bundle.assignments : mergeByUpdatedAt(loadAssignments(), bundle.assignments));
+
+  if (replace) {
+    saveActiveProfileId(profiles[0].id);
+    for (const profile of local.filter(p => !profiles.some(kept => kept.id === p.id))) {
+      deleteProfileData(profile.id);
+      await store.deleteByProfile(profile.id);
+    }
+  }
+}
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Semicolons and a BOM so spreadsheets with a Dutch locale open it right away
+export function sessionsToCsv(sessions: SessionResult[]): string {
+  const header = t('backup.csvHeader').split(';');
+  const rows = sessions.flatMap(session => session.history.map(item => [
+    session.id,
+    new Date(session.timestamp).toISOString(),
+    session.playerName,
+    session.assignmentId,
+    item.exercise.display ?? `${item.exercise.a} ${operatorSymbol(item.exercise.op)} ${item.exercise.b}`,
+    item.exercise.result,
+    item.answer,
+    item.correct ? 1 : 0,
+    item.timedOut ? 1 : 0,
+    item.responseTimeMs !== undefined ? Math.round(item.responseTimeMs) : undefined
+  ]));
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(';')).join('\n');
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
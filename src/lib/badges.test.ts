@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HistoryEntry, SessionResult } from '../types';
+import { BadgeContext, BadgeRule, evaluateBadges, unlockBadges } from './badges';
+import { sessionResult } from '../../test/factories';
+
+const NOW = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(a: number, b: number, correct = true): HistoryEntry {
+  return { exercise: { a, b, op: 'multiplication', result: a * b }, correct, answer: correct ? a * b : null, timedOut: false };
+}
+
+function result(history: HistoryEntry[], overrides: Partial<SessionResult> = {}): SessionResult {
+  return sessionResult({
+    timestamp: NOW,
+    averageTimePerSum: 3000,
+    multiplicationTables: [...new Set(history.map(h => h.exercise.b))],
+    history,
+    ...overrides
+  });
+}
+
+function context(latest: SessionResult, earlier: SessionResult[] = []): BadgeContext {
+  return { result: latest, sessions: [latest, ...earlier], mastery: {}, now: NOW };
+}
+
+const earnedIds = (ctx: BadgeContext, unlocked = {}) => evaluateBadges(ctx, unlocked).map(rule => rule.id);
+const table = (b: number, correct = true) => Array.from({ length: 10 }, (_, i) => entry(i + 1, b, correct));
+
+describe('evaluateBadges', () => {
+  it('awards a perfect table only for ten right sums of that table', () => {
+    assert.ok(earnedIds(context(result(table(7)))).includes('perfect-multiplication-7'));
+    assert.ok(!earnedIds(context(result(table(7).slice(1)))).includes('perfect-multiplication-7'));
+    assert.ok(!earnedIds(context(result([...table(7).slice(1), entry(10, 7, false)]))).includes('perfect-multiplication-7'));
+  });
+
+  it('never returns a badge that is already unlocked', () => {
+    const ids = earnedIds(context(result(table(3))), { 'first-session': NOW - DAY });
+    assert.ok(!ids.includes('first-session'));
+    assert.ok(ids.includes('perfect-multiplication-3'));
+  });
+
+  it('counts the sums of the last seven days', () => {
+    const old = Array.from({ length: 9 }, () => result(table(2), { timestamp: NOW - 8 * DAY }));
+    const recent = Array.from({ length: 9 }, () => result(table(2), { timestamp: NOW - 2 * DAY }));
+    assert.ok(!earnedIds(context(result(table(4)), old)).includes('hundred-in-a-week'));
+    assert.ok(earnedIds(context(result(table(4)), recent)).includes('hundred-in-a-week'));
+  });
+
+  it('takes new rules without further changes', () => {
+    const rule: BadgeRule = { id: 'night-owl', icon: '🦉', title: 'Nachtuil', description: '', earned: () => true };
+    assert.deepEqual(evaluateBadges(context(result(table(2))), {}, [rule]), [rule]);
+  });
+});
+
+describe('unlockBadges', () => {
+  it('stores when each badge was earned and keeps the older ones', () => {
+    const [first] = evaluateBadges(context(result(table(5))), {});
+    assert.deepEqual(unlockBadges({ lightning: 1 }, [first], NOW), { lightning: 1, [first.id]: NOW });
+  });
+});
@@ -0,0 +1,96 @@
+import { MasteryData, SessionResult, UnlockedBadges } from '../types';
+import { t } from './i18n';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Everything a rule may look at, built right after a session result is saved
+export interface BadgeContext {
+  result: SessionResult; // The session that was just played
+  sessions: SessionResult[]; // Every session of the profile, newest first, including `result`
+  mastery: MasteryData;
+  now: number;
+}
+
+export interface BadgeRule {
+  id: string; // Stored with the unlock time, so never rename one
+  icon: string;
+  title: string; // Getters in BADGE_RULES, so the texts follow the language picked later on
+  description: string;
+  earned: (context: BadgeContext) => boolean;
+}
+
+const isPerfect = (session: SessionResult) => !session.partial && !session.duel && session.total > 0 && session.correct === session.total;
+
+// At least ten sums of one table in a single session, all of them right
+function perfectTable(table: number): BadgeRule {
+  return {
+    id: `perfect-multiplication-${table}`,
+    icon: '🎯',
+    get title() { return t('badges.perfectTable.title', { table }); },
+    get description() { return t('badges.perfectTable.description', { table }); },
+    earned: ({ result }) => {
+      const sums = result.history.filter(h => h.exercise.op === 'multiplication' && h.exercise.b === table && !h.exercise.isChallenge);
+      return sums.length >= 10 && sums.every(h => h.correct);
+    }
+  };
+}
+
+// New badges only need a rule in this list; they are checked after every saved session
+export const BADGE_RULES: BadgeRule[] = [
+  {
+    id: 'first-session',
+    icon: '🌱',
+    get title() { return t('badges.firstSession.title'); },
+    get description() { return t('badges.firstSession.description'); },
+    earned: () => true
+  },
+  ...[2, 3, 4, 5, 6, 7, 8, 9, 10].map(perfectTable),
+  {
+    id: 'five-perfect-in-a-row',
+    icon: '🔥',
+    get title() { return t('badges.fivePerfect.title'); },
+    get description() { return t('badges.fivePerfect.description'); },
+    earned: ({ sessions }) => sessions.length >= 5 && sessions.slice(0, 5).every(isPerfect)
+  },
+  {
+    id: 'lightning',
+    icon: '⚡',
+    get title() { return t('badges.lightning.title'); },
+    get description() { return t('badges.lightning.description'); },
+    earned: ({ result }) => isPerfect(result) && result.total >= 10
+      && result.averageTimePerSum !== undefined && result.averageTimePerSum < 2000
+  },
+  {
+    id: 'hundred-in-a-week',
+    icon: '💯',
+    get title() { return t('badges.hundredInAWeek.title'); },
+    get description() { return t('badges.hundredInAWeek.description'); },
+    earned: ({ sessions, now }) => sessions
+      .filter(s => s.timestamp > now - 7 * DAY)
+      .reduce((sum, s) => sum + s.total, 0) >= 100
+  },
+  {
+    id: 'sprinter',
+    icon: '🏃',
+    get title() { return t('badges.sprinter.title'); },
+    get description() { return t('badges.sprinter.description'); },
+    earned: ({ result }) => result.timer?.mode === 'sprint' && result.correct >= 30
+  },
+  {
+    id: 'all-tables-mastered',
+    icon: '👑',
+    get title() { return t('badges.allTablesMastered.title'); },
+    get description() { return t('badges.allTablesMastered.description'); },
+    earned: ({ mastery }) => [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].every(n => (mastery[`multiplication-${n}`] ?? 0) >= 10)
+  }
+];
+
+// The rules that are met now but weren't unlocked before, in list order
+export function evaluateBadges(context: BadgeContext, unlocked: UnlockedBadges, rules: BadgeRule[] = BADGE_RULES): BadgeRule[] {
+  return rules.filter(rule => unlocked[rule.id] === undefined && rule.earned(context));
+}
+
+export function unlockBadges(unlocked: UnlockedBadges, earned: BadgeRule[], now: number): UnlockedBadges {
+  if (earned.length === 0) return unlocked;
+  return { ...unlocked, ...Object.fromEntries(earned.map(rule => [rule.id, now])) };
+}
@@ -0,0 +1,73 @@
+import { ChallengeFormat, ChallengeSettings, Exercise } from '../types';
+import { MessageKey, t } from './i18n';
+import { RandomFn } from './random';
+
+export const CHALLENGE_FORMATS: { format: ChallengeFormat; label: MessageKey }[] = [
+  { format: 'missingFactor', label: 'challenges.missingFactor' },
+  { format: 'reversed', label: 'challenges.reversed' },
+  { format: 'wordQuestion', label: 'challenges.wordQuestion' },
+  { format: 'chain', label: 'challenges.chain' },
+  { format: 'commutative', label: 'challenges.commutative' }
+];
+
+const EXAMPLE_FACT: Exercise = { a: 8, b: 7, op: 'multiplication', result: 56 };
+
+function challenge(exercise: Exercise, display: string, result: number): Exercise {
+  return { ...exercise, display, result, isChallenge: true };
+}
+
+// Rewrites a fact into another format with a single right answer; the fact itself (a, b, op) stays the same
+// so mastery keeps counting it. Returns null when the format would make the answer ambiguous, like "? × 0 = 0",
+// and for addition and subtraction, which the formats don't cover.
+export function toChallenge(exercise: Exercise, format: ChallengeFormat, random: RandomFn = Math.random): Exercise | null {
+  if (exercise.op === 'addition' || exercise.op === 'subtraction') return null;
+  const { a, b } = exercise;
+  const multiplier = 2 + Math.floor(random() * 4);
+
+  if (exercise.op === 'multiplication') {
+    const product = a * b;
+    switch (format) {
+      case 'missingFactor':
+        return b === 0 ? null : challenge(exercise, `? × ${b} = ${product}`, a);
+      case 'reversed':
+        return a === 0 ? null : challenge(exercise, `${product} = ${a} × ?`, b);
+      case 'wordQuestion':
+        return b === 0 ? null : challenge(exercise, t('challenges.timesFits', { b, product }), a);
+      case 'chain':
+        return b === 0 ? null : challenge(exercise, `${product} ÷ ${b} × ${multiplier} =`, a * multiplier);
+      case 'commutative':
+        return b === 0 ? null : challenge(exercise, `${a} × ${b} = ${b} × ?`, a);
+    }
+  }
+
+  const quotient = exercise.result;
+  switch (format) {
+    case 'missingFactor':
+      return challenge(exercise, `? ÷ ${b} = ${quotient}`, a);
+    case 'reversed':
+      return quotient === 0 ? null : challenge(exercise, `${quotient} = ${a} ÷ ?`, b);
+    case 'wordQuestion':
+      return challenge(exercise, t('challenges.fitsIn', { a, b }), quotient);
+    case 'chain':
+      return challenge(exercise, `${a} ÷ ${b} × ${multiplier} =`, quotient * multiplier);
+    case 'commutative':
+      return challenge(exercise, t('challenges.so', { a, b, quotient }), quotient);
+  }
+  return null;
+}
+
+// 8 × 7 written in the format, in the language on screen
+export function challengeExample(format: ChallengeFormat): string {
+  return toChallenge(EXAMPLE_FACT, format, () => 0.25)?.display ?? '';
+}
+
+// Swaps roughly `weight` of the pool for challenge versions of the same facts
+export function mixInChallenges(pool: Exercise[], settings: ChallengeSettings, random: RandomFn = Math.random): Exercise[] {
+  if (!settings.enabled || settings.formats.length === 0 || settings.weight <= 0) return pool;
+
+  return pool.map(exercise => {
+    if (random() >= settings.weight) return exercise;
+    const format = settings.formats[Math.floor(random() * settings.formats.length)];
+    return toChallenge(exercise, format, random) ?? exercise;
+  });
+}
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Assignment, Profile, SessionResult } from '../types';
+import { assignmentProgress } from './classroom';
+import { sessionResult } from '../../test/factories';
+
+const DEADLINE = 1_700_000_000_000;
+
+const pupil: Profile = { id: 'p', name: 'Lien', avatar: '🦊', createdAt: 0 };
+
+const assignment: Assignment = {
+  id: 'o', classId: 'c', title: 'Tafel van 3', multiplicationTables: [3], divisionTables: [], exerciseCount: 10,
+  deadline: DEADLINE, createdAt: 0, updatedAt: 0
+};
+
+function session(id: string, correct: number, fields: Partial<SessionResult> = {}): SessionResult {
+  return sessionResult({
+    id, profileId: pupil.id, assignmentId: assignment.id, correct, total: 10, timestamp: DEADLINE - 1000, multiplicationTables: [3], ...fields
+  });
+}
+
+describe('assignmentProgress', () => {
+  it('does not count a session the pupil stopped halfway', () => {
+    const [progress] = assignmentProgress(assignment, [pupil], [session('s1', 4, { partial: true })]);
+    assert.equal(progress.attempts, 0);
+    assert.equal(progress.finishedOnTime, false);
+    assert.equal(progress.best, undefined);
+  });
+
+  it('leaves retries of the mistakes out of the best score', () => {
+    const [progress] = assignmentProgress(assignment, [pupil], [session('s1', 6), session('s2', 4, { retry: true, total: 4 })]);
+    assert.equal(progress.attempts, 1);
+    assert.equal(progress.best?.id, 's1');
+  });
+});
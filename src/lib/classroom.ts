@@ -0,0 +1,100 @@
+import { Assignment, ClassRoom, Profile, SessionResult, UserSettings } from '../types';
+
+const CLASSES_KEY = 'tafel-classes';
+const ASSIGNMENTS_KEY = 'tafel-assignments';
+
+function readList<T>(key: string): T[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+// Deleted classes and assignments stay stored as tombstones so the deletion can sync
+export function loadClasses(): ClassRoom[] {
+  return readList<ClassRoom>(CLASSES_KEY);
+}
+
+export function saveClasses(classes: ClassRoom[]) {
+  localStorage.setItem(CLASSES_KEY, JSON.stringify(classes));
+}
+
+export function loadAssignments(): Assignment[] {
+  return readList<Assignment>(ASSIGNMENTS_KEY);
+}
+
+export function saveAssignments(assignments: Assignment[]) {
+  localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
+}
+
+export function createClass(name: string, teacherId: string): ClassRoom {
+  return { id: crypto.randomUUID(), name, teacherId, pupilIds: [], updatedAt: Date.now() };
+}
+
+export function createAssignment(
+  classId: string,
+  title: string,
+  selection: Pick<UserSettings, 'multiplicationTables' | 'divisionTables' | 'exerciseCount' | 'multiplierRange'>,
+  deadline: number
+): Assignment {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    classId,
+    title,
+    multiplicationTables: [...selection.multiplicationTables],
+    divisionTables: [...selection.divisionTables],
+    exerciseCount: selection.exerciseCount,
+    multiplierRange: { ...selection.multiplierRange },
+    deadline,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+// Keeps whichever copy was written last, used both for local edits and for sync
+export function mergeByUpdatedAt<T extends { id: string; updatedAt: number }>(local: T[], remote: T[]): T[] {
+  const merged = new Map(local.map(item => [item.id, item]));
+  remote.forEach(item => {
+    const current = merged.get(item.id);
+    if (!current || item.updatedAt > current.updatedAt) merged.set(item.id, item);
+  });
+  return [...merged.values()];
+}
+
+export function assignmentsForPupil(profileId: string, classes: ClassRoom[], assignments: Assignment[]): Assignment[] {
+  const classIds = new Set(classes.filter(c => !c.deleted && c.pupilIds.includes(profileId)).map(c => c.id));
+  return assignments
+    .filter(a => !a.deleted && classIds.has(a.classId))
+    .sort((a, b) => a.deadline - b.deadline);
+}
+
+export interface AssignmentProgress {
+  pupil: Profile;
+  best?: SessionResult; // Highest score, then fastest
+  attempts: number;
+  finishedOnTime: boolean;
+}
+
+export function assignmentProgress(assignment: Assignment, pupils: Profile[], sessions: SessionResult[]): AssignmentProgress[] {
+  return pupils.map(pupil => {
+    // A session the pupil stopped halfway doesn't finish the assignment, and a retry of only the
+    // mistakes would make the best score look better than it was
+    const own = sessions.filter(s => s.assignmentId === assignment.id && s.profileId === pupil.id && !s.partial && !s.retry);
+    const best = [...own].sort((a, b) =>
+      b.correct / b.total - a.correct / a.total || (a.averageTimePerSum ?? Infinity) - (b.averageTimePerSum ?? Infinity)
+    )[0];
+    return {
+      pupil,
+      best,
+      attempts: own.length,
+      finishedOnTime: own.some(s => s.timestamp <= assignment.deadline)
+    };
+  });
+}
+
+export function isTeacher(profile: Profile | undefined): boolean {
+  return profile?.role === 'teacher';
+}
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EngineDeps } from './engine';
+import {
+  DuelPlayer,
+  DuelState,
+  answerDuel,
+  createDuel,
+  createDuelResults,
+  currentRound,
+  duelScores,
+  duelWinner,
+  nextDuelRound,
+  timeOutRound
+} from './duel';
+
+const PLAYERS: [DuelPlayer, DuelPlayer] = [
+  { profileId: 'a', name: 'Lien', avatar: '🦊' },
+  { profileId: 'b', name: 'Bram', avatar: '🐼' }
+];
+
+function clock(start = 1_000_000): EngineDeps & { advance: (ms: number) => void } {
+  let now = start;
+  return {
+    random: Math.random,
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    }
+  };
+}
+
+function duel(deps: EngineDeps, seed = 7): DuelState {
+  const created = createDuel(PLAYERS, {
+    selection: { multiplicationTables: [7], divisionTables: [], exerciseCount: 10 },
+    challenges: { enabled: false, weight: 0.2, formats: [] },
+    questionSeconds: 10,
+    seed
+  }, deps);
+  assert.ok(created);
+  return created;
+}
+
+const right = (state: DuelState) => String(currentRound(state).exercise.result);
+const wrong = (state: DuelState) => String(currentRound(state).exercise.result + 1);
+
+describe('createDuel', () => {
+  it('gives the same sums for the same seed', () => {
+    const deps = clock();
+    assert.deepEqual(duel(deps).exercises, duel(deps).exercises);
+    assert.equal(duel(deps).exercises.length, 10);
+  });
+});
+
+describe('answerDuel', () => {
+  it('gives the point to the first right answer and ends the round', () => {
+    const deps = clock();
+    const start = duel(deps);
+    deps.advance(1200);
+    const won = answerDuel(start, 1, right(start), deps);
+    assert.ok(won);
+    assert.equal(won.roundOver, true);
+    assert.equal(currentRound(won).winner, 1);
+    assert.deepEqual(currentRound(won).responseTimeMs, [undefined, 1200]);
+    assert.equal(answerDuel(won, 0, right(won), deps), null);
+  });
+
+  it('lets the other player take the point after a wrong answer', () => {
+    const deps = clock();
+    const missed = answerDuel(duel(deps), 0, wrong(duel(deps)), deps);
+    assert.ok(missed);
+    assert.equal(missed.roundOver, false);
+    assert.equal(answerDuel(missed, 0, right(missed), deps), null);
+    const won = answerDuel(missed, 1, right(missed), deps);
+    assert.ok(won);
+    assert.equal(currentRound(won).winner, 1);
+  });
+
+  it('ends the round without a point when both miss', () => {
+    const deps = clock();
+    const first = answerDuel(duel(deps), 0, wrong(duel(deps)), deps);
+    assert.ok(first);
+    const both = answerDuel(first, 1, 'abc', deps);
+    assert.ok(both);
+    assert.equal(both.roundOver, true);
+    assert.equal(currentRound(both).winner, null);
+  });
+});
+
+describe('duel results', () => {
+  it('finishes after the last sum and links both entries', () => {
+    const deps = clock();
+    let state = duel(deps);
+    let round = 0;
+    while (!state.finished) {
+      // Lien wins the even rounds, the odd ones run out of time
+      const next = round % 2 === 0 ? answerDuel(state, 0, right(state), deps) : timeOutRound(state);
+      assert.ok(next);
+      state = nextDuelRound(next, deps);
+      round++;
+    }
+    assert.deepEqual(duelScores(state), [5, 0]);
+    assert.equal(duelWinner(state), 0);
+
+    const [lien, bram] = createDuelResults(state, deps.now());
+    assert.equal(lien.profileId, 'a');
+    assert.equal(lien.correct, 5);
+    assert.equal(lien.total, 10);
+    assert.deepEqual(lien.duel, { id: state.id, opponentId: 'b', opponentName: 'Bram', score: 5, opponentScore: 0 });
+    assert.equal(bram.duel?.id, lien.duel?.id);
+    assert.equal(bram.timeouts, 10);
+  });
+});
@@ -0,0 +1,188 @@
+import { ChallengeSettings, DuelLink, Exercise, HistoryEntry, SessionResult } from '../types';
+import { EngineDeps, SessionOptions, createSession, defaultDeps, parseAnswer } from './engine';
+
+// Two players on one device race through the same seeded sums, and whoever answers right first wins the
+// point. Like a practice session the duel is a plain value: every step takes one and returns the next.
+
+export type DuelSide = 0 | 1;
+
+export interface DuelPlayer {
+  profileId: string;
+  name: string;
+  avatar: string;
+}
+
+export interface DuelRound {
+  exercise: Exercise;
+  winner: DuelSide | null; // null while undecided, and for a round nobody got right
+  tried: [boolean, boolean]; // A wrong answer sits out the rest of the round
+  answers: [number | null, number | null]; // null for no answer, or one that wasn't a number
+  responseTimeMs: [number | undefined, number | undefined];
+}
+
+export interface DuelState {
+  id: string;
+  players: [DuelPlayer, DuelPlayer];
+  seed: number;
+  selection: SessionOptions['selection'];
+  challenges: ChallengeSettings;
+  questionSeconds: number;
+  exercises: Exercise[]; // exercises[rounds.length - 1] is the sum on screen
+  rounds: DuelRound[]; // The last one is being played, or showing its outcome while roundOver
+  roundOver: boolean;
+  startedAt: number;
+  roundStartedAt: number;
+  finished: boolean;
+}
+
+export interface DuelOptions {
+  selection: SessionOptions['selection'];
+  challenges: ChallengeSettings;
+  questionSeconds: number;
+  seed: number;
+}
+
+function newRound(exercise: Exercise): DuelRound {
+  return { exercise, winner: null, tried: [false, false], answers: [null, null], responseTimeMs: [undefined, undefined] };
+}
+
+function replaceLast<T>(items: T[], item: T): T[] {
+  return [...items.slice(0, -1), item];
+}
+
+// The sums come from a seeded practice session, so a rematch with the same seed is the same duel.
+// Returns null when the selection holds no sums.
+export function createDuel(players: [DuelPlayer, DuelPlayer], options: DuelOptions, deps: EngineDeps = defaultDeps): DuelState | null {
+  const session = createSession({
+    selection: options.selection,
+    factStats: {},
+    timer: { mode: 'none', questionSeconds: options.questionSeconds, sprintSeconds: 60 },
+    adaptive: false,
+    challenges: options.challenges,
+    seed: options.seed
+  }, deps);
+  if (!session) return null;
+
+  const now = deps.now();
+  return {
+    id: crypto.randomUUID(),
+    players,
+    seed: options.seed,
+    selection: options.selection,
+    challenges: options.challenges,
+    questionSeconds: options.questionSeconds,
+    exercises: session.pool,
+    rounds: [newRound(session.pool[0])],
+    roundOver: false,
+    startedAt: now,
+    roundStartedAt: now,
+    finished: false
+  };
+}
+
+export function currentRound(duel: DuelState): DuelRound {
+  return duel.rounds[duel.rounds.length - 1];
+}
+
+// Whether this player may still answer the sum on screen
+export function canAnswer(duel: DuelState, side: DuelSide): boolean {
+  return !duel.finished && !duel.roundOver && !currentRound(duel).tried[side];
+}
+
+// Returns null when the answer doesn't count: the round is over, or this player already had a go.
+// A right answer wins the round; after a wrong one the other player can still take the point.
+export function answerDuel(duel: DuelState, side: DuelSide, input: string, deps: EngineDeps = defaultDeps): DuelState | null {
+  if (!canAnswer(duel, side)) return null;
+  const round = currentRound(duel);
+  const given = parseAnswer(input);
+  const tried: DuelRound['tried'] = [...round.tried];
+  const answers: DuelRound['answers'] = [...round.answers];
+  const responseTimeMs: DuelRound['responseTimeMs'] = [...round.responseTimeMs];
+  tried[side] = true;
+  answers[side] = given;
+  responseTimeMs[side] = deps.now() - duel.roundStartedAt;
+
+  const winner = given === round.exercise.result ? side : null;
+  return {
+    ...duel,
+    rounds: replaceLast(duel.rounds, { ...round, winner, tried, answers, responseTimeMs }),
+    roundOver: winner !== null || tried.every(Boolean)
+  };
+}
+
+// Nobody got it right in time
+export function timeOutRound(duel: DuelState): DuelState {
+  if (duel.finished || duel.roundOver) return duel;
+  return { ...duel, roundOver: true };
+}
+
+export function nextDuelRound(duel: DuelState, deps: EngineDeps = defaultDeps): DuelState {
+  if (duel.finished || !duel.roundOver) return duel;
+  const exercise = duel.exercises[duel.rounds.length];
+  if (!exercise) return { ...duel, finished: true };
+  return { ...duel, rounds: [...duel.rounds, newRound(exercise)], roundOver: false, roundStartedAt: deps.now() };
+}
+
+export function duelTimeLeft(duel: DuelState, now: number): number {
+  return Math.max(0, duel.questionSeconds - (now - duel.roundStartedAt) / 1000);
+}
+
+export function duelScores(duel: DuelState): [number, number] {
+  const points = (side: DuelSide) => duel.rounds.filter(round => round.winner === side).length;
+  return [points(0), points(1)];
+}
+
+// null for a draw
+export function duelWinner(duel: DuelState): DuelSide | null {
+  const [first, second] = duelScores(duel);
+  if (first === second) return null;
+  return first > second ? 0 : 1;
+}
+
+// One history entry per player, tied together by the duel id. A round counts as right for the player who
+// won it; a player who never answered before the round ended is marked as timed out.
+export function createDuelResults(duel: DuelState, now: number): [SessionResult, SessionResult] {
+  const scores = duelScores(duel);
+  const duration = now - duel.startedAt;
+
+  const resultFor = (side: DuelSide): SessionResult => {
+    const player = duel.players[side];
+    const opponent = duel.players[side === 0 ? 1 : 0];
+    const history: HistoryEntry[] = duel.rounds.map(round => ({
+      exercise: round.exercise,
+      correct: round.winner === side,
+      answer: round.answers[side],
+      timedOut: !round.tried[side],
+      responseTimeMs: round.responseTimeMs[side]
+    }));
+    const link: DuelLink = {
+      id: duel.id,
+      opponentId: opponent.profileId,
+      opponentName: opponent.name,
+      score: scores[side],
+      opponentScore: scores[side === 0 ? 1 : 0]
+    };
+    return {
+      id: crypto.randomUUID(),
+      profileId: player.profileId,
+      playerName: player.name,
+      multiplicationTables: [...duel.selection.multiplicationTables],
+      divisionTables: [...duel.selection.divisionTables],
+      additionLevels: [...duel.selection.additionLevels ?? []],
+      subtractionLevels: [...duel.selection.subtractionLevels ?? []],
+      exerciseCount: duel.selection.exerciseCount,
+      correct: scores[side],
+      total: history.length,
+      timestamp: now,
+      duration,
+      averageTimePerSum: history.length > 0 ? duration / history.length : 0,
+      timer: { mode: 'perQuestion', questionSeconds: duel.questionSeconds, sprintSeconds: 60 },
+      timeouts: history.filter(h => h.timedOut).length,
+      adaptive: false,
+      history,
+      duel: link
+    };
+  };
+
+  return [resultFor(0), resultFor(1)];
+}
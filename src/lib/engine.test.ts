@@ -0,0 +1,389 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChallengeSettings, HistoryEntry, TimerSettings } from '../types';
+import {
+  EngineDeps,
+  PracticeSession,
+  SessionOptions,
+  answerComplete,
+  answerQuestion,
+  cleanAnswerInput,
+  createPartialResult,
+  createRetrySession,
+  createSession,
+  currentExercise,
+  endSession,
+  gradeMastery,
+  nextQuestion,
+  parseAnswer,
+  pauseSession,
+  questionTimeLeft,
+  restoreSession,
+  resumeSession,
+  sessionLength,
+  sprintTimeLeft,
+  summarizeSession
+} from './engine';
+
+const PER_QUESTION: TimerSettings = { mode: 'perQuestion', questionSeconds: 10, sprintSeconds: 60 };
+const NO_CHALLENGES: ChallengeSettings = { enabled: false, weight: 0.2, formats: [] };
+
+// A fixed random sequence and a clock the test moves by hand
+function testDeps(start = 1_000_000): EngineDeps & { advance: (ms: number) => void } {
+  let seed = 42;
+  let now = start;
+  return {
+    random: () => {
+      seed = (seed * 16807) % 2147483647;
+      return (seed - 1) / 2147483646;
+    },
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    }
+  };
+}
+
+function options(overrides: Partial<SessionOptions['selection']> = {}, timer = PER_QUESTION, adaptive = false): SessionOptions {
+  return {
+    selection: { multiplicationTables: [7], divisionTables: [], exerciseCount: 'all', ...overrides },
+    factStats: {},
+    timer,
+    adaptive,
+    challenges: NO_CHALLENGES
+  };
+}
+
+function answerRight(session: PracticeSession, deps: EngineDeps): PracticeSession {
+  const exercise = currentExercise(session);
+  assert.ok(exercise);
+  const outcome = answerQuestion(session, String(exercise.result), deps);
+  assert.ok(outcome);
+  return nextQuestion(outcome.session, deps);
+}
+
+function answerWrong(session: PracticeSession, deps: EngineDeps): PracticeSession {
+  const exercise = currentExercise(session);
+  assert.ok(exercise);
+  const outcome = answerQuestion(session, String(exercise.result + 1), deps);
+  assert.ok(outcome);
+  return nextQuestion(outcome.session, deps);
+}
+
+describe('createSession', () => {
+  it('asks every fact of the selected tables for "all"', () => {
+    const session = createSession(options({ multiplicationTables: [3, 7], divisionTables: [7] }), testDeps());
+    assert.ok(session);
+    assert.equal(session.pool.length, 33);
+    assert.equal(session.plannedTotal, 33);
+  });
+
+  it('follows the multiplier range', () => {
+    const session = createSession(options({ multiplierRange: { min: 6, max: 12 } }), testDeps());
+    assert.ok(session);
+    assert.equal(session.pool.length, 7);
+    assert.ok(session.pool.every(ex => ex.a >= 6 && ex.a <= 12));
+  });
+
+  it('takes the exercise count from a larger selection', () => {
+    const session = createSession(options({ multiplicationTables: [2, 3, 4], exerciseCount: 20 }), testDeps());
+    assert.ok(session);
+    assert.equal(session.pool.length, 20);
+    assert.equal(new Set(session.pool.map(ex => `${ex.a}x${ex.b}`)).size, 20);
+  });
+
+  it('returns null without any selected sums', () => {
+    assert.equal(createSession(options({ multiplicationTables: [] }), testDeps()), null);
+  });
+
+  it('plans an endless sprint', () => {
+    const session = createSession(options({}, { ...PER_QUESTION, mode: 'sprint' }), testDeps());
+    assert.ok(session);
+    assert.equal(session.plannedTotal, Infinity);
+  });
+});
+
+describe('seeded sessions', () => {
+  const seeded = (seed: number, factStats: SessionOptions['factStats'] = {}) =>
+    createSession({ ...options({ multiplicationTables: [6, 7, 8], exerciseCount: 10 }), factStats, seed }, testDeps());
+
+  it('ask the same sums in the same order for the same seed', () => {
+    const first = seeded(1234);
+    const second = seeded(1234, { 'multiplication-7-7': { ease: 1.3, interval: 0, due: 0, lapses: 3, reps: 0, lastSeen: 0 } });
+    assert.ok(first && second);
+    assert.deepEqual(first.pool, second.pool);
+    assert.notDeepEqual(first.pool, seeded(4321)?.pool);
+  });
+
+  it('refill a sprint the same way for every player', () => {
+    const play = () => {
+      const deps = testDeps();
+      let session = createSession({ ...options({ multiplierRange: { min: 1, max: 3 } }, { ...PER_QUESTION, mode: 'sprint' }), seed: 99 }, deps);
+      assert.ok(session);
+      const asked = [];
+      for (let i = 0; i < 9; i++) {
+        asked.push(currentExercise(session));
+        session = answerRight(session, deps);
+      }
+      return asked;
+    };
+    assert.deepEqual(play(), play());
+  });
+});
+
+describe('sessionLength', () => {
+  it('clamps the exercise count to the available sums', () => {
+    assert.equal(sessionLength(50, 11, PER_QUESTION), 11);
+    assert.equal(sessionLength(10, 22, PER_QUESTION), 10);
+    assert.equal(sessionLength('all', 22, PER_QUESTION), 22);
+  });
+
+  it('has no end in a sprint', () => {
+    assert.equal(sessionLength(10, 22, { ...PER_QUESTION, mode: 'sprint' }), Infinity);
+  });
+
+  it('asks only the available sums when the count is larger', () => {
+    const session = createSession(options({ multiplierRange: { min: 3, max: 5 }, exerciseCount: 10 }), testDeps());
+    assert.ok(session);
+    assert.equal(session.plannedTotal, 3);
+  });
+});
+
+describe('answerQuestion', () => {
+  it('records the answer, the time taken and the score', () => {
+    const deps = testDeps();
+    const session = createSession(options(), deps);
+    assert.ok(session);
+    const exercise = currentExercise(session);
+    assert.ok(exercise);
+
+    deps.advance(2500);
+    const outcome = answerQuestion(session, String(exercise.result), deps);
+    assert.ok(outcome);
+    assert.deepEqual(outcome.entry, { exercise, correct: true, answer: exercise.result, timedOut: false, responseTimeMs: 2500 });
+    assert.deepEqual(outcome.session.stats, { correct: 1, total: 1 });
+    assert.equal(outcome.session.feedback, 'correct');
+  });
+
+  it('ignores a second answer while the feedback shows', () => {
+    const deps = testDeps();
+    const session = createSession(options(), deps);
+    assert.ok(session);
+    const outcome = answerQuestion(session, '1', deps);
+    assert.ok(outcome);
+    assert.equal(answerQuestion(outcome.session, '2', deps), null);
+  });
+
+  it('counts a timeout as a miss without an answer', () => {
+    const deps = testDeps();
+    const session = createSession(options(), deps);
+    assert.ok(session);
+    deps.advance(10_000);
+    assert.equal(questionTimeLeft(session, deps.now()), 0);
+
+    const outcome = answerQuestion(session, null, deps);
+    assert.ok(outcome);
+    assert.equal(outcome.entry.timedOut, true);
+    assert.equal(outcome.entry.correct, false);
+    assert.equal(outcome.entry.answer, null);
+    assert.equal(summarizeSession(outcome.session, deps.now()).timeouts, 1);
+  });
+
+  it('brings a miss back a few sums later in adaptive mode', () => {
+    const deps = testDeps();
+    const session = createSession(options({}, PER_QUESTION, true), deps);
+    assert.ok(session);
+    const missed = currentExercise(session);
+    const outcome = answerQuestion(session, '-1', deps);
+    assert.ok(outcome);
+    assert.equal(outcome.session.plannedTotal, session.plannedTotal + 1);
+    assert.equal(outcome.session.timer.questionSeconds, 12.5);
+    assert.deepEqual(outcome.session.pool[4], { ...missed, isRepeat: true });
+  });
+});
+
+describe('answer entry', () => {
+  it('only accepts whole numbers', () => {
+    assert.equal(parseAnswer('56'), 56);
+    assert.equal(parseAnswer(' 07 '), 7);
+    assert.equal(parseAnswer('12abc'), null);
+    assert.equal(parseAnswer('1e2'), null);
+    assert.equal(parseAnswer('-1'), null);
+    assert.equal(parseAnswer(''), null);
+    assert.equal(parseAnswer(null), null);
+  });
+
+  it('keeps the digits of typed or pasted text', () => {
+    assert.equal(cleanAnswerInput('5a6'), '56');
+    assert.equal(cleanAnswerInput('123456'), '1234');
+  });
+
+  it('is complete once it has as many digits as the result', () => {
+    const exercise = { a: 7, b: 8, op: 'multiplication' as const, result: 56 };
+    assert.equal(answerComplete('5', exercise), false);
+    assert.equal(answerComplete('54', exercise), true);
+    assert.equal(answerComplete('0', { ...exercise, b: 0, result: 0 }), true);
+  });
+});
+
+describe('nextQuestion', () => {
+  it('finishes after the planned number of sums', () => {
+    const deps = testDeps();
+    let session = createSession(options({ multiplierRange: { min: 1, max: 3 } }), deps);
+    assert.ok(session);
+    session = answerRight(session, deps);
+    session = answerWrong(session, deps);
+    assert.equal(session.finished, false);
+    session = answerRight(session, deps);
+    assert.equal(session.finished, true);
+    assert.equal(currentExercise(session), null);
+    assert.deepEqual(session.stats, { correct: 2, total: 3 });
+  });
+
+  it('refills a sprint when the pool runs dry', () => {
+    const deps = testDeps();
+    let session = createSession(options({ multiplierRange: { min: 1, max: 2 } }, { ...PER_QUESTION, mode: 'sprint' }), deps);
+    assert.ok(session);
+    for (let i = 0; i < 5; i++) session = answerRight(session, deps);
+    assert.equal(session.finished, false);
+    assert.ok(currentExercise(session));
+    assert.equal(session.stats.total, 5);
+  });
+
+  it('times a sprint from the start of the session', () => {
+    const deps = testDeps();
+    const session = createSession(options({}, { ...PER_QUESTION, mode: 'sprint', sprintSeconds: 60 }), deps);
+    assert.ok(session);
+    deps.advance(45_000);
+    assert.equal(sprintTimeLeft(session, deps.now()), 15);
+    assert.equal(questionTimeLeft(session, deps.now()), null);
+    assert.equal(endSession(session).finished, true);
+  });
+});
+
+describe('summarizeSession', () => {
+  it('uses the average over the whole session', () => {
+    const deps = testDeps();
+    let session = createSession(options({ multiplierRange: { min: 1, max: 4 } }), deps);
+    assert.ok(session);
+    while (!session.finished) {
+      deps.advance(1500);
+      session = answerRight(session, deps);
+    }
+    const result = summarizeSession(session, deps.now());
+    assert.equal(result.averageTimePerSum, 1500);
+    assert.equal(result.allCorrect, true);
+  });
+});
+
+describe('pause and resume', () => {
+  it('keeps the clocks still while paused', () => {
+    const deps = testDeps();
+    const session = createSession(options({}, { mode: 'sprint', questionSeconds: 10, sprintSeconds: 60 }), deps);
+    assert.ok(session);
+    deps.advance(20_000);
+    const paused = pauseSession(session, deps.now());
+    deps.advance(5 * 60_000);
+    const resumed = resumeSession(paused, deps);
+    assert.equal(resumed.pausedAt, undefined);
+    assert.equal(sprintTimeLeft(resumed, deps.now()), 40);
+  });
+
+  it('goes on with the next sum after a pause during the feedback', () => {
+    const deps = testDeps();
+    const session = createSession(options(), deps);
+    assert.ok(session);
+    const outcome = answerQuestion(session, '1', deps);
+    assert.ok(outcome);
+    const resumed = resumeSession(pauseSession(outcome.session, deps.now()), deps);
+    assert.equal(resumed.feedback, null);
+    assert.equal(currentExercise(resumed), outcome.session.pool[1]);
+  });
+
+  it('comes back from storage paused at the last save', () => {
+    const deps = testDeps();
+    const session = createSession(options({}, { mode: 'sprint', questionSeconds: 10, sprintSeconds: 60 }), deps);
+    assert.ok(session);
+    const restored = restoreSession(JSON.parse(JSON.stringify(session)), deps.now() + 1000);
+    assert.equal(restored.plannedTotal, Infinity);
+    assert.equal(restored.pausedAt, deps.now() + 1000);
+  });
+});
+
+describe('createPartialResult', () => {
+  it('saves what was answered up to the pause, marked partial', () => {
+    const deps = testDeps();
+    const session = createSession(options(), deps);
+    assert.ok(session);
+    deps.advance(2000);
+    const answered = answerRight(session, deps);
+    const paused = pauseSession(answered, deps.now());
+    deps.advance(60_000);
+
+    const result = createPartialResult(paused, { playerName: 'Lien' }, deps.now());
+    assert.ok(result);
+    assert.equal(result.partial, true);
+    assert.equal(result.total, 1);
+    assert.equal(result.duration, 2000);
+    assert.equal(createPartialResult(session, { playerName: 'Lien' }, deps.now()), null);
+  });
+
+  it('keeps the date of the pause when it is saved days later', () => {
+    const deps = testDeps();
+    const session = createSession(options(), deps);
+    assert.ok(session);
+    const paused = pauseSession(answerRight(session, deps), deps.now());
+    const pausedAt = deps.now();
+    deps.advance(3 * 24 * 60 * 60 * 1000);
+
+    const result = createPartialResult(paused, { playerName: 'Lien' }, deps.now());
+    assert.ok(result);
+    assert.equal(result.timestamp, pausedAt);
+  });
+});
+
+describe('createRetrySession', () => {
+  const exercise = (a: number) => ({ a, b: 7, op: 'multiplication' as const, result: a * 7 });
+  const history: HistoryEntry[] = [
+    { exercise: exercise(3), correct: true, answer: 21, timedOut: false },
+    { exercise: exercise(6), correct: false, answer: 41, timedOut: false },
+    { exercise: { ...exercise(8), isRepeat: true }, correct: false, answer: null, timedOut: true }
+  ];
+  const retryOptions = (timer: TimerSettings) => ({ selection: options().selection, timer, adaptive: false, challenges: NO_CHALLENGES });
+
+  it('asks only the sums that went wrong', () => {
+    const session = createRetrySession(history, retryOptions(PER_QUESTION), testDeps());
+    assert.ok(session);
+    assert.equal(session.plannedTotal, 2);
+    assert.equal(session.retry, true);
+    assert.deepEqual(session.pool.map(ex => ex.a).sort(), [6, 8]);
+  });
+
+  it('asks a sum that went wrong twice only once', () => {
+    const twice: HistoryEntry[] = [...history, { exercise: { ...exercise(6), isRepeat: true }, correct: false, answer: 40, timedOut: false }];
+    const session = createRetrySession(twice, retryOptions(PER_QUESTION), testDeps());
+    assert.ok(session);
+    assert.equal(session.plannedTotal, 2);
+    assert.deepEqual(session.pool.map(ex => ex.a).sort(), [6, 8]);
+  });
+
+  it('retries a sprint without the sprint clock', () => {
+    const session = createRetrySession(history, retryOptions({ ...PER_QUESTION, mode: 'sprint' }), testDeps());
+    assert.ok(session);
+    assert.equal(session.timer.mode, 'perQuestion');
+  });
+
+  it('returns null after a flawless session', () => {
+    assert.equal(createRetrySession(history.slice(0, 1), retryOptions(PER_QUESTION), testDeps()), null);
+  });
+});
+
+describe('gradeMastery', () => {
+  const exercise = { a: 6, b: 7, op: 'multiplication' as const, result: 42 };
+
+  it('keeps the score between 0 and 10', () => {
+    assert.deepEqual(gradeMastery({}, exercise, false), { 'multiplication-7': 0 });
+    assert.deepEqual(gradeMastery({ 'multiplication-7': 10 }, exercise, true), { 'multiplication-7': 10 });
+    assert.deepEqual(gradeMastery({ 'multiplication-7': 4 }, exercise, true), { 'multiplication-7': 5 });
+  });
+});
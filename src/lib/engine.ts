@@ -0,0 +1,306 @@
+import { ChallengeSettings, Exercise, FactStats, HistoryEntry, MasteryData, SessionResult, TimerSettings, UserSettings } from '../types';
+import { RandomFn, createSeededRandom, shuffle } from './random';
+import { buildSessionPool, factKey } from './scheduler';
+import { MAX_REINSERTS, nextTimeLimit, reinsertMissed } from './adaptive';
+import { mixInChallenges } from './challenges';
+import { FactSelection, buildFacts, masteryKey } from './pool';
+
+// The practice session as a plain value: every step takes a session and returns the next one, so the UI
+// only has to hold on to the latest value and the rules can be tested without React or real timers.
+
+export interface EngineDeps {
+  random: RandomFn;
+  now: () => number;
+}
+
+export const defaultDeps: EngineDeps = {
+  random: Math.random,
+  now: () => Date.now()
+};
+
+export interface SessionStats {
+  correct: number;
+  total: number;
+}
+
+export interface PracticeSession {
+  selection: SessionOptions['selection'];
+  seed?: number; // Set for sessions from a practice link, so every player gets the same sums
+  practiceCode?: string;
+  assignmentId?: string; // The teacher's assignment it was started for, so a resumed session still counts for it
+  retry?: boolean; // Only the mistakes of an earlier session
+  pool: Exercise[]; // pool[0] is the sum on screen
+  facts: Exercise[]; // Everything selected; a sprint reshuffles these when the pool runs dry
+  plannedTotal: number; // Infinity for a sprint
+  stats: SessionStats;
+  history: HistoryEntry[];
+  timer: TimerSettings; // Adaptive mode tunes questionSeconds as the session goes
+  adaptive: boolean;
+  challenges: ChallengeSettings;
+  reinserts: Record<string, number>; // Per fact key, how often adaptive mode brought it back
+  startedAt: number;
+  questionStartedAt: number;
+  feedback: 'correct' | 'incorrect' | null; // Set between an answer and the next sum
+  pausedAt?: number; // Set while paused; the clocks stand still until the session is resumed
+  finished: boolean;
+}
+
+export interface SessionOptions {
+  selection: FactSelection & { exerciseCount: UserSettings['exerciseCount'] };
+  factStats: FactStats;
+  timer: TimerSettings;
+  adaptive: boolean;
+  challenges: ChallengeSettings;
+  seed?: number;
+  practiceCode?: string;
+}
+
+export interface SessionSummary {
+  duration: number;
+  averageTimePerSum: number;
+  allCorrect: boolean;
+  timeouts: number;
+}
+
+function startSession(pool: Exercise[], facts: Exercise[], plannedTotal: number, options: Omit<SessionOptions, 'factStats'>, now: number): PracticeSession {
+  return {
+    selection: options.selection,
+    seed: options.seed,
+    practiceCode: options.practiceCode,
+    pool,
+    facts,
+    plannedTotal,
+    stats: { correct: 0, total: 0 },
+    history: [],
+    timer: options.timer,
+    adaptive: options.adaptive,
+    challenges: options.challenges,
+    reinserts: {},
+    startedAt: now,
+    questionStartedAt: now,
+    feedback: null,
+    finished: false
+  };
+}
+
+// How many sums a session asks; a count larger than the selection is cut down to what is there
+export function sessionLength(exerciseCount: UserSettings['exerciseCount'], available: number, timer: TimerSettings): number {
+  if (timer.mode === 'sprint') return Infinity;
+  if (exerciseCount === 'all') return available;
+  return Math.min(exerciseCount, available);
+}
+
+// Returns null when the selection holds no sums at all
+export function createSession(options: SessionOptions, deps: EngineDeps = defaultDeps): PracticeSession | null {
+  const facts = buildFacts(options.selection);
+  if (facts.length === 0) return null;
+
+  const now = deps.now();
+  const isSprint = options.timer.mode === 'sprint';
+  // A seeded session has to come out the same for everyone, so the player's own fact stats stay out of it
+  const random = options.seed !== undefined ? createSeededRandom(options.seed) : deps.random;
+  const factStats = options.seed !== undefined ? {} : options.factStats;
+  // Overdue and weak facts first, then unseen ones; a sprint cycles through everything
+  const ordered = isSprint
+    ? shuffle(facts, random)
+    : buildSessionPool(facts, factStats, sessionLength(options.selection.exerciseCount, facts.length, options.timer), now, random);
+  const pool = mixInChallenges(ordered, options.challenges, random);
+
+  return startSession(pool, facts, isSprint ? Infinity : pool.length, options, now);
+}
+
+// A new session with only the sums that went wrong; returns null when there were none. A retry is the
+// player's own practice, so it is never seeded.
+export function createRetrySession(
+  history: HistoryEntry[],
+  options: Omit<SessionOptions, 'factStats' | 'seed' | 'practiceCode'>,
+  deps: EngineDeps = defaultDeps
+): PracticeSession | null {
+  // A sum missed twice, once more as a repeat, is still asked only once
+  const seen = new Set<string>();
+  const mistakes = history
+    .filter(h => !h.correct)
+    .map(h => h.exercise)
+    .filter(exercise => !seen.has(factKey(exercise)) && seen.add(factKey(exercise)));
+  if (mistakes.length === 0) return null;
+
+  // Mistakes from a sprint are retried one by one, without the sprint clock
+  const timer: TimerSettings = options.timer.mode === 'sprint' ? { ...options.timer, mode: 'perQuestion' } : options.timer;
+  const pool = shuffle(mistakes, deps.random);
+  return { ...startSession(pool, mistakes, pool.length, { ...options, timer }, deps.now()), retry: true };
+}
+
+export function currentExercise(session: PracticeSession): Exercise | null {
+  return session.finished ? null : session.pool[0] ?? null;
+}
+
+// Longest answer the field takes; the biggest result is 20 × 20
+export const MAX_ANSWER_DIGITS = 4;
+
+// Digits only, so "12abc" or "1e2" is no answer at all; null for an empty field or a timeout
+export function parseAnswer(input: string | null): number | null {
+  if (input === null) return null;
+  const digits = input.trim();
+  return /^\d+$/.test(digits) ? Number(digits) : null;
+}
+
+// What the answer field keeps of typed or pasted text
+export function cleanAnswerInput(input: string): string {
+  return input.replace(/\D/g, '').slice(0, MAX_ANSWER_DIGITS);
+}
+
+// Auto-submit fires once the answer is as long as the expected result, right or wrong
+export function answerComplete(input: string, exercise: Exercise): boolean {
+  return input.length >= String(exercise.result).length;
+}
+
+export interface AnswerOutcome {
+  session: PracticeSession;
+  entry: HistoryEntry;
+}
+
+// `input` is null when the time ran out. Returns null when there is nothing to answer, like a second
+// submit while the feedback of the first one is still showing.
+export function answerQuestion(session: PracticeSession, input: string | null, deps: EngineDeps = defaultDeps): AnswerOutcome | null {
+  const exercise = currentExercise(session);
+  if (!exercise || session.feedback) return null;
+
+  const now = deps.now();
+  const responseTimeMs = now - session.questionStartedAt;
+  const given = parseAnswer(input);
+  const correct = given === exercise.result;
+  const entry: HistoryEntry = { exercise, correct, answer: given, timedOut: input === null, responseTimeMs };
+
+  let { pool, plannedTotal, timer, reinserts } = session;
+  // Adaptive mode: tune the limit for the next sum and bring a miss back a few sums later
+  if (session.adaptive) {
+    if (timer.mode === 'perQuestion') {
+      timer = { ...timer, questionSeconds: nextTimeLimit(timer.questionSeconds, correct, responseTimeMs) };
+    }
+    const fact = factKey(exercise);
+    const repeats = reinserts[fact] ?? 0;
+    if (!correct && repeats < MAX_REINSERTS) {
+      reinserts = { ...reinserts, [fact]: repeats + 1 };
+      pool = reinsertMissed(pool, exercise);
+      plannedTotal += 1;
+    }
+  }
+
+  return {
+    entry,
+    session: {
+      ...session,
+      pool,
+      plannedTotal,
+      timer,
+      reinserts,
+      stats: { correct: session.stats.correct + (correct ? 1 : 0), total: session.stats.total + 1 },
+      history: [...session.history, entry],
+      feedback: correct ? 'correct' : 'incorrect'
+    }
+  };
+}
+
+// Moves on after the feedback, or finishes when every planned sum has been answered
+export function nextQuestion(session: PracticeSession, deps: EngineDeps = defaultDeps): PracticeSession {
+  if (session.finished) return session;
+  if (session.stats.total >= session.plannedTotal) {
+    return { ...session, feedback: null, finished: true };
+  }
+  // A sprint keeps going, so refill with a fresh shuffle when the pool runs dry. A seeded sprint derives
+  // each refill from the seed and the number of answers, which keeps the session a plain value.
+  const random = session.seed !== undefined ? createSeededRandom(session.seed + session.stats.total) : deps.random;
+  const pool = session.pool.length > 1
+    ? session.pool.slice(1)
+    : mixInChallenges(shuffle(session.facts, random), session.challenges, random);
+  return { ...session, pool, feedback: null, questionStartedAt: deps.now() };
+}
+
+// The sprint clock ran out, or the player stopped
+export function endSession(session: PracticeSession): PracticeSession {
+  return { ...session, feedback: null, finished: true };
+}
+
+export function pauseSession(session: PracticeSession, now: number): PracticeSession {
+  if (session.finished || session.pausedAt !== undefined) return session;
+  return { ...session, pausedAt: now };
+}
+
+// Shifts both clocks by the length of the pause, so the sum and the sprint go on with the time they had.
+// A pause that fell during the feedback on an answer goes on with the next sum.
+export function resumeSession(session: PracticeSession, deps: EngineDeps = defaultDeps): PracticeSession {
+  if (session.pausedAt === undefined) return session;
+  const { pausedAt, ...running } = session;
+  const pause = deps.now() - pausedAt;
+  const resumed = { ...running, startedAt: session.startedAt + pause, questionStartedAt: session.questionStartedAt + pause };
+  return resumed.feedback ? nextQuestion(resumed, deps) : resumed;
+}
+
+// A session read back after a reload: JSON turned a sprint's Infinity into null, and the time between the
+// last save and now doesn't count, so it comes back paused at the moment it was saved
+export function restoreSession(saved: PracticeSession, savedAt: number): PracticeSession {
+  return { ...saved, plannedTotal: saved.plannedTotal ?? Infinity, pausedAt: saved.pausedAt ?? savedAt };
+}
+
+// Seconds left for the current sum, or null when sums have no limit
+export function questionTimeLeft(session: PracticeSession, now: number): number | null {
+  if (session.timer.mode !== 'perQuestion') return null;
+  return Math.max(0, session.timer.questionSeconds - (now - session.questionStartedAt) / 1000);
+}
+
+// Seconds left in a sprint, or null outside sprint mode
+export function sprintTimeLeft(session: PracticeSession, now: number): number | null {
+  if (session.timer.mode !== 'sprint') return null;
+  return Math.max(0, session.timer.sprintSeconds - (now - session.startedAt) / 1000);
+}
+
+export function summarizeSession(session: PracticeSession, now: number): SessionSummary {
+  const duration = now - session.startedAt;
+  return {
+    duration,
+    averageTimePerSum: session.stats.total > 0 ? duration / session.stats.total : 0,
+    allCorrect: session.stats.total > 0 && session.stats.correct === session.stats.total,
+    timeouts: session.history.filter(h => h.timedOut).length
+  };
+}
+
+// The 0-10 score per table (or level) goes up one for a right answer and down one for a wrong one
+export function gradeMastery(mastery: MasteryData, exercise: Exercise, correct: boolean): MasteryData {
+  const key = masteryKey(exercise);
+  const score = mastery[key] || 0;
+  return { ...mastery, [key]: correct ? Math.min(10, score + 1) : Math.max(0, score - 1) };
+}
+
+export type SessionMeta = Pick<SessionResult, 'profileId' | 'assignmentId' | 'playerName'>;
+
+export function createSessionResult(session: PracticeSession, summary: SessionSummary, meta: SessionMeta, now: number): SessionResult {
+  const { selection } = session;
+  return {
+    id: crypto.randomUUID(),
+    ...meta,
+    multiplicationTables: [...selection.multiplicationTables],
+    divisionTables: [...selection.divisionTables],
+    additionLevels: [...selection.additionLevels ?? []],
+    subtractionLevels: [...selection.subtractionLevels ?? []],
+    practiceCode: session.practiceCode,
+    exerciseCount: selection.exerciseCount,
+    retry: session.retry,
+    correct: session.stats.correct,
+    total: session.stats.total,
+    timestamp: now,
+    duration: summary.duration,
+    averageTimePerSum: summary.averageTimePerSum,
+    timer: session.timer,
+    timeouts: summary.timeouts,
+    adaptive: session.adaptive,
+    history: session.history
+  };
+}
+
+// A session the player walked away from, saved up to where they stopped; null when nothing was answered.
+// It is dated to the pause, so a session stopped on Monday and cleared on Thursday still counts for Monday.
+export function createPartialResult(session: PracticeSession, meta: SessionMeta, now: number): SessionResult | null {
+  if (session.stats.total === 0) return null;
+  const stoppedAt = session.pausedAt ?? now;
+  return { ...createSessionResult(session, summarizeSession(session, stoppedAt), meta, stoppedAt), partial: true };
+}
@@ -0,0 +1,66 @@
+import { Exercise, Operation, SessionResult } from '../types';
+import { factKey } from './scheduler';
+
+export interface FactAttempt {
+  sessionId: string;
+  timestamp: number;
+  correct: boolean;
+  answer: number | null;
+  timedOut: boolean;
+  timeMs?: number;
+}
+
+export interface FactSummary {
+  attempts: number;
+  accuracy: number; // 0..1
+  medianTimeMs?: number;
+}
+
+// Groups every stored answer by fact, oldest first
+export function collectFactAttempts(sessions: SessionResult[]): Map<string, FactAttempt[]> {
+  const byFact = new Map<string, FactAttempt[]>();
+  const ordered = [...sessions].sort((a, b) => a.timestamp - b.timestamp);
+
+  ordered.forEach(session => {
+    session.history.forEach(item => {
+      const key = factKey(item.exercise);
+      const attempts = byFact.get(key) ?? [];
+      attempts.push({
+        sessionId: session.id,
+        timestamp: session.timestamp,
+        correct: item.correct,
+        answer: item.answer,
+        timedOut: item.timedOut,
+        // Old sessions only know the session average
+        timeMs: item.responseTimeMs ?? session.averageTimePerSum
+      });
+      byFact.set(key, attempts);
+    });
+  });
+
+  return byFact;
+}
+
+export function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function summarizeAttempts(attempts: FactAttempt[]): FactSummary {
+  const correct = attempts.filter(a => a.correct).length;
+  const times = attempts.filter(a => a.correct && a.timeMs !== undefined).map(a => a.timeMs!);
+  return {
+    attempts: attempts.length,
+    accuracy: attempts.length > 0 ? correct / attempts.length : 0,
+    medianTimeMs: median(times)
+  };
+}
+
+// The grid cell a fact belongs to: row is the table, column the multiplier or quotient
+export function gridExercise(op: Operation, table: number, n: number): Exercise {
+  return op === 'multiplication'
+    ? { a: n, b: table, op, result: table * n }
+    : { a: table * n, b: table, op, result: n };
+}
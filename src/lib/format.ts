@@ -0,0 +1,27 @@
+import { Exercise, Operation } from '../types';
+import { formatDecimal, t } from './i18n';
+
+const SYMBOLS: Record<Operation, string> = {
+  multiplication: '×',
+  division: '÷',
+  addition: '+',
+  subtraction: '−'
+};
+
+export function operatorSymbol(op: Operation): string {
+  return SYMBOLS[op];
+}
+
+// The sum as asked, without the answer
+export function formatPrompt(exercise: Exercise): string {
+  return exercise.display ?? `${exercise.a} ${operatorSymbol(exercise.op)} ${exercise.b} =`;
+}
+
+export function formatExercise(exercise: Exercise): string {
+  if (exercise.display) return `${exercise.display} → ${exercise.result}`;
+  return `${exercise.a} ${operatorSymbol(exercise.op)} ${exercise.b} = ${exercise.result}`;
+}
+
+export function formatSeconds(ms: number, digits = 1): string {
+  return t('format.seconds', { value: formatDecimal(ms / 1000, digits) });
+}
@@ -0,0 +1,179 @@
+import { SessionResult } from '../types';
+
+export interface SessionQuery {
+  profileId?: string;
+  assignmentId?: string;
+  practiceCode?: string;
+  from?: number; // Inclusive timestamp
+  to?: number; // Inclusive timestamp
+  multiplicationTables?: number[]; // Matches sessions that practised any of these
+  divisionTables?: number[];
+  offset?: number;
+  limit?: number;
+}
+
+export interface SessionPage {
+  sessions: SessionResult[]; // Newest first
+  hasMore: boolean;
+}
+
+export interface HistoryStorageAdapter {
+  put(session: SessionResult): Promise<void>;
+  putMany(sessions: SessionResult[]): Promise<void>;
+  query(query?: SessionQuery): Promise<SessionPage>;
+  getMany(ids: string[]): Promise<SessionResult[]>; // Skips ids that aren't stored
+  deleteByProfile(profileId: string): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+}
+
+const DB_NAME = 'tafelkampioen';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+
+export function matchesQuery(session: SessionResult, query: SessionQuery): boolean {
+  if (query.profileId && session.profileId !== query.profileId) return false;
+  if (query.assignmentId && session.assignmentId !== query.assignmentId) return false;
+  if (query.practiceCode && session.practiceCode !== query.practiceCode) return false;
+  if (query.from !== undefined && session.timestamp < query.from) return false;
+  if (query.to !== undefined && session.timestamp > query.to) return false;
+
+  const wantsMul = query.multiplicationTables ?? [];
+  const wantsDiv = query.divisionTables ?? [];
+  if (wantsMul.length === 0 && wantsDiv.length === 0) return true;
+  return wantsMul.some(t => session.multiplicationTables.includes(t))
+    || wantsDiv.some(t => session.divisionTables.includes(t));
+}
+
+function paginate(matching: SessionResult[], query: SessionQuery): SessionPage {
+  const offset = query.offset ?? 0;
+  const end = query.limit !== undefined ? offset + query.limit : matching.length;
+  return { sessions: matching.slice(offset, end), hasMore: matching.length > end };
+}
+
+export function createMemoryAdapter(initial: SessionResult[] = []): HistoryStorageAdapter {
+  let sessions = [...initial];
+
+  return {
+    async put(session) {
+      sessions = [session, ...sessions.filter(s => s.id !== session.id)];
+    },
+    async putMany(items) {
+      const ids = new Set(items.map(s => s.id));
+      sessions = [...items, ...sessions.filter(s => !ids.has(s.id))];
+    },
+    async query(query = {}) {
+      const matching = sessions
+        .filter(s => matchesQuery(s, query))
+        .sort((a, b) => b.timestamp - a.timestamp);
+      return paginate(matching, query);
+    },
+    async getMany(ids) {
+      const wanted = new Set(ids);
+      return sessions.filter(s => wanted.has(s.id));
+    },
+    async deleteByProfile(profileId) {
+      sessions = sessions.filter(s => s.profileId !== profileId);
+    },
+    async deleteMany(ids) {
+      const gone = new Set(ids);
+      sessions = sessions.filter(s => !gone.has(s.id));
+    }
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(SESSIONS, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+    store.createIndex('profileId', 'profileId');
+  };
+  return promisify(request);
+}
+
+export function createIndexedDbAdapter(): HistoryStorageAdapter {
+  const db = openDatabase();
+
+  const write = async (sessions: SessionResult[]) => {
+    const tx = (await db).transaction(SESSIONS, 'readwrite');
+    const store = tx.objectStore(SESSIONS);
+    sessions.forEach(session => store.put(session));
+    await transactionDone(tx);
+  };
+
+  return {
+    put: session => write([session]),
+    putMany: write,
+    async query(query = {}) {
+      const tx = (await db).transaction(SESSIONS, 'readonly');
+      const range = query.from !== undefined && query.to !== undefined
+        ? IDBKeyRange.bound(query.from, query.to)
+        : query.from !== undefined
+          ? IDBKeyRange.lowerBound(query.from)
+          : query.to !== undefined
+            ? IDBKeyRange.upperBound(query.to)
+            : undefined;
+
+      const offset = query.offset ?? 0;
+      const wanted = query.limit !== undefined ? offset + query.limit + 1 : Infinity;
+      const matching: SessionResult[] = [];
+
+      // Walk the timestamp index newest first and stop once one extra match proves there is a next page
+      await new Promise<void>((resolve, reject) => {
+        const request = tx.objectStore(SESSIONS).index('timestamp').openCursor(range, 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || matching.length >= wanted) {
+            resolve();
+            return;
+          }
+          const session = cursor.value as SessionResult;
+          if (matchesQuery(session, query)) matching.push(session);
+          cursor.continue();
+        };
+      });
+
+      return paginate(matching, query);
+    },
+    async getMany(ids) {
+      const store = (await db).transaction(SESSIONS, 'readonly').objectStore(SESSIONS);
+      const found = await Promise.all(ids.map(id => promisify<SessionResult | undefined>(store.get(id))));
+      return found.filter((session): session is SessionResult => session !== undefined);
+    },
+    async deleteByProfile(profileId) {
+      const tx = (await db).transaction(SESSIONS, 'readwrite');
+      const store = tx.objectStore(SESSIONS);
+      const keys = await promisify(store.index('profileId').getAllKeys(profileId));
+      keys.forEach(key => store.delete(key));
+      await transactionDone(tx);
+    },
+    async deleteMany(ids) {
+      const tx = (await db).transaction(SESSIONS, 'readwrite');
+      const store = tx.objectStore(SESSIONS);
+      ids.forEach(id => store.delete(id));
+      await transactionDone(tx);
+    }
+  };
+}
+
+export function createHistoryStore(): HistoryStorageAdapter {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbAdapter() : createMemoryAdapter();
+}
+
+export const historyStore = createHistoryStore();
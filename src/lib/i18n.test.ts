@@ -0,0 +1,36 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatDecimal, setLocale, t } from './i18n';
+
+describe('t', () => {
+  afterEach(() => setLocale('nl'));
+
+  it('fills in placeholders in the active language', () => {
+    assert.equal(t('results.wellDone', { name: 'Lien' }), 'Goed gedaan, Lien!');
+    setLocale('fr');
+    assert.equal(t('results.wellDone', { name: 'Lien' }), 'Bien joué, Lien !');
+  });
+
+  it('picks the plural form from the count', () => {
+    assert.equal(t('practice.sums', { count: 1 }), '1 som');
+    assert.equal(t('practice.sums', { count: 20 }), '20 sommen');
+    setLocale('en');
+    assert.equal(t('badges.new', { count: 1 }), 'New badge!');
+    assert.equal(t('badges.new', { count: 3 }), '3 new badges!');
+  });
+
+  it('falls back to Dutch for an unknown language', () => {
+    setLocale('de' as never);
+    assert.equal(t('settings.title'), 'Instellingen');
+  });
+});
+
+describe('formatDecimal', () => {
+  afterEach(() => setLocale('nl'));
+
+  it('uses the decimal separator of the language', () => {
+    assert.equal(formatDecimal(1.5, 2), '1,50');
+    setLocale('en');
+    assert.equal(formatDecimal(1.5, 2), '1.50');
+  });
+});
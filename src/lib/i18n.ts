@@ -0,0 +1,83 @@
+import { Locale } from '../types';
+import nl from './messages/nl';
+import en from './messages/en';
+import fr from './messages/fr';
+
+// A plain text, or one text per plural form; 'zero' is optional and wins over the language's own rule for 0
+export type PluralMessage = { zero?: string; one: string; other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof nl;
+export type Catalogue = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE: Locale = 'nl';
+
+// Labels stay in their own language, so a child can find theirs whatever is showing now
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'nl', label: 'Nederlands' },
+  { locale: 'fr', label: 'Français' },
+  { locale: 'en', label: 'English' }
+];
+
+const CATALOGUES: Record<Locale, Catalogue> = { nl, en, fr };
+
+// Region used for numbers and dates; English follows the UK day-month order
+const INTL_TAGS: Record<Locale, string> = { nl: 'nl-NL', en: 'en-GB', fr: 'fr-BE' };
+
+let current: Locale = DEFAULT_LOCALE;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in CATALOGUES;
+}
+
+// The whole app speaks one language at a time, so the active locale is module state rather than React context
+export function setLocale(locale: Locale): void {
+  current = isLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+export function getLocale(): Locale {
+  return current;
+}
+
+// BCP 47 tag of the active language, for Intl and the speech synthesis voice
+export function localeTag(): string {
+  return INTL_TAGS[current];
+}
+
+function pluralForm(message: PluralMessage, count: number): string {
+  if (count === 0 && message.zero !== undefined) return message.zero;
+  return new Intl.PluralRules(INTL_TAGS[current]).select(count) === 'one' ? message.one : message.other;
+}
+
+// Looks a message up in the active catalogue and fills in {name} placeholders; plural messages pick their form
+// from params.count. Numbers are formatted for the locale, so pass years and codes as strings.
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGUES[current][key] ?? nl[key];
+  const text = typeof message === 'string' ? message : pluralForm(message, Number(params.count ?? 0));
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(INTL_TAGS[current], options);
+}
+
+// Fixed decimals, like toFixed but with the decimal comma where the language uses one
+export function formatDecimal(value: number, digits: number): string {
+  return formatNumber(value, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+export function formatDate(timestamp: number | Date, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(timestamp).toLocaleDateString(INTL_TAGS[current], options);
+}
+
+export function formatDateTime(timestamp: number | Date): string {
+  return new Date(timestamp).toLocaleString(INTL_TAGS[current]);
+}
+
+export function formatTime(timestamp: number | Date): string {
+  return new Date(timestamp).toLocaleTimeString(INTL_TAGS[current], { hour: '2-digit', minute: '2-digit' });
+}
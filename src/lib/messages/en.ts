@@ -0,0 +1,335 @@
+import type { Catalogue } from '../i18n';
+
+const en: Catalogue = {
+  'app.tagline': 'Become the master of the times tables!',
+  'app.anonymous': 'Anonymous',
+  'app.nameFirst': 'Fill in your name first!',
+  'app.chooseFirst': 'First choose at least one table or kind of sum to practise!',
+  'app.footer': 'Made for little champions 🌟',
+  'app.credits': 'This app was made by Glenn Evens with the help of AI.',
+
+  'common.on': 'On',
+  'common.off': 'Off',
+  'common.sure': 'Sure?',
+
+  'format.seconds': '{value}s',
+
+  'settings.multiplication': 'Multiplication (×)',
+  'settings.division': 'Division (÷)',
+  'settings.multipliers': 'Times (or result when dividing)',
+  'settings.all': 'All',
+  'settings.title': 'Settings',
+  'settings.playerName': 'Player name',
+  'settings.namePlaceholder': 'Type your name...',
+  'settings.isTeacher': 'This is a teacher',
+  'settings.confirmTeacher': 'Sure? Tap again to become a teacher',
+  'settings.language': 'Language',
+  'settings.assignmentLock': 'The tables and the number of sums are set by the assignment.',
+  'settings.tables': 'Tables',
+  'settings.mixHint': 'Pick tables and plus or minus sums, and you get them mixed.',
+  'settings.recordForChoice': 'Record for this choice',
+  'settings.noRecord': 'No record yet',
+  'settings.allRecords': 'All records',
+  'settings.exerciseCount': 'Number of sums',
+  'settings.adaptive': 'Smart practice',
+  'settings.adaptiveHint': 'Fast and right? Then you get less time. A mistake comes back a few sums later.',
+  'settings.readAloud': 'Read aloud',
+  'settings.readAloudHint': 'Every sum, and whether your answer was right, is read out loud.',
+  'settings.readAloudUnavailable': 'This device has no voice for this language and there are no recorded clips, so nothing will be read aloud.',
+  'settings.keypad': 'On-screen number keys',
+  'settings.keypadHint': 'Big buttons instead of your tablet’s keyboard.',
+  'settings.autoSubmit': 'Check straight away',
+  'settings.autoSubmitHint': 'Your answer is checked as soon as it has enough digits, without Enter.',
+  'settings.start': 'Start practising!',
+
+  'practice.multiplierRange': 'times {min} to {max}',
+  'practice.sprint': '{seconds}-second sprint',
+  'practice.allSums': 'all sums',
+  'practice.sums': { one: '{count} sum', other: '{count} sums' },
+  'practice.secondsPerSum': '{seconds}s per sum',
+  'practice.untimed': 'untimed',
+  'practice.withChallenges': 'with challenges',
+  'practice.question': 'Question {number} of {total}',
+  'practice.again': 'Once more!',
+  'practice.challenge': 'Challenge!',
+  'practice.check': 'Check',
+  'practice.enterHint': 'Click the button or press Enter',
+  'practice.back': 'Back, you can carry on later',
+  'practice.repeat': 'Read the sum again',
+  'practice.answerLabel': 'Your answer to {question}',
+  'practice.keypad': 'Number keys',
+  'practice.backspace': 'Delete the last digit',
+  'practice.pause': 'Pause',
+  'practice.paused': 'Taking a break',
+  'practice.pausedHint': 'The clock stands still until you carry on.',
+  'practice.resume': 'Carry on',
+
+  'speech.times': 'times',
+  'speech.dividedBy': 'divided by',
+  'speech.plus': 'plus',
+  'speech.minus': 'minus',
+  'speech.equals': 'equals',
+  'speech.what': 'what',
+  'speech.correct': 'Right!',
+  'speech.wrong': 'Wrong.',
+  'speech.timeUp': 'Time is up.',
+  'speech.answerIs': 'The answer is',
+
+  'resume.title': 'You were still busy',
+  'resume.progress': '{answered} of {total} sums done, {correct} right',
+  'resume.sprintProgress': { one: 'Sprint: {count} sum done, {correct} right', other: 'Sprint: {count} sums done, {correct} right' },
+  'resume.continue': 'Carry on where you left off',
+  'resume.stop': 'Stop and save',
+
+  'results.wellDone': 'Well done, {name}!',
+  'results.einstein': 'You really are an Einstein.',
+  'results.correct': 'Right',
+  'results.wrong': 'Wrong',
+  'results.timedOut': 'Time up',
+  'results.newSprintRecord': 'New personal sprint record!',
+  'results.was': '(was {record})',
+  'results.newRecordRibbon': 'New Record!',
+  'results.newRecord': 'WOW! NEW RECORD!',
+  'results.averageSpeed': 'Average Speed',
+  'results.sec': 'sec',
+  'results.perSum': 'per sum',
+  'results.previousRecord': 'Previous record: {record}',
+  'results.yourRecord': 'Your record: {record}',
+  'results.retryMistakes': 'Redo the mistakes',
+  'results.again': 'Everything again!',
+  'results.changeSettings': 'Change settings',
+  'results.yourProgress': 'Your progress',
+  'results.overview': 'Overview',
+  'results.speed': 'Speed',
+  'results.selection': 'Selection',
+  'results.progress': 'Progress',
+  'results.sums': 'Sums',
+
+  'profiles.title': 'Players',
+  'profiles.delete': 'Delete player',
+  'profiles.confirmDelete': 'Delete {name}?',
+  'profiles.player': 'Player',
+  'profiles.changeAvatar': 'Pick another picture',
+  'profiles.newPlayer': 'New player',
+
+  'assignments.title': 'Class assignments',
+  'assignments.due': 'Due {date}',
+  'assignments.release': 'Let go',
+  'assignments.choose': 'Choose',
+
+  'history.timedOut': 'Time was up',
+  'history.wrongAnswer': 'You typed {answer}, the answer is {result}',
+  'history.rightAnswer': 'The answer is {result}',
+
+  'range.from': 'from',
+  'range.to': 'to',
+
+  'timer.title': 'Time',
+  'timer.none': 'No time',
+  'timer.perQuestion': 'Per sum',
+  'timer.sprint': 'Sprint',
+  'timer.minutes': '{minutes} min',
+  'timer.sprintHint': 'As many right sums as you can in {seconds} seconds.',
+  'timer.noneHint': 'Take your time, there is no clock running.',
+
+  'challenges.missingFactor': 'Missing number',
+  'challenges.reversed': 'Reversed',
+  'challenges.wordQuestion': 'Word question',
+  'challenges.chain': 'Chain',
+  'challenges.commutative': 'Swap',
+  'challenges.timesFits': 'How many times {b} is {product}?',
+  'challenges.fitsIn': 'How many times does {b} go into {a}?',
+  'challenges.so': '{quotient} × {b} = {a}, so {a} ÷ {b} =',
+  'challenges.title': 'Challenges',
+
+  'arithmetic.bonds10': 'Number bonds to 10',
+  'arithmetic.bonds20': 'Number bonds to 20',
+  'arithmetic.bonds100': 'Jumps to 100',
+  'arithmetic.noCarry20': 'Up to 20 without crossing ten',
+  'arithmetic.carry20': 'Up to 20 crossing ten',
+  'arithmetic.noCarry100': 'Up to 100 without crossing ten',
+  'arithmetic.carry100': 'Up to 100 crossing ten',
+  'arithmetic.addition': 'Addition (+)',
+  'arithmetic.subtraction': 'Subtraction (−)',
+
+  'records.sprint': '{minutes} min sprint',
+  'records.timed': 'timed per sum',
+  'records.correct': '{count} right',
+  'records.perSum': '{time} per sum',
+  'records.title': 'My records',
+  'records.explanation': 'Every choice of tables, number of sums and time has its own record. A session counts when it is flawless; in a sprint the number of right answers counts.',
+  'records.none': 'No records yet. Play a session without mistakes!',
+  'records.earlier': 'Earlier record, all choices together',
+
+  'streaks.minutes': { one: '{count} minute', other: '{count} minutes' },
+
+  'goal.today': 'Today’s goal',
+  'goal.days': { one: '{count} day', other: '{count} days' },
+  'goal.reached': 'Goal reached! {goal} practised.',
+  'goal.progress': '{done} of {goal}',
+
+  'calendar.title': 'Practice calendar',
+  'calendar.streak': 'Streak',
+  'calendar.bestStreak': 'Longest streak',
+  'calendar.jokers': 'Jokers',
+  'calendar.jokerHint': 'Every {days} days in a row that you reach your goal, you earn a joker (at most {max}). If you miss a day, a joker keeps your streak alive.',
+  'calendar.dayTitle': '{sums}, {minutes} min',
+  'calendar.goalReached': 'Goal reached',
+  'calendar.overHalf': 'More than half',
+  'calendar.aLittle': 'Practised a bit',
+  'calendar.jokerUsed': 'Joker used',
+  'calendar.notPractised': 'Not practised',
+  'calendar.dailyGoal': 'Daily goal: {goal}',
+  'calendar.sums': 'Sums',
+  'calendar.minutes': 'Minutes',
+
+  'progress.allSums': 'All sums',
+  'progress.allOfOperation': 'All {symbol} sums',
+  'progress.faster': '{label} is {percent}% faster than last month',
+  'progress.slower': '{label} is {percent}% slower than last month',
+  'progress.moreCorrect': '{label}: {points}% more right than last month',
+  'progress.lessCorrect': '{label}: {points}% fewer right than last month',
+  'progress.same': '{label} is going as well as last month',
+  'progress.noSums': 'No sums of this kind yet.',
+  'progress.accuracy': 'Answered right',
+  'progress.timePerSum': 'Time per sum',
+
+  'badges.perfectTable.title': 'Flawless × {table}',
+  'badges.perfectTable.description': 'Do at least 10 sums of the {table} times table without a mistake in one session.',
+  'badges.firstSession.title': 'First step',
+  'badges.firstSession.description': 'Play your first session.',
+  'badges.fivePerfect.title': 'Five in a row',
+  'badges.fivePerfect.description': 'Play five sessions in a row without a single mistake.',
+  'badges.lightning.title': 'Lightning fast',
+  'badges.lightning.description': 'Under 2 seconds per sum, flawless and with at least 10 sums.',
+  'badges.hundredInAWeek.title': 'A hundred in a week',
+  'badges.hundredInAWeek.description': 'Do 100 sums in 7 days.',
+  'badges.sprinter.title': 'Sprinter',
+  'badges.sprinter.description': 'Get 30 right answers in one sprint.',
+  'badges.allTablesMastered.title': 'Times table champion',
+  'badges.allTablesMastered.description': 'Fully master the tables from 1 to 10.',
+  'badges.title': 'Badges',
+  'badges.locked': 'Still to earn',
+  'badges.new': { one: 'New badge!', other: '{count} new badges!' },
+
+  'dashboard.title': 'Progress per sum',
+  'dashboard.rightAndFast': 'Right and fast',
+  'dashboard.right': 'Right',
+  'dashboard.rightButSlow': 'Right but slow',
+  'dashboard.sometimesWrong': 'Sometimes wrong',
+  'dashboard.oftenWrong': 'Often wrong',
+  'dashboard.notPractised': 'Not practised yet',
+  'dashboard.attempts': { one: 'Practised once', other: 'Practised {count} times' },
+  'dashboard.accuracy': '{percent}% right',
+  'dashboard.noAttempts': 'This sum has not been practised yet.',
+  'dashboard.timedOut': 'time up',
+  'dashboard.typed': 'you typed {answer}',
+
+  'duel.title': 'Duel',
+  'duel.hint': 'Play with two on one device. Whoever gives the right answer first wins the point.',
+  'duel.needSecondPlayer': 'Add a second player first to play a duel.',
+  'duel.against': 'Against whom?',
+  'duel.start': 'Start the duel',
+  'duel.round': 'Round {number} of {total}',
+  'duel.quit': 'Stop the duel',
+  'duel.point': 'Point!',
+  'duel.tooLate': 'Too late',
+  'duel.wrong': 'Wrong, wait a moment',
+  'duel.nobody': 'Nobody gets this point',
+  'duel.points': { one: '{count} point', other: '{count} points' },
+  'duel.wins': '{name} wins the duel!',
+  'duel.draw': 'It’s a draw!',
+  'duel.rounds': 'Rounds',
+  'duel.rematch': 'Another duel',
+  'duel.done': 'Done',
+
+  'sessions.title': 'Latest results',
+  'sessions.filter': 'Filter',
+  'sessions.clear': 'Clear history',
+  'sessions.allPlayers': 'All players',
+  'sessions.allTables': 'All tables',
+  'sessions.from': 'From',
+  'sessions.to': 'To',
+  'sessions.none': 'No results found.',
+  'sessions.loadMore': 'Load more',
+  'sessions.partial': 'stopped',
+  'sessions.duel': 'duel against {name} ({score}–{opponentScore})',
+
+  'share.title': 'Share practice',
+  'share.newLink': 'Make a new link',
+  'share.createLink': 'Make a link with this choice',
+  'share.copied': 'Copied',
+  'share.copy': 'Copy',
+  'share.explanation': 'Whoever opens this link gets exactly the same sums in the same order.',
+  'share.sharedPractice': 'Shared practice',
+  'share.notNow': 'Not now',
+  'share.start': 'Start this practice',
+  'share.samePractice': 'Same practice',
+
+  'sync.title': 'Sync',
+  'sync.idle': 'Not synced yet',
+  'sync.syncing': 'Syncing...',
+  'sync.ok': 'Synced',
+  'sync.error': 'Sync failed, we will try again later',
+  'sync.unauthorized': 'The server refuses the access code',
+  'sync.offline': 'Offline, we will sync as soon as there is internet',
+  'sync.placeholder': 'https://server.school.be (optional)',
+  'sync.token': 'Server access code',
+  'sync.now': 'Sync now',
+  'sync.at': 'at {time}',
+
+  'backup.invalidSession': 'A session in the backup is invalid.',
+  'backup.invalidSum': 'A sum in the backup is invalid.',
+  'backup.invalidPlayer': 'A player in the backup is invalid.',
+  'backup.invalidClass': 'A class in the backup is invalid.',
+  'backup.invalidAssignment': 'An assignment in the backup is invalid.',
+  'backup.missingSessions': 'The sessions of {name} are missing.',
+  'backup.aPlayer': 'a player',
+  'backup.invalidFile': 'This file is not a valid backup.',
+  'backup.notOurs': 'This file is not a TafelKampioen backup.',
+  'backup.tooNew': 'This backup comes from a newer version of the app.',
+  'backup.unsupportedVersion': 'Backup version {version} is not supported.',
+  'backup.noPlayers': 'The backup contains no players.',
+  'backup.csvHeader': 'session;date;player;assignment;sum;right answer;given answer;correct;timed out;time (ms)',
+  'backup.title': 'Backup',
+  'backup.save': 'Save',
+  'backup.restore': 'Restore',
+  'backup.unreadable': 'The file could not be read.',
+  'backup.exportFailed': 'Exporting failed, the history could not be read.',
+  'backup.restoreFailed': 'Restoring failed.',
+  'backup.players': { one: '{count} player', other: '{count} players' },
+  'backup.sessions': { one: '{count} session', other: '{count} sessions' },
+  'backup.restored': 'Restored {players} and {sessions}.',
+  'backup.pending': 'Backup from {date} with {players}.',
+  'backup.merge': 'Merge',
+  'backup.replace': 'Replace everything',
+
+  'update.version': 'Version {version} is ready',
+  'update.ready': 'An update is ready',
+  'update.keepsProgress': 'Your progress is kept.',
+  'update.apply': 'Update',
+  'update.later': 'Later',
+
+  'teacher.title': 'Class management',
+  'teacher.finished': '{finished} of {total} done',
+  'teacher.notDone': 'Not done yet',
+  'teacher.defaultTitle': 'Assignment',
+  'teacher.classes': 'Classes',
+  'teacher.newClassPlaceholder': 'Name of a new class...',
+  'teacher.addClass': 'Add class',
+  'teacher.pupilsOf': 'Pupils of {name}',
+  'teacher.deleteClass': 'Delete class',
+  'teacher.noPupils': 'No pupils yet.',
+  'teacher.removePupil': 'Remove from class',
+  'teacher.addExisting': 'Add an existing player...',
+  'teacher.newPupilPlaceholder': 'New pupil...',
+  'teacher.createPupil': 'Create pupil',
+  'teacher.newAssignment': 'New assignment',
+  'teacher.titlePlaceholder': 'Title, e.g. Test tables 7 and 8',
+  'teacher.deadline': 'Deadline',
+  'teacher.send': 'Send assignment',
+  'teacher.assignments': 'Assignments',
+  'teacher.deleteAssignment': 'Delete assignment'
+};
+
+export default en;
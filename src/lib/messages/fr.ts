@@ -0,0 +1,335 @@
+import type { Catalogue } from '../i18n';
+
+const fr: Catalogue = {
+  'app.tagline': 'Deviens le maître des tables !',
+  'app.anonymous': 'Anonyme',
+  'app.nameFirst': 'Écris d’abord ton nom !',
+  'app.chooseFirst': 'Choisis d’abord au moins une table ou un type de calcul à exercer !',
+  'app.footer': 'Fait pour les petits champions 🌟',
+  'app.credits': 'Cette app a été faite par Glenn Evens avec l’aide de l’IA.',
+
+  'common.on': 'Activé',
+  'common.off': 'Désactivé',
+  'common.sure': 'Sûr ?',
+
+  'format.seconds': '{value} s',
+
+  'settings.multiplication': 'Multiplication (×)',
+  'settings.division': 'Division (÷)',
+  'settings.multipliers': 'Fois (ou résultat en division)',
+  'settings.all': 'Tous',
+  'settings.title': 'Réglages',
+  'settings.playerName': 'Nom du joueur',
+  'settings.namePlaceholder': 'Tape ton nom...',
+  'settings.isTeacher': 'C’est un enseignant',
+  'settings.confirmTeacher': 'Sûr ? Touche encore pour devenir enseignant',
+  'settings.language': 'Langue',
+  'settings.assignmentLock': 'Les tables et le nombre de calculs sont fixés par le devoir.',
+  'settings.tables': 'Tables',
+  'settings.mixHint': 'Choisis des tables et des additions ou soustractions, et tu les reçois mélangées.',
+  'settings.recordForChoice': 'Record pour ce choix',
+  'settings.noRecord': 'Pas encore de record',
+  'settings.allRecords': 'Tous les records',
+  'settings.exerciseCount': 'Nombre de calculs',
+  'settings.adaptive': 'Exercice malin',
+  'settings.adaptiveHint': 'Rapide et juste ? Tu as alors moins de temps. Une erreur revient quelques calculs plus tard.',
+  'settings.readAloud': 'Lecture à voix haute',
+  'settings.readAloudHint': 'Chaque calcul, et si ta réponse était juste, est lu à voix haute.',
+  'settings.readAloudUnavailable': 'Cet appareil n’a pas de voix pour cette langue et il n’y a pas d’extraits enregistrés, donc rien ne sera lu à voix haute.',
+  'settings.keypad': 'Touches de chiffres à l’écran',
+  'settings.keypadHint': 'De grands boutons à la place du clavier de ta tablette.',
+  'settings.autoSubmit': 'Vérifier tout de suite',
+  'settings.autoSubmitHint': 'Ta réponse est vérifiée dès qu’elle a assez de chiffres, sans Entrée.',
+  'settings.start': 'Commence à t’exercer !',
+
+  'practice.multiplierRange': 'fois {min} à {max}',
+  'practice.sprint': 'sprint de {seconds} secondes',
+  'practice.allSums': 'tous les calculs',
+  'practice.sums': { one: '{count} calcul', other: '{count} calculs' },
+  'practice.secondsPerSum': '{seconds} s par calcul',
+  'practice.untimed': 'sans chrono',
+  'practice.withChallenges': 'avec défis',
+  'practice.question': 'Question {number} sur {total}',
+  'practice.again': 'Encore une fois !',
+  'practice.challenge': 'Défi !',
+  'practice.check': 'Vérifier',
+  'practice.enterHint': 'Clique sur le bouton ou appuie sur Entrée',
+  'practice.back': 'Retour, tu pourras continuer plus tard',
+  'practice.repeat': 'Relire le calcul',
+  'practice.answerLabel': 'Ta réponse à {question}',
+  'practice.keypad': 'Touches de chiffres',
+  'practice.backspace': 'Effacer le dernier chiffre',
+  'practice.pause': 'Pause',
+  'practice.paused': 'Petite pause',
+  'practice.pausedHint': 'Le temps s’arrête jusqu’à ce que tu continues.',
+  'practice.resume': 'Continuer',
+
+  'speech.times': 'fois',
+  'speech.dividedBy': 'divisé par',
+  'speech.plus': 'plus',
+  'speech.minus': 'moins',
+  'speech.equals': 'égale',
+  'speech.what': 'combien',
+  'speech.correct': 'Juste !',
+  'speech.wrong': 'Faux.',
+  'speech.timeUp': 'Le temps est écoulé.',
+  'speech.answerIs': 'La réponse est',
+
+  'resume.title': 'Tu n’avais pas fini',
+  'resume.progress': '{answered} calculs sur {total} faits, bonnes réponses : {correct}',
+  'resume.sprintProgress': { one: 'Sprint : {count} calcul fait, bonnes réponses : {correct}', other: 'Sprint : {count} calculs faits, bonnes réponses : {correct}' },
+  'resume.continue': 'Reprendre où tu en étais',
+  'resume.stop': 'Arrêter et enregistrer',
+
+  'results.wellDone': 'Bien joué, {name} !',
+  'results.einstein': 'Tu es un vrai Einstein.',
+  'results.correct': 'Juste',
+  'results.wrong': 'Faux',
+  'results.timedOut': 'Temps écoulé',
+  'results.newSprintRecord': 'Nouveau record personnel de sprint !',
+  'results.was': '(avant : {record})',
+  'results.newRecordRibbon': 'Nouveau record !',
+  'results.newRecord': 'WAOUH ! NOUVEAU RECORD !',
+  'results.averageSpeed': 'Vitesse moyenne',
+  'results.sec': 's',
+  'results.perSum': 'par calcul',
+  'results.previousRecord': 'Record précédent : {record}',
+  'results.yourRecord': 'Ton record : {record}',
+  'results.retryMistakes': 'Refaire les erreurs',
+  'results.again': 'Tout recommencer !',
+  'results.changeSettings': 'Modifier les réglages',
+  'results.yourProgress': 'Tes progrès',
+  'results.overview': 'Aperçu',
+  'results.speed': 'Vitesse',
+  'results.selection': 'Sélection',
+  'results.progress': 'Progrès',
+  'results.sums': 'Calculs',
+
+  'profiles.title': 'Joueurs',
+  'profiles.delete': 'Supprimer le joueur',
+  'profiles.confirmDelete': 'Supprimer {name} ?',
+  'profiles.player': 'Joueur',
+  'profiles.changeAvatar': 'Choisis une autre image',
+  'profiles.newPlayer': 'Nouveau joueur',
+
+  'assignments.title': 'Devoirs de la classe',
+  'assignments.due': 'Pour le {date}',
+  'assignments.release': 'Quitter',
+  'assignments.choose': 'Choisir',
+
+  'history.timedOut': 'Le temps était écoulé',
+  'history.wrongAnswer': 'Tu as tapé {answer}, la bonne réponse est {result}',
+  'history.rightAnswer': 'La bonne réponse est {result}',
+
+  'range.from': 'de',
+  'range.to': 'à',
+
+  'timer.title': 'Temps',
+  'timer.none': 'Sans chrono',
+  'timer.perQuestion': 'Par calcul',
+  'timer.sprint': 'Sprint',
+  'timer.minutes': '{minutes} min',
+  'timer.sprintHint': 'Le plus de calculs justes possible en {seconds} secondes.',
+  'timer.noneHint': 'Prends ton temps, il n’y a pas de chrono.',
+
+  'challenges.missingFactor': 'Nombre manquant',
+  'challenges.reversed': 'À l’envers',
+  'challenges.wordQuestion': 'Question',
+  'challenges.chain': 'Chaîne',
+  'challenges.commutative': 'Échange',
+  'challenges.timesFits': 'Combien de fois {b} font {product} ?',
+  'challenges.fitsIn': 'Combien de fois {b} entre-t-il dans {a} ?',
+  'challenges.so': '{quotient} × {b} = {a}, donc {a} ÷ {b} =',
+  'challenges.title': 'Défis',
+
+  'arithmetic.bonds10': 'Décompositions jusqu’à 10',
+  'arithmetic.bonds20': 'Décompositions jusqu’à 20',
+  'arithmetic.bonds100': 'Sauts jusqu’à 100',
+  'arithmetic.noCarry20': 'Jusqu’à 20 sans passage de la dizaine',
+  'arithmetic.carry20': 'Jusqu’à 20 avec passage de la dizaine',
+  'arithmetic.noCarry100': 'Jusqu’à 100 sans passage de la dizaine',
+  'arithmetic.carry100': 'Jusqu’à 100 avec passage de la dizaine',
+  'arithmetic.addition': 'Addition (+)',
+  'arithmetic.subtraction': 'Soustraction (−)',
+
+  'records.sprint': 'sprint de {minutes} min',
+  'records.timed': 'chrono par calcul',
+  'records.correct': '{count} justes',
+  'records.perSum': '{time} par calcul',
+  'records.title': 'Mes records',
+  'records.explanation': 'Chaque choix de tables, de nombre de calculs et de temps a son propre record. Une session compte si elle est sans faute ; pour un sprint, c’est le nombre de bonnes réponses qui compte.',
+  'records.none': 'Pas encore de records. Joue une session sans faute !',
+  'records.earlier': 'Ancien record, tous les choix confondus',
+
+  'streaks.minutes': { one: '{count} minute', other: '{count} minutes' },
+
+  'goal.today': 'Objectif du jour',
+  'goal.days': { one: '{count} jour', other: '{count} jours' },
+  'goal.reached': 'Objectif atteint ! {goal} d’exercice.',
+  'goal.progress': '{done} sur {goal}',
+
+  'calendar.title': 'Calendrier d’exercice',
+  'calendar.streak': 'Série',
+  'calendar.bestStreak': 'Plus longue série',
+  'calendar.jokers': 'Jokers',
+  'calendar.jokerHint': 'Chaque fois que tu atteins ton objectif {days} jours d’affilée, tu gagnes un joker (maximum {max}). Si tu manques un jour, un joker garde ta série en vie.',
+  'calendar.dayTitle': '{sums}, {minutes} min',
+  'calendar.goalReached': 'Objectif atteint',
+  'calendar.overHalf': 'Plus de la moitié',
+  'calendar.aLittle': 'Un peu exercé',
+  'calendar.jokerUsed': 'Joker utilisé',
+  'calendar.notPractised': 'Pas exercé',
+  'calendar.dailyGoal': 'Objectif du jour : {goal}',
+  'calendar.sums': 'Calculs',
+  'calendar.minutes': 'Minutes',
+
+  'progress.allSums': 'Tous les calculs',
+  'progress.allOfOperation': 'Tous les calculs {symbol}',
+  'progress.faster': '{label} : {percent} % plus rapide que le mois passé',
+  'progress.slower': '{label} : {percent} % plus lent que le mois passé',
+  'progress.moreCorrect': '{label} : {points} % de réponses justes en plus que le mois passé',
+  'progress.lessCorrect': '{label} : {points} % de réponses justes en moins que le mois passé',
+  'progress.same': '{label} : aussi bien que le mois passé',
+  'progress.noSums': 'Pas encore de calculs de ce type.',
+  'progress.accuracy': 'Réponses justes',
+  'progress.timePerSum': 'Temps par calcul',
+
+  'badges.perfectTable.title': 'Sans faute × {table}',
+  'badges.perfectTable.description': 'Fais au moins 10 calculs de la table de {table} sans faute en une session.',
+  'badges.firstSession.title': 'Premier pas',
+  'badges.firstSession.description': 'Joue ta première session.',
+  'badges.fivePerfect.title': 'Cinq d’affilée',
+  'badges.fivePerfect.description': 'Joue cinq sessions d’affilée sans une seule faute.',
+  'badges.lightning.title': 'Rapide comme l’éclair',
+  'badges.lightning.description': 'Moins de 2 secondes par calcul, sans faute et avec au moins 10 calculs.',
+  'badges.hundredInAWeek.title': 'Cent en une semaine',
+  'badges.hundredInAWeek.description': 'Fais 100 calculs en 7 jours.',
+  'badges.sprinter.title': 'Sprinteur',
+  'badges.sprinter.description': 'Obtiens 30 bonnes réponses en un sprint.',
+  'badges.allTablesMastered.title': 'Champion des tables',
+  'badges.allTablesMastered.description': 'Maîtrise complètement les tables de 1 à 10.',
+  'badges.title': 'Badges',
+  'badges.locked': 'Encore à gagner',
+  'badges.new': { one: 'Nouveau badge !', other: '{count} nouveaux badges !' },
+
+  'dashboard.title': 'Progrès par calcul',
+  'dashboard.rightAndFast': 'Juste et rapide',
+  'dashboard.right': 'Juste',
+  'dashboard.rightButSlow': 'Juste mais lent',
+  'dashboard.sometimesWrong': 'Parfois faux',
+  'dashboard.oftenWrong': 'Souvent faux',
+  'dashboard.notPractised': 'Pas encore exercé',
+  'dashboard.attempts': { one: 'Exercé {count} fois', other: 'Exercé {count} fois' },
+  'dashboard.accuracy': '{percent} % juste',
+  'dashboard.noAttempts': 'Ce calcul n’a pas encore été exercé.',
+  'dashboard.timedOut': 'temps écoulé',
+  'dashboard.typed': 'tu as tapé {answer}',
+
+  'duel.title': 'Duel',
+  'duel.hint': 'Jouez à deux sur un seul appareil. Le premier qui donne la bonne réponse gagne le point.',
+  'duel.needSecondPlayer': 'Ajoute d’abord un deuxième joueur pour jouer un duel.',
+  'duel.against': 'Contre qui ?',
+  'duel.start': 'Commencer le duel',
+  'duel.round': 'Manche {number} sur {total}',
+  'duel.quit': 'Arrêter le duel',
+  'duel.point': 'Point !',
+  'duel.tooLate': 'Trop tard',
+  'duel.wrong': 'Faux, attends un peu',
+  'duel.nobody': 'Personne ne gagne ce point',
+  'duel.points': { one: '{count} point', other: '{count} points' },
+  'duel.wins': '{name} gagne le duel !',
+  'duel.draw': 'Égalité !',
+  'duel.rounds': 'Manches',
+  'duel.rematch': 'Encore un duel',
+  'duel.done': 'Terminé',
+
+  'sessions.title': 'Derniers résultats',
+  'sessions.filter': 'Filtrer',
+  'sessions.clear': 'Effacer l’historique',
+  'sessions.allPlayers': 'Tous les joueurs',
+  'sessions.allTables': 'Toutes les tables',
+  'sessions.from': 'Du',
+  'sessions.to': 'Au',
+  'sessions.none': 'Aucun résultat trouvé.',
+  'sessions.loadMore': 'Charger plus',
+  'sessions.partial': 'arrêté',
+  'sessions.duel': 'duel contre {name} ({score}–{opponentScore})',
+
+  'share.title': 'Partager l’exercice',
+  'share.newLink': 'Créer un nouveau lien',
+  'share.createLink': 'Créer un lien avec ce choix',
+  'share.copied': 'Copié',
+  'share.copy': 'Copier',
+  'share.explanation': 'Qui ouvre ce lien reçoit exactement les mêmes calculs dans le même ordre.',
+  'share.sharedPractice': 'Exercice partagé',
+  'share.notNow': 'Pas maintenant',
+  'share.start': 'Commencer cet exercice',
+  'share.samePractice': 'Même exercice',
+
+  'sync.title': 'Synchroniser',
+  'sync.idle': 'Pas encore synchronisé',
+  'sync.syncing': 'Synchronisation en cours...',
+  'sync.ok': 'Synchronisé',
+  'sync.error': 'La synchronisation a échoué, nous réessaierons plus tard',
+  'sync.unauthorized': 'Le serveur refuse le code d’accès',
+  'sync.offline': 'Hors ligne, nous synchroniserons dès qu’il y aura internet',
+  'sync.placeholder': 'https://server.school.be (facultatif)',
+  'sync.token': 'Code d’accès du serveur',
+  'sync.now': 'Synchroniser maintenant',
+  'sync.at': 'à {time}',
+
+  'backup.invalidSession': 'Une session de la sauvegarde n’est pas valide.',
+  'backup.invalidSum': 'Un calcul de la sauvegarde n’est pas valide.',
+  'backup.invalidPlayer': 'Un joueur de la sauvegarde n’est pas valide.',
+  'backup.invalidClass': 'Une classe de la sauvegarde n’est pas valide.',
+  'backup.invalidAssignment': 'Un devoir de la sauvegarde n’est pas valide.',
+  'backup.missingSessions': 'Les sessions de {name} manquent.',
+  'backup.aPlayer': 'un joueur',
+  'backup.invalidFile': 'Ce fichier n’est pas une sauvegarde valide.',
+  'backup.notOurs': 'Ce fichier n’est pas une sauvegarde TafelKampioen.',
+  'backup.tooNew': 'Cette sauvegarde provient d’une version plus récente de l’app.',
+  'backup.unsupportedVersion': 'La version de sauvegarde {version} n’est pas prise en charge.',
+  'backup.noPlayers': 'La sauvegarde ne contient aucun joueur.',
+  'backup.csvHeader': 'session;date;joueur;devoir;calcul;bonne réponse;réponse donnée;juste;temps écoulé;temps (ms)',
+  'backup.title': 'Sauvegarde',
+  'backup.save': 'Enregistrer',
+  'backup.restore': 'Restaurer',
+  'backup.unreadable': 'Le fichier n’a pas pu être lu.',
+  'backup.exportFailed': 'L’exportation a échoué, l’historique n’a pas pu être lu.',
+  'backup.restoreFailed': 'La restauration a échoué.',
+  'backup.players': { one: '{count} joueur', other: '{count} joueurs' },
+  'backup.sessions': { one: '{count} session', other: '{count} sessions' },
+  'backup.restored': '{players} et {sessions} restaurés.',
+  'backup.pending': 'Sauvegarde du {date} avec {players}.',
+  'backup.merge': 'Fusionner',
+  'backup.replace': 'Tout remplacer',
+
+  'update.version': 'La version {version} est prête',
+  'update.ready': 'Une mise à jour est prête',
+  'update.keepsProgress': 'Tes progrès sont conservés.',
+  'update.apply': 'Mettre à jour',
+  'update.later': 'Plus tard',
+
+  'teacher.title': 'Gestion de classe',
+  'teacher.finished': '{finished} sur {total} terminé',
+  'teacher.notDone': 'Pas encore fait',
+  'teacher.defaultTitle': 'Devoir',
+  'teacher.classes': 'Classes',
+  'teacher.newClassPlaceholder': 'Nom d’une nouvelle classe...',
+  'teacher.addClass': 'Ajouter une classe',
+  'teacher.pupilsOf': 'Élèves de {name}',
+  'teacher.deleteClass': 'Supprimer la classe',
+  'teacher.noPupils': 'Pas encore d’élèves.',
+  'teacher.removePupil': 'Retirer de la classe',
+  'teacher.addExisting': 'Ajouter un joueur existant...',
+  'teacher.newPupilPlaceholder': 'Nouvel élève...',
+  'teacher.createPupil': 'Créer un élève',
+  'teacher.newAssignment': 'Nouveau devoir',
+  'teacher.titlePlaceholder': 'Titre, p. ex. Test tables de 7 et 8',
+  'teacher.deadline': 'Échéance',
+  'teacher.send': 'Envoyer le devoir',
+  'teacher.assignments': 'Devoirs',
+  'teacher.deleteAssignment': 'Supprimer le devoir'
+};
+
+export default fr;
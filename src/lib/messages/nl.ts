@@ -0,0 +1,336 @@
+import type { Message } from '../i18n';
+
+// The source catalogue: a key added here has to be translated in en and fr too, or the build fails
+const nl = {
+  'app.tagline': 'Word de meester van de tafels!',
+  'app.anonymous': 'Anoniem',
+  'app.nameFirst': 'Vul eerst je naam in!',
+  'app.chooseFirst': 'Kies eerst minstens één tafel of soort sommen om te oefenen!',
+  'app.footer': 'Gemaakt voor kleine kampioenen 🌟',
+  'app.credits': 'Deze app is met behulp van AI gemaakt door Glenn Evens.',
+
+  'common.on': 'Aan',
+  'common.off': 'Uit',
+  'common.sure': 'Zeker?',
+
+  'format.seconds': '{value}s',
+
+  'settings.multiplication': 'Vermenigvuldigen (×)',
+  'settings.division': 'Delen (÷)',
+  'settings.multipliers': 'Keer (of uitkomst bij delen)',
+  'settings.all': 'Alle',
+  'settings.title': 'Instellingen',
+  'settings.playerName': 'Naam van de speler',
+  'settings.namePlaceholder': 'Typ je naam...',
+  'settings.isTeacher': 'Dit is een leerkracht',
+  'settings.confirmTeacher': 'Zeker? Tik nog eens om leerkracht te worden',
+  'settings.language': 'Taal',
+  'settings.assignmentLock': 'De tafels en het aantal sommen zijn vastgelegd door de opdracht.',
+  'settings.tables': 'Tafels',
+  'settings.mixHint': 'Kies je tafels én plus- of minsommen, dan krijg je ze door elkaar.',
+  'settings.recordForChoice': 'Record voor deze keuze',
+  'settings.noRecord': 'Nog geen record',
+  'settings.allRecords': 'Alle records',
+  'settings.exerciseCount': 'Aantal sommen',
+  'settings.adaptive': 'Slim oefenen',
+  'settings.adaptiveHint': 'Snel en juist? Dan krijg je minder tijd. Een fout komt een paar sommen later terug.',
+  'settings.readAloud': 'Voorlezen',
+  'settings.readAloudHint': 'Elke som en of je antwoord goed was wordt voorgelezen.',
+  'settings.readAloudUnavailable': 'Dit toestel heeft geen stem voor deze taal en er zijn geen opgenomen geluidsfragmenten, dus er wordt niets voorgelezen.',
+  'settings.keypad': 'Cijfertoetsen op het scherm',
+  'settings.keypadHint': 'Grote knoppen in plaats van het toetsenbord van je tablet.',
+  'settings.autoSubmit': 'Meteen controleren',
+  'settings.autoSubmitHint': 'Je antwoord wordt gecontroleerd zodra het genoeg cijfers heeft, zonder Enter.',
+  'settings.start': 'Start met oefenen!',
+
+  'practice.multiplierRange': 'keer {min} tot {max}',
+  'practice.sprint': 'sprint van {seconds} seconden',
+  'practice.allSums': 'alle sommen',
+  'practice.sums': { one: '{count} som', other: '{count} sommen' },
+  'practice.secondsPerSum': '{seconds}s per som',
+  'practice.untimed': 'zonder tijd',
+  'practice.withChallenges': 'met challenges',
+  'practice.question': 'Vraag {number} van {total}',
+  'practice.again': 'Nog eens!',
+  'practice.challenge': 'Challenge!',
+  'practice.check': 'Controleer',
+  'practice.enterHint': 'Klik op de knop of druk op Enter',
+  'practice.back': 'Terug, je kunt later verder',
+  'practice.repeat': 'Lees de som nog eens voor',
+  'practice.answerLabel': 'Jouw antwoord op {question}',
+  'practice.keypad': 'Cijfertoetsen',
+  'practice.backspace': 'Laatste cijfer wissen',
+  'practice.pause': 'Pauze',
+  'practice.paused': 'Even pauze',
+  'practice.pausedHint': 'De tijd staat stil tot je verder gaat.',
+  'practice.resume': 'Verder',
+
+  'speech.times': 'keer',
+  'speech.dividedBy': 'gedeeld door',
+  'speech.plus': 'plus',
+  'speech.minus': 'min',
+  'speech.equals': 'is',
+  'speech.what': 'hoeveel',
+  'speech.correct': 'Goed!',
+  'speech.wrong': 'Fout.',
+  'speech.timeUp': 'De tijd is op.',
+  'speech.answerIs': 'Het antwoord is',
+
+  'resume.title': 'Je was nog bezig',
+  'resume.progress': '{answered} van {total} sommen gemaakt, {correct} goed',
+  'resume.sprintProgress': { one: 'Sprint: {count} som gemaakt, {correct} goed', other: 'Sprint: {count} sommen gemaakt, {correct} goed' },
+  'resume.continue': 'Verder waar je was',
+  'resume.stop': 'Stoppen en bewaren',
+
+  'results.wellDone': 'Goed gedaan, {name}!',
+  'results.einstein': 'Je bent echt een Einstein.',
+  'results.correct': 'Goed',
+  'results.wrong': 'Fout',
+  'results.timedOut': 'Tijd op',
+  'results.newSprintRecord': 'Nieuw persoonlijk sprintrecord!',
+  'results.was': '(was {record})',
+  'results.newRecordRibbon': 'Nieuw Record!',
+  'results.newRecord': 'WAUW! NIEUW RECORD!',
+  'results.averageSpeed': 'Gemiddelde Snelheid',
+  'results.sec': 'sec',
+  'results.perSum': 'per som',
+  'results.previousRecord': 'Vorig record: {record}',
+  'results.yourRecord': 'Jouw record: {record}',
+  'results.retryMistakes': 'Fouten opnieuw maken',
+  'results.again': 'Alles opnieuw!',
+  'results.changeSettings': 'Instellingen aanpassen',
+  'results.yourProgress': 'Jouw vooruitgang',
+  'results.overview': 'Overzicht',
+  'results.speed': 'Snelheid',
+  'results.selection': 'Selectie',
+  'results.progress': 'Vooruitgang',
+  'results.sums': 'Sommen',
+
+  'profiles.title': 'Spelers',
+  'profiles.delete': 'Speler verwijderen',
+  'profiles.confirmDelete': '{name} wissen?',
+  'profiles.player': 'Speler',
+  'profiles.changeAvatar': 'Kies een ander plaatje',
+  'profiles.newPlayer': 'Nieuwe speler',
+
+  'assignments.title': 'Opdrachten van de klas',
+  'assignments.due': 'Tegen {date}',
+  'assignments.release': 'Loslaten',
+  'assignments.choose': 'Kiezen',
+
+  'history.timedOut': 'De tijd was op',
+  'history.wrongAnswer': 'Je typte {answer}, juist is {result}',
+  'history.rightAnswer': 'Juist is {result}',
+
+  'range.from': 'van',
+  'range.to': 'tot',
+
+  'timer.title': 'Tijd',
+  'timer.none': 'Geen tijd',
+  'timer.perQuestion': 'Per som',
+  'timer.sprint': 'Sprint',
+  'timer.minutes': '{minutes} min',
+  'timer.sprintHint': 'Zoveel mogelijk sommen juist in {seconds} seconden.',
+  'timer.noneHint': 'Neem rustig je tijd, er loopt geen klok.',
+
+  'challenges.missingFactor': 'Ontbrekend getal',
+  'challenges.reversed': 'Omgekeerd',
+  'challenges.wordQuestion': 'Vraagzin',
+  'challenges.chain': 'Ketting',
+  'challenges.commutative': 'Wissel',
+  'challenges.timesFits': 'Hoeveel keer {b} is {product}?',
+  'challenges.fitsIn': 'Hoeveel keer past {b} in {a}?',
+  'challenges.so': '{quotient} × {b} = {a}, dus {a} ÷ {b} =',
+  'challenges.title': 'Challenges',
+
+  'arithmetic.bonds10': 'Splitsen tot 10',
+  'arithmetic.bonds20': 'Splitsen tot 20',
+  'arithmetic.bonds100': 'Sprongen naar 100',
+  'arithmetic.noCarry20': 'Tot 20 zonder brug',
+  'arithmetic.carry20': 'Tot 20 met brug',
+  'arithmetic.noCarry100': 'Tot 100 zonder brug',
+  'arithmetic.carry100': 'Tot 100 met brug',
+  'arithmetic.addition': 'Optellen (+)',
+  'arithmetic.subtraction': 'Aftrekken (−)',
+
+  'records.sprint': 'sprint van {minutes} min',
+  'records.timed': 'met tijd per som',
+  'records.correct': '{count} goed',
+  'records.perSum': '{time} per som',
+  'records.title': 'Mijn records',
+  'records.explanation': 'Elke keuze van tafels, aantal sommen en tijd heeft een eigen record. Een sessie telt mee als ze foutloos is; bij een sprint telt het aantal goede antwoorden.',
+  'records.none': 'Nog geen records. Speel een sessie zonder fouten!',
+  'records.earlier': 'Record van vroeger, alle keuzes samen',
+
+  'streaks.minutes': { one: '{count} minuut', other: '{count} minuten' },
+
+  'goal.today': 'Doel van vandaag',
+  'goal.days': { one: '{count} dag', other: '{count} dagen' },
+  'goal.reached': 'Doel gehaald! {goal} geoefend.',
+  'goal.progress': '{done} van {goal}',
+
+  'calendar.title': 'Oefenkalender',
+  'calendar.streak': 'Reeks',
+  'calendar.bestStreak': 'Langste reeks',
+  'calendar.jokers': 'Jokers',
+  'calendar.jokerHint': 'Elke {days} dagen op rij dat je je doel haalt, verdien je een joker (maximum {max}). Mis je een dag, dan houdt een joker je reeks in leven.',
+  'calendar.dayTitle': '{sums}, {minutes} min',
+  'calendar.goalReached': 'Doel gehaald',
+  'calendar.overHalf': 'Meer dan half',
+  'calendar.aLittle': 'Even geoefend',
+  'calendar.jokerUsed': 'Joker gebruikt',
+  'calendar.notPractised': 'Niet geoefend',
+  'calendar.dailyGoal': 'Dagdoel: {goal}',
+  'calendar.sums': 'Sommen',
+  'calendar.minutes': 'Minuten',
+
+  'progress.allSums': 'Alle sommen',
+  'progress.allOfOperation': 'Alle {symbol}-sommen',
+  'progress.faster': '{label} is {percent}% sneller dan vorige maand',
+  'progress.slower': '{label} is {percent}% trager dan vorige maand',
+  'progress.moreCorrect': '{label}: {points}% meer goed dan vorige maand',
+  'progress.lessCorrect': '{label}: {points}% minder goed dan vorige maand',
+  'progress.same': '{label} gaat even goed als vorige maand',
+  'progress.noSums': 'Nog geen sommen van deze soort.',
+  'progress.accuracy': 'Goed beantwoord',
+  'progress.timePerSum': 'Tijd per som',
+
+  'badges.perfectTable.title': 'Foutloos × {table}',
+  'badges.perfectTable.description': 'Maak minstens 10 sommen van de tafel van {table} zonder fouten in één sessie.',
+  'badges.firstSession.title': 'Eerste stap',
+  'badges.firstSession.description': 'Speel je eerste sessie.',
+  'badges.fivePerfect.title': 'Vijf op een rij',
+  'badges.fivePerfect.description': 'Speel vijf sessies na elkaar zonder één fout.',
+  'badges.lightning.title': 'Bliksemsnel',
+  'badges.lightning.description': 'Minder dan 2 seconden per som, foutloos en met minstens 10 sommen.',
+  'badges.hundredInAWeek.title': 'Honderd in een week',
+  'badges.hundredInAWeek.description': 'Maak 100 sommen in 7 dagen.',
+  'badges.sprinter.title': 'Sprinter',
+  'badges.sprinter.description': 'Haal 30 goede antwoorden in één sprint.',
+  'badges.allTablesMastered.title': 'Tafelkampioen',
+  'badges.allTablesMastered.description': 'Beheers de tafels van 1 tot 10 helemaal.',
+  'badges.title': 'Badges',
+  'badges.locked': 'Nog te verdienen',
+  'badges.new': { one: 'Nieuwe badge!', other: '{count} nieuwe badges!' },
+
+  'dashboard.title': 'Voortgang per som',
+  'dashboard.rightAndFast': 'Goed en snel',
+  'dashboard.right': 'Goed',
+  'dashboard.rightButSlow': 'Goed maar traag',
+  'dashboard.sometimesWrong': 'Soms fout',
+  'dashboard.oftenWrong': 'Vaak fout',
+  'dashboard.notPractised': 'Nog niet geoefend',
+  'dashboard.attempts': { one: '{count} keer geoefend', other: '{count} keer geoefend' },
+  'dashboard.accuracy': '{percent}% goed',
+  'dashboard.noAttempts': 'Deze som is nog niet geoefend.',
+  'dashboard.timedOut': 'tijd op',
+  'dashboard.typed': 'je typte {answer}',
+
+  'duel.title': 'Duel',
+  'duel.hint': 'Speel met z’n tweeën op één toestel. Wie eerst het juiste antwoord geeft, wint het punt.',
+  'duel.needSecondPlayer': 'Voeg eerst een tweede speler toe om een duel te spelen.',
+  'duel.against': 'Tegen wie?',
+  'duel.start': 'Start het duel',
+  'duel.round': 'Ronde {number} van {total}',
+  'duel.quit': 'Duel stoppen',
+  'duel.point': 'Punt!',
+  'duel.tooLate': 'Te laat',
+  'duel.wrong': 'Fout, wacht even',
+  'duel.nobody': 'Niemand krijgt dit punt',
+  'duel.points': { one: '{count} punt', other: '{count} punten' },
+  'duel.wins': '{name} wint het duel!',
+  'duel.draw': 'Gelijkspel!',
+  'duel.rounds': 'Rondes',
+  'duel.rematch': 'Nog een duel',
+  'duel.done': 'Klaar',
+
+  'sessions.title': 'Laatste resultaten',
+  'sessions.filter': 'Filteren',
+  'sessions.clear': 'Historiek wissen',
+  'sessions.allPlayers': 'Alle spelers',
+  'sessions.allTables': 'Alle tafels',
+  'sessions.from': 'Van',
+  'sessions.to': 'Tot',
+  'sessions.none': 'Geen resultaten gevonden.',
+  'sessions.loadMore': 'Meer laden',
+  'sessions.partial': 'gestopt',
+  'sessions.duel': 'duel tegen {name} ({score}–{opponentScore})',
+
+  'share.title': 'Oefening delen',
+  'share.newLink': 'Nieuwe link maken',
+  'share.createLink': 'Maak een link met deze keuze',
+  'share.copied': 'Gekopieerd',
+  'share.copy': 'Kopieer',
+  'share.explanation': 'Wie deze link opent, krijgt precies dezelfde sommen in dezelfde volgorde.',
+  'share.sharedPractice': 'Gedeelde oefening',
+  'share.notNow': 'Niet nu',
+  'share.start': 'Start deze oefening',
+  'share.samePractice': 'Zelfde oefening',
+
+  'sync.title': 'Synchroniseren',
+  'sync.idle': 'Nog niet gesynchroniseerd',
+  'sync.syncing': 'Bezig met synchroniseren...',
+  'sync.ok': 'Gesynchroniseerd',
+  'sync.error': 'Synchroniseren mislukt, we proberen het later opnieuw',
+  'sync.unauthorized': 'De server weigert de toegangscode',
+  'sync.offline': 'Offline, we synchroniseren zodra er internet is',
+  'sync.placeholder': 'https://server.school.be (optioneel)',
+  'sync.token': 'Toegangscode van de server',
+  'sync.now': 'Nu synchroniseren',
+  'sync.at': 'om {time}',
+
+  'backup.invalidSession': 'Een sessie in de back-up is ongeldig.',
+  'backup.invalidSum': 'Een som in de back-up is ongeldig.',
+  'backup.invalidPlayer': 'Een speler in de back-up is ongeldig.',
+  'backup.invalidClass': 'Een klas in de back-up is ongeldig.',
+  'backup.invalidAssignment': 'Een opdracht in de back-up is ongeldig.',
+  'backup.missingSessions': 'De sessies van {name} ontbreken.',
+  'backup.aPlayer': 'een speler',
+  'backup.invalidFile': 'Dit bestand is geen geldige back-up.',
+  'backup.notOurs': 'Dit bestand is geen TafelKampioen back-up.',
+  'backup.tooNew': 'Deze back-up komt uit een nieuwere versie van de app.',
+  'backup.unsupportedVersion': 'Back-upversie {version} wordt niet ondersteund.',
+  'backup.noPlayers': 'De back-up bevat geen spelers.',
+  'backup.csvHeader': 'sessie;datum;speler;opdracht;som;juist antwoord;gegeven antwoord;goed;tijd op;tijd (ms)',
+  'backup.title': 'Back-up',
+  'backup.save': 'Bewaren',
+  'backup.restore': 'Terugzetten',
+  'backup.unreadable': 'Het bestand kon niet gelezen worden.',
+  'backup.exportFailed': 'Exporteren mislukt, de historiek kon niet gelezen worden.',
+  'backup.restoreFailed': 'Terugzetten mislukt.',
+  'backup.players': { one: '{count} speler', other: '{count} spelers' },
+  'backup.sessions': { one: '{count} sessie', other: '{count} sessies' },
+  'backup.restored': '{players} en {sessions} teruggezet.',
+  'backup.pending': 'Back-up van {date} met {players}.',
+  'backup.merge': 'Samenvoegen',
+  'backup.replace': 'Alles vervangen',
+
+  'update.version': 'Versie {version} is klaar',
+  'update.ready': 'Er is een update klaar',
+  'update.keepsProgress': 'Je voortgang blijft gewoon bewaard.',
+  'update.apply': 'Bijwerken',
+  'update.later': 'Later',
+
+  'teacher.title': 'Klasbeheer',
+  'teacher.finished': '{finished} van {total} klaar',
+  'teacher.notDone': 'Nog niet gemaakt',
+  'teacher.defaultTitle': 'Opdracht',
+  'teacher.classes': 'Klassen',
+  'teacher.newClassPlaceholder': 'Naam van een nieuwe klas...',
+  'teacher.addClass': 'Klas toevoegen',
+  'teacher.pupilsOf': 'Leerlingen van {name}',
+  'teacher.deleteClass': 'Klas verwijderen',
+  'teacher.noPupils': 'Nog geen leerlingen.',
+  'teacher.removePupil': 'Uit de klas halen',
+  'teacher.addExisting': 'Bestaande speler toevoegen...',
+  'teacher.newPupilPlaceholder': 'Nieuwe leerling...',
+  'teacher.createPupil': 'Leerling aanmaken',
+  'teacher.newAssignment': 'Nieuwe opdracht',
+  'teacher.titlePlaceholder': 'Titel, bv. Toets tafel 7 en 8',
+  'teacher.deadline': 'Deadline',
+  'teacher.send': 'Opdracht versturen',
+  'teacher.assignments': 'Opdrachten',
+  'teacher.deleteAssignment': 'Opdracht verwijderen'
+} satisfies Record<string, Message>;
+
+export default nl;
@@ -0,0 +1,64 @@
+import { ArithmeticLevel, Exercise, NumberRange } from '../types';
+import { buildArithmeticFacts, countArithmeticFacts } from './arithmetic';
+
+export const MIN_TABLE = 0;
+export const MAX_TABLE = 20;
+export const DEFAULT_TABLE_RANGE: NumberRange = { min: 0, max: 10 };
+export const DEFAULT_MULTIPLIER_RANGE: NumberRange = { min: 0, max: 10 };
+
+export function rangeValues(range: NumberRange): number[] {
+  const values: number[] = [];
+  for (let i = range.min; i <= range.max; i++) values.push(i);
+  return values;
+}
+
+export function clampRange(range: NumberRange): NumberRange {
+  const min = Math.max(MIN_TABLE, Math.min(MAX_TABLE, Math.round(range.min)));
+  const max = Math.max(min, Math.min(MAX_TABLE, Math.round(range.max)));
+  return { min, max };
+}
+
+export interface FactSelection {
+  multiplicationTables: number[];
+  divisionTables: number[];
+  multiplierRange?: NumberRange; // Defaults to 0..10
+  additionLevels?: ArithmeticLevel[];
+  subtractionLevels?: ArithmeticLevel[];
+}
+
+// Mastery is kept per table, or per level for addition and subtraction
+export function masteryKey(exercise: Exercise): string {
+  return `${exercise.op}-${exercise.level ?? exercise.b}`;
+}
+
+// Every fact of the selected tables, one per multiplier (or quotient, for division), plus every fact of the
+// selected addition and subtraction levels. Picking several kinds makes a mixed session.
+export function buildFacts(selection: FactSelection): Exercise[] {
+  const multipliers = rangeValues(selection.multiplierRange ?? DEFAULT_MULTIPLIER_RANGE);
+  const pool: Exercise[] = [];
+
+  selection.multiplicationTables.forEach(table => {
+    multipliers.forEach(i => {
+      pool.push({ a: i, b: table, op: 'multiplication', result: table * i });
+    });
+  });
+
+  selection.divisionTables.forEach(table => {
+    multipliers.forEach(i => {
+      pool.push({ a: table * i, b: table, op: 'division', result: i });
+    });
+  });
+
+  (selection.additionLevels ?? []).forEach(level => pool.push(...buildArithmeticFacts('addition', level)));
+  (selection.subtractionLevels ?? []).forEach(level => pool.push(...buildArithmeticFacts('subtraction', level)));
+
+  return pool;
+}
+
+export function countFacts(selection: FactSelection): number {
+  const range = selection.multiplierRange ?? DEFAULT_MULTIPLIER_RANGE;
+  const tableFacts = (selection.multiplicationTables.length + selection.divisionTables.length) * (range.max - range.min + 1);
+  const levelFacts = (op: 'addition' | 'subtraction', levels: ArithmeticLevel[] = []) =>
+    levels.reduce((sum, level) => sum + countArithmeticFacts(op, level), 0);
+  return tableFacts + levelFacts('addition', selection.additionLevels) + levelFacts('subtraction', selection.subtractionLevels);
+}
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SharedPractice } from '../types';
+import { decodePracticeCode, describePractice, encodePracticeCode } from './practiceCode';
+
+const practice: SharedPractice = {
+  multiplicationTables: [7, 8],
+  divisionTables: [7],
+  additionLevels: ['carry20'],
+  subtractionLevels: [],
+  multiplierRange: { min: 6, max: 12 },
+  exerciseCount: 20,
+  timer: { mode: 'perQuestion', questionSeconds: 10, sprintSeconds: 60 },
+  challenges: { enabled: true, weight: 0.35, formats: ['missingFactor', 'reversed'] },
+  seed: 3141592653
+};
+
+describe('practice codes', () => {
+  it('survive a round trip', () => {
+    const code = encodePracticeCode(practice);
+    assert.match(code, /^[A-Za-z0-9_-]+$/);
+    assert.deepEqual(decodePracticeCode(code), practice);
+  });
+
+  it('leave out the challenge formats when challenges are off', () => {
+    const plain = { ...practice, challenges: { enabled: false, weight: 0.2, formats: [] } };
+    assert.deepEqual(decodePracticeCode(encodePracticeCode(plain)), plain);
+  });
+
+  it('reject mangled or unknown codes', () => {
+    assert.equal(decodePracticeCode('not a code'), null);
+    assert.equal(decodePracticeCode(encodePracticeCode(practice).slice(0, 20)), null);
+    assert.equal(decodePracticeCode(encodePracticeCode({ ...practice, divisionTables: [0] })), null);
+    assert.equal(decodePracticeCode(encodePracticeCode({ ...practice, multiplicationTables: [21] })), null);
+  });
+
+  it('describe the quiz in a single line', () => {
+    assert.equal(describePractice(practice), '× 7, 8 · ÷ 7 · + Tot 20 met brug · keer 6 tot 12 · 20 sommen · 10s per som · met challenges');
+  });
+});
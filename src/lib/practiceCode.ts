@@ -0,0 +1,141 @@
+import { ArithmeticLevel, ChallengeFormat, SharedPractice, TimerMode, UserSettings } from '../types';
+import { ARITHMETIC_LEVELS, levelLabel } from './arithmetic';
+import { CHALLENGE_FORMATS } from './challenges';
+import { t } from './i18n';
+import { MAX_TABLE, MIN_TABLE, clampRange } from './pool';
+
+const CODE_VERSION = 1;
+export const PRACTICE_PARAM = 'oefening';
+
+const TIMER_MODES: TimerMode[] = ['none', 'perQuestion', 'sprint'];
+const EXERCISE_COUNTS: UserSettings['exerciseCount'][] = [10, 20, 50, 'all'];
+
+// Short keys keep the link short enough to send in a chat message
+interface CodePayload {
+  v: number;
+  m: number[];
+  d: number[];
+  a: ArithmeticLevel[];
+  s: ArithmeticLevel[];
+  r: [number, number];
+  n: UserSettings['exerciseCount'];
+  t: [TimerMode, number, 60 | 120];
+  c: [number, ChallengeFormat[]] | 0;
+  x: number;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, b => String.fromCharCode(b)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): string {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+export function encodePracticeCode(practice: SharedPractice): string {
+  const payload: CodePayload = {
+    v: CODE_VERSION,
+    m: practice.multiplicationTables,
+    d: practice.divisionTables,
+    a: practice.additionLevels,
+    s: practice.subtractionLevels,
+    r: [practice.multiplierRange.min, practice.multiplierRange.max],
+    n: practice.exerciseCount,
+    t: [practice.timer.mode, practice.timer.questionSeconds, practice.timer.sprintSeconds],
+    c: practice.challenges.enabled ? [practice.challenges.weight, practice.challenges.formats] : 0,
+    x: practice.seed
+  };
+  return toBase64Url(JSON.stringify(payload));
+}
+
+const isTable = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= MIN_TABLE && (value as number) <= MAX_TABLE;
+const isLevel = (value: unknown): value is ArithmeticLevel => ARITHMETIC_LEVELS.some(l => l.level === value);
+const isFormat = (value: unknown): value is ChallengeFormat => CHALLENGE_FORMATS.some(f => f.format === value);
+const listOf = <T>(value: unknown, check: (item: unknown) => item is T): T[] | null =>
+  Array.isArray(value) && value.every(check) ? value : null;
+
+// Returns null for anything that isn't a code of a version we know, so a mangled link is simply ignored
+export function decodePracticeCode(code: string): SharedPractice | null {
+  let payload: any;
+  try {
+    payload = JSON.parse(fromBase64Url(code));
+  } catch {
+    return null;
+  }
+  if (typeof payload !== 'object' || payload === null || payload.v !== CODE_VERSION) return null;
+
+  const multiplicationTables = listOf(payload.m, isTable);
+  // Division by zero is never asked
+  const divisionTables = listOf(payload.d, (n): n is number => isTable(n) && n > 0);
+  const additionLevels = listOf(payload.a, isLevel);
+  const subtractionLevels = listOf(payload.s, isLevel);
+  if (!multiplicationTables || !divisionTables || !additionLevels || !subtractionLevels) return null;
+
+  const [min, max] = Array.isArray(payload.r) ? payload.r : [];
+  const [mode, questionSeconds, sprintSeconds] = Array.isArray(payload.t) ? payload.t : [];
+  if (!isTable(min) || !isTable(max) || min > max) return null;
+  if (!EXERCISE_COUNTS.includes(payload.n) || !TIMER_MODES.includes(mode)) return null;
+  if (typeof questionSeconds !== 'number' || questionSeconds <= 0 || (sprintSeconds !== 60 && sprintSeconds !== 120)) return null;
+  if (!Number.isInteger(payload.x)) return null;
+
+  let challenges: SharedPractice['challenges'] = { enabled: false, weight: 0.2, formats: [] };
+  if (payload.c !== 0) {
+    const [weight, formats] = Array.isArray(payload.c) ? payload.c : [];
+    const checkedFormats = listOf(formats, isFormat);
+    if (typeof weight !== 'number' || weight < 0 || weight > 1 || !checkedFormats) return null;
+    challenges = { enabled: true, weight, formats: checkedFormats };
+  }
+
+  return {
+    multiplicationTables,
+    divisionTables,
+    additionLevels,
+    subtractionLevels,
+    multiplierRange: clampRange({ min, max }),
+    exerciseCount: payload.n,
+    timer: { mode, questionSeconds, sprintSeconds },
+    challenges,
+    seed: payload.x
+  };
+}
+
+export function practiceLink(code: string): string {
+  const url = new URL(import.meta.env.BASE_URL, window.location.origin);
+  url.searchParams.set(PRACTICE_PARAM, code);
+  return url.toString();
+}
+
+export function readPracticeCodeFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get(PRACTICE_PARAM);
+}
+
+// Drops the code from the address bar, so a reload doesn't offer the same quiz again
+export function clearPracticeCodeFromUrl(): void {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(PRACTICE_PARAM);
+  window.history.replaceState(null, '', url.toString());
+}
+
+export function describePractice(practice: SharedPractice): string {
+  const parts: string[] = [];
+  if (practice.multiplicationTables.length > 0) parts.push(`× ${practice.multiplicationTables.join(', ')}`);
+  if (practice.divisionTables.length > 0) parts.push(`÷ ${practice.divisionTables.join(', ')}`);
+  if (practice.additionLevels.length > 0) parts.push(`+ ${practice.additionLevels.map(levelLabel).join(', ')}`);
+  if (practice.subtractionLevels.length > 0) parts.push(`− ${practice.subtractionLevels.map(levelLabel).join(', ')}`);
+  const { min, max } = practice.multiplierRange;
+  if (min !== 0 || max !== 10) parts.push(t('practice.multiplierRange', { min, max }));
+
+  const { timer } = practice;
+  if (timer.mode === 'sprint') {
+    parts.push(t('practice.sprint', { seconds: timer.sprintSeconds }));
+  } else {
+    parts.push(practice.exerciseCount === 'all' ? t('practice.allSums') : t('practice.sums', { count: practice.exerciseCount }));
+    parts.push(timer.mode === 'perQuestion' ? t('practice.secondsPerSum', { seconds: timer.questionSeconds }) : t('practice.untimed'));
+  }
+  if (practice.challenges.enabled) parts.push(t('practice.withChallenges'));
+  return parts.join(' · ');
+}
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HistoryEntry, SessionResult } from '../types';
+import { describeTrend, monthTrend, notableTrends, progressFilters, progressSeries, trendDirection } from './progress';
+import { sessionResult } from '../../test/factories';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+function answer(b: number, timeMs: number, correct = true): HistoryEntry {
+  return { exercise: { a: 3, b, op: 'multiplication', result: 3 * b }, correct, answer: correct ? 3 * b : 0, timedOut: false, responseTimeMs: timeMs };
+}
+
+function session(daysAgo: number, history: HistoryEntry[]): SessionResult {
+  return sessionResult({ id: `s-${daysAgo}`, timestamp: NOW - daysAgo * DAY, history });
+}
+
+const answers = (b: number, timeMs: number, count = 5) => Array.from({ length: count }, () => answer(b, timeMs));
+
+describe('progressSeries', () => {
+  it('gives one point per session with matching sums, oldest first', () => {
+    const sessions = [session(1, [...answers(8, 2000, 2), answer(8, 4000, false)]), session(3, answers(7, 1000)), session(5, answers(8, 3000))];
+    const series = progressSeries(sessions, 'multiplication-8');
+    assert.deepEqual(series.map(p => p.sessionId), ['s-5', 's-1']);
+    assert.equal(series[1].accuracy, 2 / 3);
+    assert.equal(series[1].averageTimeMs, 8000 / 3);
+  });
+});
+
+describe('progressFilters', () => {
+  it('lists each operation before its tables', () => {
+    assert.deepEqual(progressFilters([session(1, [answer(8, 1000), answer(2, 1000)])]), ['', 'multiplication', 'multiplication-2', 'multiplication-8']);
+  });
+});
+
+describe('monthTrend', () => {
+  it('compares the last 30 days with the 30 before', () => {
+    const trend = monthTrend([session(5, answers(8, 2100)), session(40, answers(8, 3000))], 'multiplication-8', NOW);
+    assert.ok(trend);
+    assert.equal(trendDirection(trend), 'better');
+    assert.equal(describeTrend(trend), '×8 is 30% sneller dan vorige maand');
+  });
+
+  it('needs enough answers in both months', () => {
+    assert.equal(monthTrend([session(5, answers(8, 2000)), session(40, answers(8, 3000, 2))], 'multiplication-8', NOW), null);
+  });
+});
+
+describe('notableTrends', () => {
+  it('leaves out tables that barely changed', () => {
+    const sessions = [
+      session(5, [...answers(8, 2000), ...answers(7, 2000)]),
+      session(40, [...answers(8, 4000), ...answers(7, 2100)])
+    ];
+    assert.deepEqual(notableTrends(sessions, NOW).map(t => t.filter), ['multiplication-8']);
+  });
+});
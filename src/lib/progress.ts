@@ -0,0 +1,136 @@
+import { ArithmeticLevel, Exercise, HistoryEntry, Operation, SessionResult } from '../types';
+import { masteryKey } from './pool';
+import { levelLabel } from './arithmetic';
+import { operatorSymbol } from './format';
+import { t } from './i18n';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MONTH = 30 * DAY;
+// Fewer answers than this in either month and a trend would mostly be noise
+const MIN_TREND_ANSWERS = 5;
+// Changes smaller than this aren't worth telling a child about
+const MIN_TREND_CHANGE = 0.1;
+
+// '' for everything, an operation like 'multiplication', or a table or level like 'multiplication-8'
+export type ProgressFilter = string;
+
+export interface ProgressPoint {
+  sessionId: string;
+  timestamp: number;
+  answers: number;
+  accuracy: number; // 0..1
+  averageTimeMs?: number; // Missing when none of the answers has a time
+}
+
+export interface Trend {
+  filter: ProgressFilter;
+  speedChange?: number; // -0.3 is 30% faster than the month before
+  accuracyChange?: number; // In percentage points, 0.1 is 10 points better
+}
+
+export function matchesFilter(exercise: Exercise, filter: ProgressFilter): boolean {
+  return filter === '' || exercise.op === filter || masteryKey(exercise) === filter;
+}
+
+export function filterLabel(filter: ProgressFilter): string {
+  if (filter === '') return t('progress.allSums');
+  const [op, group] = filter.split('-') as [Operation, string | undefined];
+  if (group === undefined) return t('progress.allOfOperation', { symbol: operatorSymbol(op) });
+  const isLevel = op === 'addition' || op === 'subtraction';
+  return `${operatorSymbol(op)}${isLevel ? ` ${levelLabel(group as ArithmeticLevel)}` : group}`;
+}
+
+// Every table and level that occurs in the sessions, for the filter menu
+export function progressFilters(sessions: SessionResult[]): ProgressFilter[] {
+  const groups = new Set<string>();
+  sessions.forEach(session => session.history.forEach(entry => groups.add(masteryKey(entry.exercise))));
+  const ops: Operation[] = ['multiplication', 'division', 'addition', 'subtraction'];
+  return ['', ...ops.flatMap(op => {
+    const ofOp = [...groups].filter(key => key.startsWith(`${op}-`))
+      .sort((a, b) => Number(a.split('-')[1]) - Number(b.split('-')[1]) || a.localeCompare(b));
+    return ofOp.length > 0 ? [op, ...ofOp] : [];
+  })];
+}
+
+function answeredTimes(entries: HistoryEntry[]): number[] {
+  return entries.filter(e => !e.timedOut && e.responseTimeMs !== undefined).map(e => e.responseTimeMs!);
+}
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// One point per session with answers that match the filter, oldest first
+export function progressSeries(sessions: SessionResult[], filter: ProgressFilter): ProgressPoint[] {
+  return [...sessions]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .flatMap(session => {
+      const entries = session.history.filter(e => matchesFilter(e.exercise, filter));
+      if (entries.length === 0) return [];
+      const times = answeredTimes(entries);
+      return [{
+        sessionId: session.id,
+        timestamp: session.timestamp,
+        answers: entries.length,
+        accuracy: entries.filter(e => e.correct).length / entries.length,
+        // Old sessions only know the session average, which is all we can show for them
+        averageTimeMs: times.length > 0 ? average(times) : session.averageTimePerSum
+      }];
+    });
+}
+
+function entriesBetween(sessions: SessionResult[], filter: ProgressFilter, from: number, to: number): HistoryEntry[] {
+  return sessions
+    .filter(s => s.timestamp >= from && s.timestamp < to)
+    .flatMap(s => s.history.filter(e => matchesFilter(e.exercise, filter)));
+}
+
+// The last 30 days against the 30 days before, over every answer rather than per session
+export function monthTrend(sessions: SessionResult[], filter: ProgressFilter, now: number): Trend | null {
+  const recent = entriesBetween(sessions, filter, now - MONTH, now + 1);
+  const before = entriesBetween(sessions, filter, now - 2 * MONTH, now - MONTH);
+  if (recent.length < MIN_TREND_ANSWERS || before.length < MIN_TREND_ANSWERS) return null;
+
+  const accuracy = (entries: HistoryEntry[]) => entries.filter(e => e.correct).length / entries.length;
+  const recentTimes = answeredTimes(recent);
+  const beforeTimes = answeredTimes(before);
+  return {
+    filter,
+    accuracyChange: accuracy(recent) - accuracy(before),
+    speedChange: recentTimes.length >= MIN_TREND_ANSWERS && beforeTimes.length >= MIN_TREND_ANSWERS
+      ? average(recentTimes) / average(beforeTimes) - 1
+      : undefined
+  };
+}
+
+// The tables and levels that changed the most since last month, biggest change first
+export function notableTrends(sessions: SessionResult[], now: number, limit = 3): Trend[] {
+  const size = (trend: Trend) => Math.max(Math.abs(trend.speedChange ?? 0), Math.abs(trend.accuracyChange ?? 0));
+  return progressFilters(sessions)
+    .filter(filter => filter.includes('-'))
+    .map(filter => monthTrend(sessions, filter, now))
+    .filter((trend): trend is Trend => trend !== null && size(trend) >= MIN_TREND_CHANGE)
+    .sort((a, b) => size(b) - size(a))
+    .slice(0, limit);
+}
+
+const speedMatters = (trend: Trend) => trend.speedChange !== undefined && Math.abs(trend.speedChange) >= MIN_TREND_CHANGE;
+const accuracyMatters = (trend: Trend) => trend.accuracyChange !== undefined && Math.abs(trend.accuracyChange) >= MIN_TREND_CHANGE;
+
+// Speed is told first when it changed enough, since that is what keeps moving once the answers are right
+export function trendDirection(trend: Trend): 'better' | 'worse' | 'same' {
+  if (speedMatters(trend)) return trend.speedChange! < 0 ? 'better' : 'worse';
+  if (accuracyMatters(trend)) return trend.accuracyChange! > 0 ? 'better' : 'worse';
+  return 'same';
+}
+
+export function describeTrend(trend: Trend): string {
+  const label = filterLabel(trend.filter);
+  if (speedMatters(trend)) {
+    const percent = Math.round(Math.abs(trend.speedChange!) * 100);
+    return t(trend.speedChange! < 0 ? 'progress.faster' : 'progress.slower', { label, percent });
+  }
+  if (accuracyMatters(trend)) {
+    const points = Math.round(Math.abs(trend.accuracyChange!) * 100);
+    return t(trend.accuracyChange! > 0 ? 'progress.moreCorrect' : 'progress.lessCorrect', { label, points });
+  }
+  return t('progress.same', { label });
+}
@@ -0,0 +1,27 @@
+export type RandomFn = () => number;
+
+// Fisher-Yates shuffle, returns a new array
+export function shuffle<T>(items: T[], random: RandomFn = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// mulberry32: small and fast, and the same seed gives the same sequence in every browser
+export function createSeededRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
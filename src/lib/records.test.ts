@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionResult, TimerSettings } from '../types';
+import { beatsRecord, findRecord, personalRecords, recordKey, sessionSubject, showsEarlierBest } from './records';
+import { sessionResult } from '../../test/factories';
+
+const PER_QUESTION: TimerSettings = { mode: 'perQuestion', questionSeconds: 10, sprintSeconds: 60 };
+const SPRINT: TimerSettings = { ...PER_QUESTION, mode: 'sprint' };
+
+let clock = 0;
+function session(overrides: Partial<SessionResult> = {}): SessionResult {
+  clock += 1000;
+  return sessionResult({
+    correct: 10,
+    total: 10,
+    timestamp: clock,
+    averageTimePerSum: 2000,
+    timer: PER_QUESTION,
+    exerciseCount: 10,
+    multiplicationTables: [7],
+    ...overrides
+  });
+}
+
+describe('recordKey', () => {
+  it('keeps selections, counts and timer modes apart', () => {
+    const base = sessionSubject(session());
+    assert.equal(recordKey(base), recordKey(sessionSubject(session({ averageTimePerSum: 900 }))));
+    assert.notEqual(recordKey(base), recordKey({ ...base, multiplicationTables: [1] }));
+    assert.notEqual(recordKey(base), recordKey({ ...base, exerciseCount: 50 }));
+    assert.notEqual(recordKey(base), recordKey({ ...base, timer: { ...PER_QUESTION, mode: 'none' } }));
+  });
+
+  it('ignores the order of the tables', () => {
+    const subject = sessionSubject(session({ multiplicationTables: [8, 7] }));
+    assert.equal(recordKey(subject), recordKey({ ...subject, multiplicationTables: [7, 8] }));
+  });
+});
+
+describe('beatsRecord', () => {
+  it('sets a first record', () => {
+    assert.equal(beatsRecord(session(), undefined), true);
+  });
+
+  it('needs a faster average than the record', () => {
+    assert.equal(beatsRecord(session({ averageTimePerSum: 1800 }), session()), true);
+    assert.equal(beatsRecord(session({ averageTimePerSum: 2200 }), session()), false);
+  });
+
+  it('only counts flawless sessions that are no retry', () => {
+    assert.equal(beatsRecord(session({ correct: 9, averageTimePerSum: 100 }), session()), false);
+    assert.equal(beatsRecord(session({ retry: true, averageTimePerSum: 100 }), session()), false);
+  });
+
+  it('counts right answers in a sprint', () => {
+    const record = session({ timer: SPRINT, correct: 20, total: 22 });
+    assert.equal(beatsRecord(session({ timer: SPRINT, correct: 21, total: 30 }), record), true);
+    assert.equal(beatsRecord(session({ timer: SPRINT, correct: 20, total: 21 }), record), true);
+    assert.equal(beatsRecord(session({ timer: SPRINT, correct: 19, total: 19 }), record), false);
+  });
+});
+
+describe('personalRecords', () => {
+  it('keeps the best session per selection', () => {
+    const slowSeven = session({ averageTimePerSum: 3000 });
+    const fastSeven = session({ averageTimePerSum: 1500 });
+    const one = session({ multiplicationTables: [1], averageTimePerSum: 800 });
+    const records = personalRecords([slowSeven, fastSeven, one, session({ averageTimePerSum: 2500 })]);
+    assert.equal(records.length, 2);
+    assert.equal(findRecord(records, sessionSubject(slowSeven))?.session, fastSeven);
+    assert.equal(findRecord(records, sessionSubject(one))?.session, one);
+  });
+});
+
+describe('showsEarlierBest', () => {
+  it('keeps the best from before records per choice until a record is at least as fast', () => {
+    assert.equal(showsEarlierBest([], undefined), false);
+    assert.equal(showsEarlierBest([], 2000), true);
+    assert.equal(showsEarlierBest(personalRecords([session({ averageTimePerSum: 2500 })]), 2000), true);
+    assert.equal(showsEarlierBest(personalRecords([session({ averageTimePerSum: 2000 })]), 2000), false);
+  });
+
+  it('is not beaten by a sprint', () => {
+    assert.equal(showsEarlierBest(personalRecords([session({ timer: SPRINT, averageTimePerSum: 500 })]), 2000), true);
+  });
+});
@@ -0,0 +1,115 @@
+import { ArithmeticLevel, SessionResult, TimerSettings } from '../types';
+import { levelLabel } from './arithmetic';
+import { formatSeconds } from './format';
+import { t } from './i18n';
+
+// What a record is kept for: the same sums, the same length and the same clock. A short ×1 session
+// and a long ×7, ×8, ×9 one never compete.
+export interface RecordSubject {
+  multiplicationTables: number[];
+  divisionTables: number[];
+  additionLevels?: ArithmeticLevel[];
+  subtractionLevels?: ArithmeticLevel[];
+  exerciseCount: number | 'all'; // Any number for older sessions, see sessionSubject
+  timer: TimerSettings;
+}
+
+export interface PersonalRecord {
+  key: string;
+  subject: RecordSubject;
+  session: SessionResult; // The session that holds the record
+}
+
+// Sessions from before timer modes were always 15 seconds per sum
+const LEGACY_TIMER: TimerSettings = { mode: 'perQuestion', questionSeconds: 15, sprintSeconds: 60 };
+
+const sorted = <T>(items: T[] | undefined): T[] => [...items ?? []].sort();
+
+export function recordKey(subject: RecordSubject): string {
+  const { timer } = subject;
+  // A sprint has no count, but a two-minute sprint is a different race than a one-minute one
+  const length = timer.mode === 'sprint' ? `sprint-${timer.sprintSeconds}` : `${subject.exerciseCount}-${timer.mode}`;
+  return [
+    `x${sorted(subject.multiplicationTables).join(',')}`,
+    `d${sorted(subject.divisionTables).join(',')}`,
+    `a${sorted(subject.additionLevels).join(',')}`,
+    `s${sorted(subject.subtractionLevels).join(',')}`,
+    length
+  ].join('|');
+}
+
+export function sessionSubject(session: SessionResult): RecordSubject {
+  return {
+    multiplicationTables: session.multiplicationTables,
+    divisionTables: session.divisionTables,
+    additionLevels: session.additionLevels,
+    subtractionLevels: session.subtractionLevels,
+    // Older sessions didn't store their count; the number of sums asked is the closest match
+    exerciseCount: session.exerciseCount ?? session.total,
+    timer: session.timer ?? LEGACY_TIMER
+  };
+}
+
+// A sprint counts right answers; any other session only counts when flawless, and then for its speed
+export function canSetRecord(session: SessionResult): boolean {
+  if (session.retry || session.partial || session.duel || session.total === 0) return false;
+  if (session.timer?.mode === 'sprint') return session.correct > 0;
+  return session.correct === session.total && (session.averageTimePerSum ?? 0) > 0;
+}
+
+export function beatsRecord(session: SessionResult, record: SessionResult | undefined): boolean {
+  if (!canSetRecord(session)) return false;
+  if (!record) return true;
+  if (session.timer?.mode === 'sprint') {
+    return session.correct > record.correct
+      || (session.correct === record.correct && session.total - session.correct < record.total - record.correct);
+  }
+  return (session.averageTimePerSum ?? Infinity) < (record.averageTimePerSum ?? Infinity);
+}
+
+// The best session per subject, newest records first
+export function personalRecords(sessions: SessionResult[]): PersonalRecord[] {
+  const records = new Map<string, PersonalRecord>();
+  // Oldest first, so a tie keeps the session that got there first
+  [...sessions].sort((a, b) => a.timestamp - b.timestamp).forEach(session => {
+    if (!canSetRecord(session)) return;
+    const subject = sessionSubject(session);
+    const key = recordKey(subject);
+    if (beatsRecord(session, records.get(key)?.session)) records.set(key, { key, subject, session });
+  });
+  return [...records.values()].sort((a, b) => b.session.timestamp - a.session.timestamp);
+}
+
+export function findRecord(records: PersonalRecord[], subject: RecordSubject): PersonalRecord | undefined {
+  const key = recordKey(subject);
+  return records.find(record => record.key === key);
+}
+
+export function describeSubject(subject: RecordSubject): string {
+  const parts: string[] = [];
+  if (subject.multiplicationTables.length > 0) parts.push(`× ${subject.multiplicationTables.join(', ')}`);
+  if (subject.divisionTables.length > 0) parts.push(`÷ ${subject.divisionTables.join(', ')}`);
+  if (subject.additionLevels && subject.additionLevels.length > 0) parts.push(`+ ${subject.additionLevels.map(levelLabel).join(', ')}`);
+  if (subject.subtractionLevels && subject.subtractionLevels.length > 0) parts.push(`− ${subject.subtractionLevels.map(levelLabel).join(', ')}`);
+
+  const { timer } = subject;
+  if (timer.mode === 'sprint') {
+    parts.push(t('records.sprint', { minutes: timer.sprintSeconds / 60 }));
+  } else {
+    parts.push(subject.exerciseCount === 'all' ? t('practice.allSums') : t('practice.sums', { count: subject.exerciseCount }));
+    parts.push(timer.mode === 'perQuestion' ? t('records.timed') : t('practice.untimed'));
+  }
+  return parts.join(' · ');
+}
+
+// The earlier best stays on the list until a record of the new kind is at least as fast
+export function showsEarlierBest(records: PersonalRecord[], earlierBest: number | undefined): earlierBest is number {
+  if (earlierBest === undefined) return false;
+  return !records.some(r => r.subject.timer.mode !== 'sprint' && (r.session.averageTimePerSum ?? Infinity) <= earlierBest);
+}
+
+// The number a record is about: right answers for a sprint, seconds per sum otherwise
+export function recordValue(session: SessionResult): string {
+  if (session.timer?.mode === 'sprint') return t('records.correct', { count: session.correct });
+  return t('records.perSum', { time: formatSeconds(session.averageTimePerSum ?? 0, 2) });
+}
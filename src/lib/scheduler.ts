@@ -0,0 +1,78 @@
+import { Exercise, FactStat, FactStats } from '../types';
+import { RandomFn, shuffle } from './random';
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export function factKey(exercise: Exercise): string {
+  return `${exercise.op}-${exercise.a}-${exercise.b}`;
+}
+
+export function createFactStat(now: number): FactStat {
+  return { ease: DEFAULT_EASE, interval: 0, due: now, lapses: 0, reps: 0, lastSeen: now };
+}
+
+// SM-2 style update: a correct answer pushes the due date out, a miss makes the fact due again right away
+export function gradeFact(stat: FactStat | undefined, correct: boolean, now: number): FactStat {
+  const prev = stat ?? createFactStat(now);
+
+  if (!correct) {
+    return {
+      ease: Math.max(MIN_EASE, prev.ease - 0.2),
+      interval: 0,
+      due: now,
+      lapses: prev.reps > 0 ? prev.lapses + 1 : prev.lapses,
+      reps: 0,
+      lastSeen: now
+    };
+  }
+
+  const reps = prev.reps + 1;
+  const interval = reps === 1 ? 1 : reps === 2 ? 3 : Math.round(prev.interval * prev.ease);
+  return {
+    ease: Math.max(MIN_EASE, prev.ease + 0.1),
+    interval,
+    due: now + interval * DAY,
+    lapses: prev.lapses,
+    reps,
+    lastSeen: now
+  };
+}
+
+export function isWeak(stat: FactStat): boolean {
+  return stat.lapses > 0 || stat.ease < DEFAULT_EASE;
+}
+
+// Lower bucket means higher priority: overdue weak facts, other overdue facts, unseen facts, then facts not yet due
+function bucketOf(stat: FactStat | undefined, now: number): number {
+  if (!stat) return 2;
+  if (stat.due <= now) return isWeak(stat) ? 0 : 1;
+  return 3;
+}
+
+function urgencyOf(stat: FactStat | undefined, now: number): number {
+  if (!stat) return 0;
+  const overdue = (now - stat.due) / Math.max(stat.interval * DAY, DAY);
+  return overdue + stat.lapses + (DEFAULT_EASE - stat.ease);
+}
+
+export function buildSessionPool(
+  candidates: Exercise[],
+  stats: FactStats,
+  count: number | 'all',
+  now: number,
+  random: RandomFn = Math.random
+): Exercise[] {
+  if (count === 'all') return shuffle(candidates, random);
+
+  // Shuffle first so facts with equal priority come out in a random order
+  const ranked = shuffle(candidates, random)
+    .map(exercise => {
+      const stat = stats[factKey(exercise)];
+      return { exercise, bucket: bucketOf(stat, now), urgency: urgencyOf(stat, now) };
+    })
+    .sort((x, y) => x.bucket - y.bucket || y.urgency - x.urgency);
+
+  return shuffle(ranked.slice(0, count).map(r => r.exercise), random);
+}
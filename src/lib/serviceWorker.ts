@@ -0,0 +1,59 @@
+export interface AvailableUpdate {
+  version: string;
+  apply: () => void;
+}
+
+const CHECK_INTERVAL = 60 * 60 * 1000;
+let registered = false;
+
+// Asks a worker which app version it carries; older workers without the handler never answer
+function workerVersion(worker: ServiceWorker): Promise<string | null> {
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => resolve(null), 2000);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeout);
+      resolve(event.data?.version ?? null);
+    };
+    worker.postMessage({ type: 'GET_VERSION' }, [channel.port2]);
+  });
+}
+
+// Registers sw.js in production builds and reports a waiting worker as an update the player can apply
+export function registerServiceWorker(onUpdate: (update: AvailableUpdate) => void): void {
+  if (registered || !import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  registered = true;
+
+  const announce = async (worker: ServiceWorker) => {
+    const version = await workerVersion(worker) ?? __APP_VERSION__;
+    onUpdate({
+      version,
+      apply: () => {
+        navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+        worker.postMessage({ type: 'SKIP_WAITING' });
+      }
+    });
+  };
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      // Only a worker that replaces an existing one is an update; the very first install just takes over
+      if (registration.waiting && navigator.serviceWorker.controller) announce(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) announce(installing);
+        });
+      });
+      // Tablets stay open for days, so look for a new version now and then
+      setInterval(() => registration.update().catch(() => {}), CHECK_INTERVAL);
+    } catch (e) {
+      console.warn('Service worker registreren mislukt:', e);
+    }
+  };
+
+  // Registering after the page has loaded keeps the precache downloads out of the way of the first paint
+  if (document.readyState === 'complete') register();
+  else window.addEventListener('load', register, { once: true });
+}
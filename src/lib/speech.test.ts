@@ -0,0 +1,50 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spokenFeedback, spokenQuestion } from './speech';
+import { setLocale } from './i18n';
+import { toChallenge } from './challenges';
+import { Exercise } from '../types';
+
+const fact: Exercise = { a: 7, b: 8, op: 'multiplication', result: 56 };
+
+describe('spokenQuestion', () => {
+  afterEach(() => setLocale('nl'));
+
+  it('reads a plain sum without the closing "="', () => {
+    assert.deepEqual(spokenQuestion(fact), { text: '7 keer 8', clips: ['7', 'times', '8'] });
+    setLocale('en');
+    assert.equal(spokenQuestion({ a: 35, b: 5, op: 'subtraction', result: 30 }).text, '35 minus 5');
+  });
+
+  it('reads the missing number of a challenge as a question word', () => {
+    const missing = toChallenge(fact, 'missingFactor')!;
+    assert.deepEqual(spokenQuestion(missing), {
+      text: 'hoeveel keer 8 is 56',
+      clips: ['what', 'times', '8', 'equals', '56']
+    });
+  });
+
+  it('treats the question mark of a word question as punctuation', () => {
+    const word = toChallenge(fact, 'wordQuestion')!;
+    assert.deepEqual(spokenQuestion(word), { text: 'Hoeveel keer 8 is 56', clips: ['8', '56'] });
+    setLocale('fr');
+    assert.equal(spokenQuestion(toChallenge(fact, 'wordQuestion')!).text, 'Combien de fois 8 font 56');
+  });
+});
+
+describe('spokenFeedback', () => {
+  it('gives the right answer after a miss or a timeout', () => {
+    assert.deepEqual(spokenFeedback({ exercise: fact, correct: true, answer: 56, timedOut: false, responseTimeMs: 900 }), {
+      text: 'Goed!',
+      clips: ['correct']
+    });
+    assert.deepEqual(spokenFeedback({ exercise: fact, correct: false, answer: 54, timedOut: false, responseTimeMs: 900 }), {
+      text: 'Fout. Het antwoord is 56',
+      clips: ['wrong', 'answerIs', '56']
+    });
+    assert.equal(
+      spokenFeedback({ exercise: fact, correct: false, answer: null, timedOut: true, responseTimeMs: 15000 }).text,
+      'De tijd is op. Het antwoord is 56'
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { Exercise, HistoryEntry } from '../types';
+import { formatPrompt } from './format';
+import { MessageKey, getLocale, localeTag, t } from './i18n';
+
+// What to say, once as text for the speech synthesis and the screen reader, and once as the recorded clips
+// (public/voice/<locale>/<clip>.mp3) that stand in for it on devices without a voice for the language
+export interface Speech {
+  text: string;
+  clips: string[];
+}
+
+const SYMBOLS: Record<string, { word: MessageKey; clip: string }> = {
+  '×': { word: 'speech.times', clip: 'times' },
+  '÷': { word: 'speech.dividedBy', clip: 'dividedBy' },
+  '+': { word: 'speech.plus', clip: 'plus' },
+  '−': { word: 'speech.minus', clip: 'minus' },
+  '=': { word: 'speech.equals', clip: 'equals' },
+  '?': { word: 'speech.what', clip: 'what' }
+};
+
+function join(parts: Speech[]): Speech {
+  return {
+    text: parts.map(p => p.text).join(' ').replace(/\s+([.,!?])/g, '$1'),
+    clips: parts.flatMap(p => p.clips)
+  };
+}
+
+const number = (n: number): Speech => ({ text: String(n), clips: [String(n)] });
+
+// Numbers and symbols of a prompt become words and clips; the words of a word question are read as they are,
+// but have no clip. A closing "=" is dropped, the question already ends there, and so is the question mark
+// after a word or number ("... is 42?"), which is punctuation rather than the missing number.
+function readPrompt(prompt: string): Speech {
+  const cleaned = prompt.replace(/=\s*$/, '').replace(/([\p{L}\d])\s*\?/gu, '$1');
+  const parts = cleaned.match(/\d+|[×÷+−=?]|[^\d×÷+−=?]+/g) ?? [];
+  return join(parts.map(part => {
+    if (/^\d+$/.test(part)) return number(Number(part));
+    const symbol = SYMBOLS[part];
+    if (symbol) return { text: t(symbol.word), clips: [symbol.clip] };
+    return { text: part.trim(), clips: [] };
+  }).filter(p => p.text !== ''));
+}
+
+export function spokenQuestion(exercise: Exercise): Speech {
+  return readPrompt(formatPrompt(exercise));
+}
+
+export function spokenFeedback(entry: HistoryEntry): Speech {
+  if (entry.correct) return { text: t('speech.correct'), clips: ['correct'] };
+  const answer = join([{ text: t('speech.answerIs'), clips: ['answerIs'] }, number(entry.exercise.result)]);
+  return entry.timedOut
+    ? join([{ text: t('speech.timeUp'), clips: ['timeUp'] }, answer])
+    : join([{ text: t('speech.wrong'), clips: ['wrong'] }, answer]);
+}
+
+let clipQueue: HTMLAudioElement[] = [];
+
+function clipUrl(clip: string): string {
+  const base = import.meta.env.BASE_URL || '/';
+  return `${base}voice/${getLocale()}/${clip}.mp3`.replace(/\/+/g, '/');
+}
+
+function playClips(clips: string[]): void {
+  const queue = clips.map(clip => new Audio(clipUrl(clip)));
+  clipQueue = [...clipQueue, ...queue];
+  // Queued after anything still playing; a missing clip just ends that sentence
+  const playNext = () => {
+    const audio = clipQueue[0];
+    if (!audio) return;
+    audio.onended = () => {
+      clipQueue.shift();
+      playNext();
+    };
+    audio.play().catch(() => {
+      clipQueue = clipQueue.filter(a => !queue.includes(a));
+      playNext();
+    });
+  };
+  if (clipQueue.length === queue.length) playNext();
+}
+
+// Only a voice in the language on screen will do; an English voice reading "7 keer 8" helps nobody.
+// Browsers that haven't loaded their voice list yet get the benefit of the doubt (null: let the browser pick),
+// undefined means there is no usable voice and the clips take over.
+function synthesisVoice(): SpeechSynthesisVoice | null | undefined {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return undefined;
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length === 0) return null;
+  const language = getLocale();
+  return voices.find(v => v.lang.toLowerCase() === localeTag().toLowerCase())
+    ?? voices.find(v => v.lang.toLowerCase().startsWith(language));
+}
+
+// Whether reading aloud will be heard at all in the language on screen. The clips aren't in the repository,
+// so without a voice this checks that one is really served, and not the app's index page in its place.
+export async function canSpeak(): Promise<boolean> {
+  if (synthesisVoice() !== undefined) return true;
+  try {
+    const response = await fetch(clipUrl('correct'));
+    return response.ok && (response.headers.get('Content-Type') ?? '').startsWith('audio/');
+  } catch (e) {
+    return false;
+  }
+}
+
+// Speech is queued, so the feedback on one sum is finished before the next sum is read
+export function speak(speech: Speech): void {
+  const voice = synthesisVoice();
+  if (voice === undefined) {
+    playClips(speech.clips);
+    return;
+  }
+  const utterance = new SpeechSynthesisUtterance(speech.text);
+  utterance.lang = localeTag();
+  if (voice) utterance.voice = voice;
+  utterance.rate = 0.9;
+  window.speechSynthesis.speak(utterance);
+}
+
+export function stopSpeaking(): void {
+  if (typeof window !== 'undefined' && 'speechSynthesis' in window) window.speechSynthesis.cancel();
+  clipQueue.forEach(audio => audio.pause());
+  clipQueue = [];
+}
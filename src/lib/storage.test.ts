@@ -0,0 +1,21 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SETTINGS, loadProfiles, loadSettings } from './storage';
+import { useMemoryStorage } from '../../test/storage';
+
+beforeEach(useMemoryStorage);
+
+describe('loadSettings', () => {
+  it('keeps the personalBest from before records per choice as the earlier best', () => {
+    localStorage.setItem('tafel-settings:p', JSON.stringify({ ...DEFAULT_SETTINGS, personalBest: 1800 }));
+    const settings = loadSettings('p');
+    assert.equal(settings.earlierBest, 1800);
+    assert.equal('personalBest' in settings, false);
+  });
+
+  it('carries it over from the single-user data before profiles', () => {
+    localStorage.setItem('tafel-settings', JSON.stringify({ ...DEFAULT_SETTINGS, playerName: 'Lien', personalBest: 2100 }));
+    const [profile] = loadProfiles();
+    assert.equal(loadSettings(profile.id).earlierBest, 2100);
+  });
+});
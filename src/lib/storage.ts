@@ -0,0 +1,237 @@
+import { FactStats, HistoryClear, MasteryData, Profile, SessionResult, UnlockedBadges, UserSettings } from '../types';
+import type { PracticeSession } from './engine';
+
+const PROFILES_KEY = 'tafel-profiles';
+const ACTIVE_PROFILE_KEY = 'tafel-active-profile';
+const SETTINGS_KEY = 'tafel-settings';
+const MASTERY_KEY = 'tafel-mastery';
+const FACT_STATS_KEY = 'tafel-fact-stats';
+const BADGES_KEY = 'tafel-badges';
+const SESSION_HISTORY_KEY = 'tafel-session-history';
+const UPDATED_KEY = 'tafel-updated';
+const DELETED_PROFILES_KEY = 'tafel-deleted-profiles';
+const HISTORY_CLEARS_KEY = 'tafel-history-clears';
+const ACTIVE_SESSION_KEY = 'tafel-active-session';
+const PROFILE_DATA_KEYS = [SETTINGS_KEY, MASTERY_KEY, FACT_STATS_KEY, BADGES_KEY, SESSION_HISTORY_KEY, UPDATED_KEY, ACTIVE_SESSION_KEY];
+
+export const AVATARS = ['🦊', '🐼', '🦁', '🐸', '🐙', '🦄', '🐢', '🚀', '⚽', '🌈'];
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  playerName: '',
+  language: 'nl',
+  multiplicationTables: [],
+  divisionTables: [],
+  additionLevels: [],
+  subtractionLevels: [],
+  exerciseCount: 10,
+  tableRange: { min: 0, max: 10 },
+  multiplierRange: { min: 0, max: 10 },
+  timer: { mode: 'perQuestion', questionSeconds: 15, sprintSeconds: 60 },
+  adaptive: false,
+  readAloud: false,
+  keypad: false,
+  autoSubmit: false,
+  challenges: { enabled: false, weight: 0.2, formats: ['missingFactor', 'reversed', 'wordQuestion', 'chain', 'commutative'] },
+  dailyGoal: { unit: 'sums', target: 50 }
+};
+
+function profileKey(base: string, profileId: string): string {
+  return `${base}:${profileId}`;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+// Returns whether the stored value actually changed
+function writeJsonIfChanged(key: string, value: unknown): boolean {
+  const next = JSON.stringify(value);
+  if (localStorage.getItem(key) === next) return false;
+  localStorage.setItem(key, next);
+  return true;
+}
+
+// Last local change to a profile, its settings, mastery or badges; the sync uses it for last-write-wins
+export function loadProfileUpdatedAt(profileId: string): number {
+  return Number(localStorage.getItem(profileKey(UPDATED_KEY, profileId))) || 0;
+}
+
+export function setProfileUpdatedAt(profileId: string, updatedAt: number) {
+  localStorage.setItem(profileKey(UPDATED_KEY, profileId), String(updatedAt));
+}
+
+export function createProfile(name: string, avatar: string): Profile {
+  return { id: crypto.randomUUID(), name, avatar, createdAt: Date.now() };
+}
+
+// Moves the single-user data from before profiles existed into a first profile
+function migrateLegacyData(): Profile {
+  const legacySettings = readJson<UserSettings | null>(SETTINGS_KEY, null);
+  const profile = createProfile(legacySettings?.playerName ?? '', AVATARS[0]);
+
+  PROFILE_DATA_KEYS.forEach(base => {
+    const saved = localStorage.getItem(base);
+    if (saved !== null) {
+      localStorage.setItem(profileKey(base, profile.id), saved);
+      localStorage.removeItem(base);
+    }
+  });
+
+  return profile;
+}
+
+export function loadProfiles(): Profile[] {
+  const profiles = readJson<Profile[]>(PROFILES_KEY, []);
+  if (profiles.length > 0) return profiles;
+
+  const first = migrateLegacyData();
+  saveProfiles([first]);
+  saveActiveProfileId(first.id);
+  return [first];
+}
+
+export function saveProfiles(profiles: Profile[]) {
+  const previous = readJson<Profile[]>(PROFILES_KEY, []);
+  profiles.forEach(profile => {
+    const before = previous.find(p => p.id === profile.id);
+    if (!before || JSON.stringify(before) !== JSON.stringify(profile)) {
+      setProfileUpdatedAt(profile.id, Date.now());
+    }
+  });
+  writeJson(PROFILES_KEY, profiles);
+
+  // A profile that is back (restored from a backup) is no longer deleted
+  const deleted = loadDeletedProfiles();
+  if (deleted.some(d => profiles.some(p => p.id === d.id))) {
+    writeJson(DELETED_PROFILES_KEY, deleted.filter(d => !profiles.some(p => p.id === d.id)));
+  }
+}
+
+export function loadActiveProfileId(profiles: Profile[]): string {
+  const saved = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.some(p => p.id === saved) ? saved! : profiles[0].id;
+}
+
+export function saveActiveProfileId(profileId: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+}
+
+export function deleteProfileData(profileId: string) {
+  PROFILE_DATA_KEYS.forEach(base => localStorage.removeItem(profileKey(base, profileId)));
+  const deleted = loadDeletedProfiles().filter(d => d.id !== profileId);
+  const now = Date.now();
+  writeJson(DELETED_PROFILES_KEY, [...deleted, { id: profileId, deletedAt: now }]);
+  recordHistoryClear(profileId, now);
+}
+
+// Tombstones so a deletion can reach the sync server
+export function loadDeletedProfiles(): { id: string; deletedAt: number }[] {
+  return readJson(DELETED_PROFILES_KEY, []);
+}
+
+// The same for a cleared history, one per profile
+export function loadHistoryClears(): HistoryClear[] {
+  return readJson(HISTORY_CLEARS_KEY, []);
+}
+
+export function recordHistoryClear(profileId: string, clearedAt: number) {
+  const clears = loadHistoryClears();
+  if (clears.some(c => c.profileId === profileId && c.clearedAt >= clearedAt)) return;
+  writeJson(HISTORY_CLEARS_KEY, [...clears.filter(c => c.profileId !== profileId), { profileId, clearedAt }]);
+}
+
+export function isClearedSession(session: SessionResult, clears: HistoryClear[]): boolean {
+  return clears.some(c => c.profileId === session.profileId && session.timestamp <= c.clearedAt);
+}
+
+export function loadSettings(profileId: string): UserSettings {
+  const { personalBest, ...saved } = readJson<Partial<UserSettings> & { personalBest?: number }>(profileKey(SETTINGS_KEY, profileId), {});
+  // Before records per choice there was one best time for every flawless session; it lives on as the earlier best
+  const earlierBest = saved.earlierBest ?? (typeof personalBest === 'number' && personalBest > 0 ? personalBest : undefined);
+  return { ...DEFAULT_SETTINGS, ...saved, ...(earlierBest !== undefined && { earlierBest }) };
+}
+
+export function saveSettings(profileId: string, settings: UserSettings) {
+  if (writeJsonIfChanged(profileKey(SETTINGS_KEY, profileId), settings)) {
+    setProfileUpdatedAt(profileId, Date.now());
+  }
+}
+
+export function loadMastery(profileId: string): MasteryData {
+  return readJson<MasteryData>(profileKey(MASTERY_KEY, profileId), {});
+}
+
+export function saveMastery(profileId: string, mastery: MasteryData) {
+  if (writeJsonIfChanged(profileKey(MASTERY_KEY, profileId), mastery)) {
+    setProfileUpdatedAt(profileId, Date.now());
+  }
+}
+
+export function loadBadges(profileId: string): UnlockedBadges {
+  return readJson<UnlockedBadges>(profileKey(BADGES_KEY, profileId), {});
+}
+
+export function saveBadges(profileId: string, badges: UnlockedBadges) {
+  if (writeJsonIfChanged(profileKey(BADGES_KEY, profileId), badges)) {
+    setProfileUpdatedAt(profileId, Date.now());
+  }
+}
+
+export function loadFactStats(profileId: string): FactStats {
+  return readJson<FactStats>(profileKey(FACT_STATS_KEY, profileId), {});
+}
+
+export function saveFactStats(profileId: string, factStats: FactStats) {
+  writeJson(profileKey(FACT_STATS_KEY, profileId), factStats);
+}
+
+export interface StoredSession {
+  session: PracticeSession;
+  savedAt: number;
+}
+
+// The session in progress, written after every answer; it stays on this device and is never synced
+export function loadActiveSession(profileId: string): StoredSession | null {
+  return readJson<StoredSession | null>(profileKey(ACTIVE_SESSION_KEY, profileId), null);
+}
+
+export function saveActiveSession(profileId: string, session: PracticeSession | null) {
+  if (session) writeJson(profileKey(ACTIVE_SESSION_KEY, profileId), { session, savedAt: Date.now() });
+  else localStorage.removeItem(profileKey(ACTIVE_SESSION_KEY, profileId));
+}
+
+// Migrate old data if necessary
+export function normalizeSession(item: any): SessionResult {
+  return {
+    ...item,
+    multiplicationTables: item.multiplicationTables || [],
+    divisionTables: item.divisionTables || [],
+    history: (item.history || []).map((entry: any) => ({
+      ...entry,
+      // Sessions from before per-answer tracking only know whether the answer was right
+      answer: entry.answer !== undefined ? entry.answer : entry.correct ? entry.exercise.result : null,
+      timedOut: entry.timedOut ?? false
+    }))
+  };
+}
+
+// Sessions used to live in localStorage (last 5 only) before the history store existed
+export function loadLegacySessionHistory(profileId: string): SessionResult[] {
+  const parsed = readJson<any[]>(profileKey(SESSION_HISTORY_KEY, profileId), []);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.map(item => ({ ...normalizeSession(item), profileId: item.profileId ?? profileId }));
+}
+
+export function clearLegacySessionHistory(profileId: string) {
+  localStorage.removeItem(profileKey(SESSION_HISTORY_KEY, profileId));
+}
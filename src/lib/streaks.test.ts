@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DailyGoal, SessionResult } from '../types';
+import { activityByDay, computeStreak, dayKey, goalProgress } from './streaks';
+import { sessionResult } from '../../test/factories';
+
+const GOAL: DailyGoal = { unit: 'sums', target: 20 };
+
+// Noon on day `n` of March 2024, in local time like the app
+const day = (n: number) => new Date(2024, 2, n, 12).getTime();
+
+function session(timestamp: number, total = 20, duration = 60_000): SessionResult {
+  return sessionResult({ correct: total, total, timestamp, duration, multiplicationTables: [7] });
+}
+
+const practised = (days: number[]) => days.map(n => session(day(n)));
+
+describe('activityByDay', () => {
+  it('adds up the sums and time of each day', () => {
+    const days = activityByDay([session(day(1), 10), session(day(1) + 3600_000, 15, 30_000), session(day(2))]);
+    assert.deepEqual(days.get(dayKey(day(1))), { sums: 25, ms: 90_000, sessions: 2 });
+    assert.equal(days.size, 2);
+  });
+});
+
+describe('goalProgress', () => {
+  it('measures sums or minutes against the goal', () => {
+    const activity = { sums: 10, ms: 5 * 60_000, sessions: 1 };
+    assert.equal(goalProgress(activity, GOAL), 0.5);
+    assert.equal(goalProgress(activity, { unit: 'minutes', target: 5 }), 1);
+    assert.equal(goalProgress(undefined, GOAL), 0);
+  });
+});
+
+describe('computeStreak', () => {
+  it('counts the days on goal in a row', () => {
+    assert.equal(computeStreak(practised([1, 2, 3]), GOAL, day(3)).current, 3);
+    assert.equal(computeStreak([...practised([1, 2]), session(day(3), 5)], GOAL, day(4)).current, 0);
+  });
+
+  it('keeps the streak while today is still open', () => {
+    assert.equal(computeStreak(practised([1, 2]), GOAL, day(3)).current, 2);
+  });
+
+  it('spends a joker earned after a week on a missed day', () => {
+    const info = computeStreak(practised([1, 2, 3, 4, 5, 6, 7, 9]), GOAL, day(9));
+    assert.deepEqual(info.frozenDays, [dayKey(day(8))]);
+    assert.equal(info.current, 8);
+    assert.equal(info.freezes, 0);
+  });
+
+  it('breaks without a joker and remembers the best streak', () => {
+    const info = computeStreak(practised([1, 2, 3, 5]), GOAL, day(5));
+    assert.equal(info.current, 1);
+    assert.equal(info.best, 3);
+    assert.deepEqual(info.frozenDays, []);
+  });
+});
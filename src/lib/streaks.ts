@@ -0,0 +1,92 @@
+import { DailyGoal, SessionResult } from '../types';
+import { t } from './i18n';
+
+// Every seventh day in a row on goal earns a joker, which covers one missed day later on
+export const DAYS_PER_FREEZE = 7;
+export const MAX_FREEZES = 2;
+
+export interface DayActivity {
+  sums: number;
+  ms: number;
+  sessions: number;
+}
+
+export interface StreakInfo {
+  current: number; // Days on goal in a row, today included once it is reached
+  best: number;
+  freezes: number; // Jokers left to cover a missed day
+  frozenDays: string[]; // Missed days a joker covered, as day keys
+}
+
+// Local calendar day, so a session at 23:30 counts for the day the child saw
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Sessions from before durations were stored fall back to their average time per sum
+function sessionMs(session: SessionResult): number {
+  return session.duration ?? (session.averageTimePerSum ?? 0) * session.total;
+}
+
+export function activityByDay(sessions: SessionResult[]): Map<string, DayActivity> {
+  const days = new Map<string, DayActivity>();
+  sessions.forEach(session => {
+    const key = dayKey(session.timestamp);
+    const day = days.get(key) ?? { sums: 0, ms: 0, sessions: 0 };
+    days.set(key, { sums: day.sums + session.total, ms: day.ms + sessionMs(session), sessions: day.sessions + 1 });
+  });
+  return days;
+}
+
+// 0..1, where 1 means the goal of that day was reached
+export function goalProgress(activity: DayActivity | undefined, goal: DailyGoal): number {
+  if (!activity) return 0;
+  const done = goal.unit === 'sums' ? activity.sums : activity.ms / 60000;
+  return Math.min(1, done / goal.target);
+}
+
+export function goalLabel(goal: DailyGoal): string {
+  return goal.unit === 'sums' ? t('practice.sums', { count: goal.target }) : t('streaks.minutes', { count: goal.target });
+}
+
+export function computeStreak(sessions: SessionResult[], goal: DailyGoal, now: number): StreakInfo {
+  const days = activityByDay(sessions);
+  const info: StreakInfo = { current: 0, best: 0, freezes: 0, frozenDays: [] };
+  if (days.size === 0) return info;
+
+  const metGoal = (key: string) => goalProgress(days.get(key), goal) >= 1;
+  let onGoalSinceFreeze = 0;
+  const countDay = () => {
+    info.current += 1;
+    info.best = Math.max(info.best, info.current);
+    onGoalSinceFreeze += 1;
+    if (onGoalSinceFreeze === DAYS_PER_FREEZE) {
+      info.freezes = Math.min(MAX_FREEZES, info.freezes + 1);
+      onGoalSinceFreeze = 0;
+    }
+  };
+
+  // Walk the calendar (not the sessions), so days without any practice count as missed
+  const today = dayKey(now);
+  const first = Math.min(...sessions.map(s => s.timestamp));
+  const date = new Date(first);
+  date.setHours(12, 0, 0, 0);
+  for (let key = dayKey(date.getTime()); key < today; date.setDate(date.getDate() + 1), key = dayKey(date.getTime())) {
+    if (metGoal(key)) {
+      countDay();
+    } else if (info.current > 0 && info.freezes > 0) {
+      info.freezes -= 1;
+      info.frozenDays.push(key);
+    } else {
+      info.current = 0;
+      onGoalSinceFreeze = 0;
+    }
+  }
+
+  // Today isn't over, so not reaching the goal yet doesn't break the streak
+  if (metGoal(today)) countDay();
+  return info;
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FactStat, Profile, SyncBatch } from '../types';
+import { createMemoryAdapter } from './historyStore';
+import { loadFactStats, loadProfileUpdatedAt, loadProfiles, saveFactStats, saveProfiles, setProfileUpdatedAt } from './storage';
+import { SyncConfig, markFactsChanged, markSessionsChanged, syncNow } from './sync';
+import { sessionResult } from '../../test/factories';
+import { useMemoryStorage } from '../../test/storage';
+
+const EMPTY: SyncBatch = { cursor: 0, profiles: [], sessions: [], facts: [], classes: [], assignments: [], historyClears: [] };
+const FIRST_SYNC: SyncConfig = { serverUrl: 'http://sync.test', token: 'geheim', cursor: 0, lastPushAt: 0 };
+
+const realFetch = globalThis.fetch;
+let pushed: SyncBatch[] = [];
+
+// Answers every sync with the given batch and keeps what the client pushed
+function serve(answer: Partial<SyncBatch> = {}, status = 200, whilePushing?: () => void) {
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    pushed.push(JSON.parse(String(init.body)));
+    whilePushing?.();
+    return new Response(JSON.stringify({ ...EMPTY, cursor: 1, ...answer }), { status });
+  }) as typeof fetch;
+}
+
+const profile = (id: string, name = `Speler ${id}`): Profile => ({ id, name, avatar: '🦊', createdAt: 0 });
+const stat = (lastSeen: number): FactStat => ({ ease: 2.5, interval: 1, due: 0, lapses: 0, reps: 1, lastSeen });
+const session = (id: string, timestamp: number) => sessionResult({ id, profileId: 'a', timestamp });
+const lastPush = () => pushed[pushed.length - 1];
+
+beforeEach(() => {
+  useMemoryStorage();
+  pushed = [];
+  saveProfiles([profile('a')]);
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+describe('syncNow', () => {
+  it('pushes everything the first time and only what changed after that, however old it is', async () => {
+    const store = createMemoryAdapter([session('a1', 1000)]);
+    saveFactStats('a', { 'multiplication-3-4': stat(1000) });
+    serve();
+
+    const synced = await syncNow(FIRST_SYNC, store);
+    assert.deepEqual(lastPush().sessions.map(s => s.id), ['a1']);
+    assert.deepEqual(lastPush().facts.map(f => f.key), ['multiplication-3-4']);
+
+    // Dated long before the last push, like a partial result saved days after the pause
+    await store.put(session('a2', 500));
+    markSessionsChanged(['a2']);
+    saveFactStats('a', { ...loadFactStats('a'), 'multiplication-7-8': stat(500) });
+    markFactsChanged('a', ['multiplication-7-8']);
+
+    const again = await syncNow(synced, store);
+    assert.deepEqual(lastPush().sessions.map(s => s.id), ['a2']);
+    assert.deepEqual(lastPush().facts.map(f => f.key), ['multiplication-7-8']);
+
+    await syncNow(again, store);
+    assert.deepEqual(lastPush().sessions, []);
+    assert.deepEqual(lastPush().facts, []);
+  });
+
+  it('keeps changes pending when the push fails or they are written during it', async () => {
+    const store = createMemoryAdapter([session('a1', 1000), session('a2', 2000)]);
+    const config: SyncConfig = { ...FIRST_SYNC, lastPushAt: 5000 };
+    markSessionsChanged(['a1']);
+
+    serve({}, 500);
+    await assert.rejects(syncNow(config, store));
+    serve({}, 200, () => markSessionsChanged(['a2']));
+    const synced = await syncNow(config, store);
+    assert.deepEqual(lastPush().sessions.map(s => s.id), ['a1']);
+
+    serve();
+    await syncNow(synced, store);
+    assert.deepEqual(lastPush().sessions.map(s => s.id), ['a2']);
+  });
+
+  it('lets the last write win per profile and per fact', async () => {
+    setProfileUpdatedAt('a', 100);
+    saveFactStats('a', { 'multiplication-3-4': stat(10), 'multiplication-7-8': stat(30) });
+    serve({
+      profiles: [{ ...profile('a', 'Oud'), updatedAt: 50 }, { ...profile('b'), updatedAt: 200 }],
+      facts: [
+        { profileId: 'a', key: 'multiplication-3-4', stat: stat(20) },
+        { profileId: 'a', key: 'multiplication-7-8', stat: stat(5) }
+      ]
+    });
+
+    await syncNow({ ...FIRST_SYNC, lastPushAt: 5000 }, createMemoryAdapter());
+    assert.deepEqual(loadProfiles().map(p => p.name), ['Speler a', 'Speler b']);
+    assert.equal(loadProfileUpdatedAt('b'), 200);
+    const stats = loadFactStats('a');
+    assert.equal(stats['multiplication-3-4'].lastSeen, 20);
+    assert.equal(stats['multiplication-7-8'].lastSeen, 30);
+  });
+
+  it('removes and keeps out the sessions a history clear covers', async () => {
+    const store = createMemoryAdapter([session('a1', 10), session('a2', 50)]);
+    serve({ historyClears: [{ profileId: 'a', clearedAt: 20 }], sessions: [session('a0', 5), session('a3', 60)] });
+
+    await syncNow({ ...FIRST_SYNC, lastPushAt: 5000 }, store);
+    assert.deepEqual((await store.query()).sessions.map(s => s.id), ['a3', 'a2']);
+  });
+});
@@ -0,0 +1,211 @@
+import { FactStats, Profile, SyncBatch, SyncFact, SyncProfile } from '../types';
+import { HistoryStorageAdapter, historyStore } from './historyStore';
+import { loadAssignments, loadClasses, mergeByUpdatedAt, saveAssignments, saveClasses } from './classroom';
+import {
+  deleteProfileData,
+  isClearedSession,
+  loadBadges,
+  loadDeletedProfiles,
+  loadFactStats,
+  loadHistoryClears,
+  loadMastery,
+  loadProfileUpdatedAt,
+  loadProfiles,
+  loadSettings,
+  recordHistoryClear,
+  saveBadges,
+  saveFactStats,
+  saveMastery,
+  saveProfiles,
+  saveSettings,
+  setProfileUpdatedAt
+} from './storage';
+
+const SYNC_KEY = 'tafel-sync';
+const PENDING_KEY = 'tafel-sync-pending';
+
+export interface SyncConfig {
+  serverUrl: string; // Empty when syncing is off
+  token: string; // Shared secret the server was started with (TAFEL_TOKEN)
+  cursor: number; // Server time returned by the last sync
+  lastPushAt: number; // Local time the last successful push started
+}
+
+export function loadSyncConfig(): SyncConfig {
+  const fallback: SyncConfig = { serverUrl: '', token: '', cursor: 0, lastPushAt: 0 };
+  try {
+    return { ...fallback, ...JSON.parse(localStorage.getItem(SYNC_KEY) || '{}') };
+  } catch (e) {
+    return fallback;
+  }
+}
+
+export function saveSyncConfig(config: SyncConfig) {
+  localStorage.setItem(SYNC_KEY, JSON.stringify(config));
+}
+
+export class SyncError extends Error {
+  constructor(readonly status: number) {
+    super(`Server antwoordde met ${status}`);
+    this.name = 'SyncError';
+  }
+}
+
+// Sessions and fact stats written on this device that the server hasn't had yet. Their own timestamps
+// can't tell: a partial result or an imported backup is often older than the last push.
+interface PendingChanges {
+  sessionIds: string[];
+  facts: Record<string, string[]>; // Fact keys per profile id
+}
+
+function loadPending(): PendingChanges {
+  const fallback: PendingChanges = { sessionIds: [], facts: {} };
+  try {
+    return { ...fallback, ...JSON.parse(localStorage.getItem(PENDING_KEY) || '{}') };
+  } catch (e) {
+    return fallback;
+  }
+}
+
+function savePending(pending: PendingChanges) {
+  localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+}
+
+export function markSessionsChanged(ids: string[]) {
+  const pending = loadPending();
+  savePending({ ...pending, sessionIds: [...new Set([...pending.sessionIds, ...ids])] });
+}
+
+export function markFactsChanged(profileId: string, keys: string[]) {
+  const pending = loadPending();
+  const facts = [...new Set([...pending.facts[profileId] ?? [], ...keys])];
+  savePending({ ...pending, facts: { ...pending.facts, [profileId]: facts } });
+}
+
+// Forgets what a push delivered, keeping whatever was written while it was underway
+function clearPending(pushed: PendingChanges) {
+  const pending = loadPending();
+  const sessionIds = new Set(pushed.sessionIds);
+  const facts: PendingChanges['facts'] = {};
+  Object.entries(pending.facts).forEach(([profileId, keys]) => {
+    const left = keys.filter(key => !pushed.facts[profileId]?.includes(key));
+    if (left.length > 0) facts[profileId] = left;
+  });
+  savePending({ sessionIds: pending.sessionIds.filter(id => !sessionIds.has(id)), facts });
+}
+
+// The first push after (re)connecting sends every session and fact stat, later ones only the pending ones
+async function collectLocalChanges(since: number, pending: PendingChanges, store: HistoryStorageAdapter): Promise<Omit<SyncBatch, 'cursor'>> {
+  const profiles: SyncProfile[] = loadProfiles()
+    .map(profile => ({
+      ...profile,
+      updatedAt: loadProfileUpdatedAt(profile.id),
+      settings: loadSettings(profile.id),
+      mastery: loadMastery(profile.id),
+      badges: loadBadges(profile.id)
+    }))
+    .filter(profile => profile.updatedAt > since);
+
+  loadDeletedProfiles()
+    .filter(d => d.deletedAt > since)
+    .forEach(d => profiles.push({ id: d.id, name: '', avatar: '', createdAt: 0, updatedAt: d.deletedAt, deleted: true }));
+
+  const facts: SyncFact[] = [];
+  loadProfiles().forEach(profile => {
+    const keys = pending.facts[profile.id] ?? [];
+    Object.entries(loadFactStats(profile.id)).forEach(([key, stat]) => {
+      if (since === 0 || keys.includes(key)) facts.push({ profileId: profile.id, key, stat });
+    });
+  });
+
+  const sessions = since === 0
+    ? (await store.query()).sessions
+    : await store.getMany(pending.sessionIds);
+  const classes = loadClasses().filter(c => c.updatedAt > since);
+  const assignments = loadAssignments().filter(a => a.updatedAt > since);
+  const historyClears = loadHistoryClears().filter(c => c.clearedAt > since);
+  return { profiles, sessions, facts, classes, assignments, historyClears };
+}
+
+async function applyRemoteChanges(batch: SyncBatch, store: HistoryStorageAdapter) {
+  let profiles: Profile[] = loadProfiles();
+  const deleted = loadDeletedProfiles();
+  const applied: SyncProfile[] = [];
+
+  for (const remote of batch.profiles) {
+    const localUpdatedAt = loadProfileUpdatedAt(remote.id);
+    const tombstone = deleted.find(d => d.id === remote.id);
+    if (remote.updatedAt <= localUpdatedAt || (tombstone && tombstone.deletedAt >= remote.updatedAt)) continue;
+
+    if (remote.deleted) {
+      // Never remove the last profile on this device
+      if (profiles.some(p => p.id === remote.id) && profiles.length > 1) {
+        profiles = profiles.filter(p => p.id !== remote.id);
+        deleteProfileData(remote.id);
+        await store.deleteByProfile(remote.id);
+      }
+      continue;
+    }
+
+    const { updatedAt, deleted: _deleted, settings, mastery, badges, ...profile } = remote;
+    profiles = profiles.some(p => p.id === profile.id)
+      ? profiles.map(p => p.id === profile.id ? profile : p)
+      : [...profiles, profile];
+    applied.push(remote);
+  }
+
+  saveProfiles(profiles);
+  // Saving bumps the local updatedAt, so put back the remote one that won
+  applied.forEach(remote => {
+    if (remote.settings) saveSettings(remote.id, remote.settings);
+    if (remote.mastery) saveMastery(remote.id, remote.mastery);
+    if (remote.badges) saveBadges(remote.id, remote.badges);
+    setProfileUpdatedAt(remote.id, remote.updatedAt);
+  });
+
+  // A clear from another device removes what it covers here, and no session it covers comes back
+  for (const clear of batch.historyClears ?? []) {
+    recordHistoryClear(clear.profileId, clear.clearedAt);
+    const { sessions } = await store.query({ profileId: clear.profileId, to: clear.clearedAt });
+    await store.deleteMany(sessions.map(s => s.id));
+  }
+  const clears = loadHistoryClears();
+  await store.putMany(batch.sessions.filter(s => !isClearedSession(s, clears)));
+  saveClasses(mergeByUpdatedAt(loadClasses(), batch.classes ?? []));
+  saveAssignments(mergeByUpdatedAt(loadAssignments(), batch.assignments ?? []));
+
+  const factsByProfile = new Map<string, SyncFact[]>();
+  batch.facts.forEach(fact => {
+    factsByProfile.set(fact.profileId, [...(factsByProfile.get(fact.profileId) ?? []), fact]);
+  });
+  factsByProfile.forEach((facts, profileId) => {
+    if (!profiles.some(p => p.id === profileId)) return;
+    const stats: FactStats = loadFactStats(profileId);
+    facts.forEach(({ key, stat }) => {
+      if (!stats[key] || stat.lastSeen > stats[key].lastSeen) stats[key] = stat;
+    });
+    saveFactStats(profileId, stats);
+  });
+}
+
+// Pushes local changes and merges the server's: last write wins per profile and per fact stat, sessions are united by id
+export async function syncNow(config: SyncConfig, store: HistoryStorageAdapter = historyStore): Promise<SyncConfig> {
+  const startedAt = Date.now();
+  const pending = loadPending();
+  const changes = await collectLocalChanges(config.lastPushAt, pending, store);
+  const request: SyncBatch = { cursor: config.cursor, ...changes };
+
+  const response = await fetch(`${config.serverUrl.replace(/\/+$/, '')}/api/sync`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.token}` },
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) {
+    throw new SyncError(response.status);
+  }
+  clearPending(pending);
+
+  const remote: SyncBatch = await response.json();
+  await applyRemoteChanges(remote, store);
+  return { ...config, cursor: remote.cursor, lastPushAt: startedAt };
+}
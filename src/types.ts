@@ -1,35 +1,204 @@
-export type Operation = 'multiplication' | 'division';
+export type Operation = 'multiplication' | 'division' | 'addition' | 'subtraction';
+
+// Difficulty presets for addition and subtraction; "brug" is crossing a ten
+export type ArithmeticLevel = 'bonds10' | 'bonds20' | 'bonds100' | 'noCarry20' | 'carry20' | 'noCarry100' | 'carry100';
 
 export interface Exercise {
   a: number;
   b: number;
   op: Operation;
-  result: number;
-  display?: string;
+  result: number; // The expected answer, for challenges not necessarily a op b
+  display?: string; // Full prompt of a challenge, replaces "a op b ="
   isChallenge?: boolean;
+  isRepeat?: boolean; // Put back in the session by adaptive mode after a miss
+  level?: ArithmeticLevel; // Set on addition and subtraction, which have no table
+}
+
+export interface NumberRange {
+  min: number;
+  max: number; // Inclusive
+}
+
+export type ChallengeFormat = 'missingFactor' | 'reversed' | 'wordQuestion' | 'chain' | 'commutative';
+
+export interface ChallengeSettings {
+  enabled: boolean;
+  weight: number; // Share of the session turned into challenges, 0..1
+  formats: ChallengeFormat[];
 }
 
+export type TimerMode = 'none' | 'perQuestion' | 'sprint';
+
+export interface TimerSettings {
+  mode: TimerMode;
+  questionSeconds: number; // Limit per sum in 'perQuestion' mode
+  sprintSeconds: 60 | 120; // Length of a sprint
+}
+
+export interface DailyGoal {
+  unit: 'sums' | 'minutes';
+  target: number;
+}
+
+export type Locale = 'nl' | 'en' | 'fr';
+
 export interface UserSettings {
   playerName: string;
+  language: Locale;
   multiplicationTables: number[];
   divisionTables: number[];
+  additionLevels: ArithmeticLevel[];
+  subtractionLevels: ArithmeticLevel[];
   exerciseCount: 10 | 20 | 50 | 'all';
-  personalBest?: number; // Lowest average time per sum in ms
+  tableRange: NumberRange; // Which tables the settings grid offers, up to 20
+  multiplierRange: NumberRange; // Multipliers (or quotients) each table is practised with
+  timer: TimerSettings;
+  adaptive: boolean; // Adjusts the time limit and repeats missed sums during a session
+  readAloud: boolean; // Speaks each sum and the feedback
+  keypad: boolean; // On-screen number keys instead of the system keyboard
+  autoSubmit: boolean; // Checks the answer once it has as many digits as the result
+  challenges: ChallengeSettings;
+  dailyGoal: DailyGoal;
+  earlierBest?: number; // The one personalBest from before records per choice, ms per sum
+}
+
+export type Role = 'pupil' | 'teacher';
+
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string; // Emoji
+  createdAt: number;
+  role?: Role; // Missing means pupil
+}
+
+export interface ClassRoom {
+  id: string;
+  name: string;
+  teacherId: string;
+  pupilIds: string[];
+  updatedAt: number;
+  deleted?: boolean;
+}
+
+export interface Assignment {
+  id: string;
+  classId: string;
+  title: string;
+  multiplicationTables: number[];
+  divisionTables: number[];
+  exerciseCount: UserSettings['exerciseCount'];
+  multiplierRange?: NumberRange; // Missing on assignments from before ranges, meaning 0..10
+  deadline: number; // End of the last day, in ms
+  createdAt: number;
+  updatedAt: number;
+  deleted?: boolean;
+}
+
+export interface HistoryEntry {
+  exercise: Exercise;
+  correct: boolean;
+  answer: number | null; // null when the time ran out or the answer is unknown (old sessions)
+  timedOut: boolean;
+  responseTimeMs?: number; // From showing the question to submitting, missing on old sessions
+}
+
+// Everything needed to replay the same quiz on another device, carried in a practice link
+export interface SharedPractice {
+  multiplicationTables: number[];
+  divisionTables: number[];
+  additionLevels: ArithmeticLevel[];
+  subtractionLevels: ArithmeticLevel[];
+  multiplierRange: NumberRange;
+  exerciseCount: UserSettings['exerciseCount'];
+  timer: TimerSettings;
+  challenges: ChallengeSettings;
+  seed: number;
 }
 
 export interface SessionResult {
   id: string;
+  profileId?: string; // Missing on sessions stored before profiles existed
+  assignmentId?: string; // Set when the session was played for a teacher's assignment
   playerName: string;
   correct: number;
   total: number;
   timestamp: number;
   duration?: number; // Total time in ms
   averageTimePerSum?: number; // Average time in ms
+  timer?: TimerSettings; // Missing on sessions from before timer modes (15s per sum)
+  timeouts?: number; // Answers where the time ran out, counted apart from wrong answers
+  adaptive?: boolean;
   multiplicationTables: number[];
   divisionTables: number[];
-  history: { exercise: Exercise; correct: boolean }[];
+  additionLevels?: ArithmeticLevel[]; // Missing on sessions from before addition and subtraction
+  subtractionLevels?: ArithmeticLevel[];
+  practiceCode?: string; // Set when the session was played from a shared practice link
+  exerciseCount?: UserSettings['exerciseCount']; // Missing on sessions from before per-selection records
+  retry?: boolean; // A round with only the mistakes of the session before, which never sets a record
+  partial?: boolean; // Stopped before the end; counts as practice, but never for a record or a perfect round
+  duel?: DuelLink; // Set on both entries of a two-player duel, which never sets a record either
+  history: HistoryEntry[];
+}
+
+// Each player of a duel gets their own entry; the shared id ties the two together
+export interface DuelLink {
+  id: string;
+  opponentId: string;
+  opponentName: string;
+  score: number; // Points of the player this entry belongs to
+  opponentScore: number;
 }
 
 export interface MasteryData {
-  [key: string]: number; // Format: "multiplication-5" or "division-5"
+  [key: string]: number; // Format: "multiplication-5", "division-5" or "addition-carry20"
+}
+
+export interface UnlockedBadges {
+  [badgeId: string]: number; // When the badge was earned, in ms
+}
+
+export interface FactStat {
+  ease: number; // SM-2 style ease factor, never below 1.3
+  interval: number; // Days until the next review
+  due: number; // Timestamp in ms
+  lapses: number; // Times the fact was answered wrong after being learned
+  reps: number; // Consecutive correct answers
+  lastSeen: number;
+}
+
+export interface FactStats {
+  [key: string]: FactStat; // Format: "multiplication-7-8" or "division-56-7"
+}
+
+export interface SyncProfile extends Profile {
+  updatedAt: number;
+  deleted?: boolean;
+  settings?: UserSettings;
+  mastery?: MasteryData;
+  badges?: UnlockedBadges;
+}
+
+export interface SyncFact {
+  profileId: string;
+  key: string;
+  stat: FactStat; // stat.lastSeen decides which write wins
+}
+
+// Sessions of the profile up to clearedAt were deleted on purpose, so no sync may bring them back
+export interface HistoryClear {
+  profileId: string;
+  clearedAt: number;
+}
+
+// Sent both ways: the client pushes its changes with the cursor of its last sync,
+// the server answers with everything changed since that cursor and a new one
+export interface SyncBatch {
+  cursor: number; // Server time, 0 before the first sync
+  profiles: SyncProfile[];
+  sessions: SessionResult[];
+  facts: SyncFact[];
+  classes: ClassRoom[]; // Last write wins on updatedAt
+  assignments: Assignment[]; // Last write wins on updatedAt
+  historyClears: HistoryClear[]; // The latest clear per profile wins
 }
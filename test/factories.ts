@@ -0,0 +1,17 @@
+import { SessionResult } from '../src/types';
+
+// Test helper: a finished session where the history sets the score, unless the overrides give one
+export function sessionResult(overrides: Partial<SessionResult> = {}): SessionResult {
+  const history = overrides.history ?? [];
+  return {
+    id: crypto.randomUUID(),
+    playerName: 'Test',
+    correct: history.filter(h => h.correct).length,
+    total: history.length,
+    timestamp: 0,
+    multiplicationTables: [],
+    divisionTables: [],
+    history,
+    ...overrides
+  };
+}
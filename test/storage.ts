@@ -0,0 +1,9 @@
+// Node has no localStorage, so a test that needs one gets a fresh one in memory
+export function useMemoryStorage() {
+  const items = new Map<string, string>();
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  };
+}
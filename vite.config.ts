@@ -2,13 +2,16 @@ import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 import {defineConfig, loadEnv} from 'vite';
+import pkg from './package.json';
+import {serviceWorker} from './plugins/serviceWorker';
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
     base: '/tafelkampioen/',
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), serviceWorker(pkg.version)],
     define: {
+      __APP_VERSION__: JSON.stringify(pkg.version),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
     },
     resolve: {